@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, useMemo } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from './components/ui/card'
 import { Button } from './components/ui/button'
 import { Progress } from './components/ui/progress'
@@ -11,6 +11,78 @@ import { blink } from './blink/client'
 import { VideoTimeline } from './components/VideoTimeline'
 import { AIProcessingInsights } from './components/AIProcessingInsights'
 import { ExportOptions } from './components/ExportOptions'
+import { SilenceRemovalPanel } from './components/SilenceRemovalPanel'
+import { VideoPlayer } from './components/VideoPlayer'
+import { HistoryPanel } from './components/HistoryPanel'
+import { ProcessingQueue } from './components/ProcessingQueue'
+import { SuggestionsPanel } from './components/SuggestionsPanel'
+import { SuggestionReview } from './components/SuggestionReview'
+import { TranscriptPanel } from './components/TranscriptPanel'
+import { ShortcutsDialog } from './components/ShortcutsDialog'
+import { MarkersPanel } from './components/MarkersPanel'
+import { PerformanceAnalytics } from './components/PerformanceAnalytics'
+import { probeMedia, type MediaMetadata } from './lib/media-probe'
+import { useWaveform } from './hooks/use-waveform'
+import { loadWaveform } from './lib/waveform-loader'
+import { useJobQueue, type StageHandler } from './hooks/use-job-queue'
+import { useChunkedUploads } from './hooks/use-chunked-uploads'
+import { useShortcutBindings, useShortcuts } from './hooks/use-shortcuts'
+import { MAX_SHUTTLE_RATE } from './lib/shortcuts'
+import { getJobProgress, isJobActive, type JobStageType, type ProcessingJob } from './lib/jobs'
+import { renderExport } from './lib/render-export'
+import { fetchUploadedMedia, getBatchProgress, getUploadProgress, isUploadActive, MAX_CONCURRENT_UPLOADS, type UploadSession } from './lib/uploads'
+import { getDroppedFiles } from './lib/dropped-files'
+import { validateVideoFile } from './lib/file-validation'
+import { formatFileSize } from './lib/plans'
+import type { ProcessingQuality } from './lib/scene-detection'
+import { ANALYSIS_PROVIDERS, getAnalysisProvider, type AnalysisKind, type AnalysisProviderId, type ProjectAnalysis } from './lib/analysis-provider'
+import { buildSuggestions, type AISuggestion } from './lib/suggestions'
+import { filterSuggestions, getConfidenceThreshold } from './lib/suggestion-feedback'
+import { findSidecar, isSidecarFile } from './lib/sidecar-transcription'
+import { getWordPlacements, removeWords, selectWordsInRange, getSelectedIndices, type WordSelection } from './lib/transcript-editing'
+import { getTranscriptWords } from './lib/transcript'
+import { cuesFromTranscript, formatSubtitles, getCueAt, type SubtitleCue } from './lib/subtitles'
+import { applyTransitionChoices, chooseSmartTransitions } from './lib/smart-transitions'
+import { createMarker, formatChapterVtt, getAdjacentMarker, getChapters, type Marker } from './lib/markers'
+import {
+  applySuggestion,
+  dismissSuggestion,
+  planSuggestion,
+  restoreSuggestion,
+  revertSuggestion,
+  type SuggestionContext
+} from './lib/suggestion-actions'
+import { getRangesDuration, type TimeRange } from './lib/timeline'
+import {
+  appendSource,
+  createEdl,
+  createId,
+  getEdlDuration,
+  getEditPoints,
+  getPrimaryVideoTrack,
+  isSubtitleTrackActive,
+  isTrackActive,
+  mapSourceRange,
+  mapSourceTime,
+  removeSourceRanges,
+  splitAtTime,
+  type EditDecisionList
+} from './lib/edl'
+import { detectSilence, DEFAULT_SILENCE_OPTIONS } from './lib/silence-detection'
+import { detectBeats } from './lib/beat-detection'
+import { getPresent, jumpToHistory, mapHistoryStates, recordHistory, redoHistory, undoHistory } from './lib/history'
+import { useProjectSync } from './hooks/use-project-sync'
+import { useSuggestionFeedback } from './hooks/use-suggestion-feedback'
+import { usePlan } from './hooks/use-plan'
+import type { VideoProject } from './lib/project-store'
+import {
+  createProjectHistory,
+  DEFAULT_PROJECT_DOCUMENT,
+  type AISettings,
+  type ExportSettings,
+  type ProjectDocument,
+  type ProjectHistory
+} from './lib/project-document'
 import { 
   Upload, 
   Play, 
@@ -21,7 +93,6 @@ import {
   Volume2, 
   Settings,
   FileVideo,
-  Clock,
   Zap,
   CheckCircle,
   AlertCircle,
@@ -30,23 +101,13 @@ import {
   LogOut,
   BarChart3,
   Users,
-  Share2
+  Share2,
+  Keyboard
 } from 'lucide-react'
 
-interface VideoProject {
-  id: string
+interface UploadRejection {
   name: string
-  status: 'uploading' | 'processing' | 'completed' | 'error'
-  progress: number
-  duration?: string
-  size?: string
-  aiSuggestions?: Array<{
-    type: string
-    title: string
-    description: string
-    confidence: number
-    action: string
-  }>
+  reason: string
 }
 
 function App() {
@@ -54,43 +115,57 @@ function App() {
   const [user, setUser] = useState<any>(null)
   const [loading, setLoading] = useState(true)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
-  const [projects, setProjects] = useState<VideoProject[]>([
-    {
-      id: '1',
-      name: 'Summer Vacation 2024.mp4',
-      status: 'completed',
-      progress: 100,
-      duration: '2:34',
-      size: '45.2 MB'
-    },
-    {
-      id: '2', 
-      name: 'Product Demo.mov',
-      status: 'processing',
-      progress: 67,
-      duration: '1:12',
-      size: '28.1 MB'
-    }
-  ])
+  const [projects, setProjects] = useState<VideoProject[]>([])
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null)
+  // Object URLs for files picked in this session, so preview works before the upload finishes
+  const [localMediaUrls, setLocalMediaUrls] = useState<Record<string, string>>({})
   const [isPlaying, setIsPlaying] = useState(false)
   const [currentTime, setCurrentTime] = useState(0)
-  const [duration, setDuration] = useState(154) // 2:34 in seconds
-  const [aiSettings, setAiSettings] = useState({
-    sceneDetection: true,
-    smartTransitions: true,
-    audioEnhancement: true,
-    colorCorrection: false,
-    quality: 'high'
-  })
+  const [volume, setVolume] = useState(75)
+  // Playback speed from J/K/L; negative runs backwards
+  const [shuttleRate, setShuttleRate] = useState(1)
+  const [markIn, setMarkIn] = useState<number | null>(null)
+  const [markOut, setMarkOut] = useState<number | null>(null)
+  const [shortcutsOpen, setShortcutsOpen] = useState(false)
+  // Settings edited while no project is selected; new projects start from these
+  const [workspaceDocument, setWorkspaceDocument] = useState(DEFAULT_PROJECT_DOCUMENT)
+  const [sceneDetectionProgress, setSceneDetectionProgress] = useState<Record<string, number>>({})
+  const sceneDetectionAborts = useRef<Record<string, AbortController>>({})
+  const assembledMedia = useRef<Record<string, Promise<string>>>({})
+  const [suggestionPreview, setSuggestionPreview] = useState<{ projectId: string, suggestionId: string } | null>(null)
+  // Position in the review queue while stepping through suggestions one at a time
+  const [reviewIndex, setReviewIndex] = useState<number | null>(null)
+  const [transcriptSelection, setTranscriptSelection] = useState<WordSelection | null>(null)
+  const [analysisProgress, setAnalysisProgress] = useState<Record<string, Partial<Record<AnalysisKind, number>>>>({})
+  // Probe results land here first so the next processing stage doesn't wait for a render
+  const probedMedia = useRef<Record<string, MediaMetadata>>({})
+  const [silenceOptions, setSilenceOptions] = useState(DEFAULT_SILENCE_OPTIONS)
   const [isDragOver, setIsDragOver] = useState(false)
+  const [uploadConcurrency, setUploadConcurrency] = useState(MAX_CONCURRENT_UPLOADS)
+  const [addUploadsAsClips, setAddUploadsAsClips] = useState(false)
+  // The uploads started since the queue was last idle, for the combined progress bar
+  const [batchUploadIds, setBatchUploadIds] = useState<string[]>([])
+  const [uploadRejections, setUploadRejections] = useState<UploadRejection[]>([])
   const [isExporting, setIsExporting] = useState(false)
   const [exportProgress, setExportProgress] = useState(0)
+  const [exportStatus, setExportStatus] = useState<string>()
+  const [exportResult, setExportResult] = useState<{
+    url: string
+    fileName: string
+    size: number
+    subtitles?: { url: string, fileName: string }
+    chapters?: { url: string, fileName: string }
+  } | null>(null)
+  const exportAbort = useRef<AbortController | null>(null)
   const [activeTab, setActiveTab] = useState('editor')
   const [collaborators, setCollaborators] = useState([
     { id: '1', name: 'John Doe', avatar: '👨‍💻', status: 'online' },
     { id: '2', name: 'Jane Smith', avatar: '👩‍🎨', status: 'editing' }
   ])
   const fileInputRef = useRef<HTMLInputElement>(null)
+  // Async processing callbacks outlive the render they were created in
+  const projectsRef = useRef(projects)
+  projectsRef.current = projects
 
   useEffect(() => {
     const unsubscribe = blink.auth.onAuthStateChanged((state) => {
@@ -100,96 +175,151 @@ function App() {
     return unsubscribe
   }, [])
 
-  const validateVideoFile = (file: File): { valid: boolean; error?: string } => {
-    const maxSize = 500 * 1024 * 1024 // 500MB
-    const allowedTypes = ['video/mp4', 'video/mov', 'video/avi', 'video/mkv', 'video/webm']
-    
-    if (!allowedTypes.includes(file.type)) {
-      return { valid: false, error: 'Please upload a valid video file (MP4, MOV, AVI, MKV, WebM)' }
-    }
-    
-    if (file.size > maxSize) {
-      return { valid: false, error: 'File size must be less than 500MB' }
-    }
-    
-    return { valid: true }
-  }
+  const { isLoading: isLoadingProjects } = useProjectSync(user?.id, projects, setProjects)
+  const { feedback, recordDecision } = useSuggestionFeedback(user?.id)
+  const plan = usePlan(user?.id)
+  const { bindings: shortcutBindings, updateBindings: updateShortcutBindings } = useShortcutBindings(user?.id)
 
-  const handleFileUpload = async (file: File) => {
+  const handleFileUpload = async (
+    file: File,
+    { sidecar, select = true, media }: { sidecar?: File, select?: boolean, media?: MediaMetadata } = {}
+  ) => {
     if (!user) return
     
-    const validation = validateVideoFile(file)
-    if (!validation.valid) {
-      toast({
-        title: "Upload Error",
-        description: validation.error,
-        variant: "destructive"
-      })
-      return
-    }
-    
     setSelectedFile(file)
     const newProject: VideoProject = {
-      id: Date.now().toString(),
+      // Several files can start in the same millisecond
+      id: createId('project'),
       name: file.name,
       status: 'uploading',
       progress: 0,
-      size: `${(file.size / (1024 * 1024)).toFixed(1)} MB`
+      createdAt: new Date().toISOString(),
+      size: `${(file.size / (1024 * 1024)).toFixed(1)} MB`,
+      // Carry the current settings over, but nothing that belongs to another project's edit
+      history: createProjectHistory({
+        ...DEFAULT_PROJECT_DOCUMENT,
+        aiSettings: projectDocument.aiSettings,
+        exportPreset: projectDocument.exportPreset,
+        exportSettings: projectDocument.exportSettings
+      })
     }
     setProjects(prev => [newProject, ...prev])
+    const localUrl = URL.createObjectURL(file)
+    setLocalMediaUrls(prev => ({ ...prev, [newProject.id]: localUrl }))
+    if (select) selectProject(newProject.id)
+
+    // Validation has usually read the metadata already
+    if (media) {
+      applyProbedMedia(newProject.id, newProject.name, media)
+    } else {
+      probeMedia(file)
+        .then(probed => applyProbedMedia(newProject.id, newProject.name, probed))
+        .catch(error => console.error('Failed to read media metadata:', error))
+    }
     
-    try {
-      // Upload to Blink storage
-      const { publicUrl } = await blink.storage.upload(
-        file,
-        `videos/${user.id}/${newProject.id}/${file.name}`,
-        { 
-          upsert: true,
-          onProgress: (percent) => {
-            setProjects(prev => prev.map(p => 
-              p.id === newProject.id 
-                ? { ...p, progress: Math.min(percent, 15) } // Upload is first 15% of progress
-                : p
-            ))
-          }
-        }
-      )
-      
-      // Update project with file URL and start processing
-      setProjects(prev => prev.map(p => 
-        p.id === newProject.id 
-          ? { ...p, status: 'processing' as const, progress: 15 }
-          : p
-      ))
-      
-      // Simulate AI processing
-      simulateProcessing(newProject.id)
-      
-      toast({
-        title: "Upload Started",
-        description: `Processing ${file.name} with AI...`
-      })
-    } catch (error) {
-      console.error('Upload failed:', error)
-      setProjects(prev => prev.map(p => 
-        p.id === newProject.id 
-          ? { ...p, status: 'error' as const }
-          : p
-      ))
-      
+    // The transcribe stage reads a transcript uploaded alongside instead of calling the speech service
+    if (sidecar) {
+      try {
+        const { publicUrl } = await blink.storage.upload(sidecar, `videos/${user.id}/${newProject.id}/${sidecar.name}`, { upsert: true })
+        setProjects(prev => prev.map(p =>
+          p.id === newProject.id ? { ...p, transcriptSidecar: { name: sidecar.name, url: publicUrl } } : p
+        ))
+      } catch (error) {
+        console.error('Transcript file upload failed:', error)
+        toast({
+          title: "Transcript Not Uploaded",
+          description: `${sidecar.name} could not be uploaded, so the speech will be transcribed instead.`,
+          variant: "destructive"
+        })
+      }
+    }
+
+    // Sent in parts; progress, failures and completion come back through handleUploadChange
+    const session = startUpload(newProject.id, file, `videos/${user.id}/${newProject.id}`)
+    setBatchUploadIds(prev => [...prev, session.id])
+  }
+
+  // The file joins the end of a project's edit instead of becoming a project of its own
+  const handleAddClip = async (file: File, projectId: string, probed?: MediaMetadata) => {
+    if (!user) return
+
+    const media = probed ?? await probeMedia(file)
+    const source = {
+      id: createId('source'),
+      name: file.name,
+      duration: media.duration,
+      frameRate: media.frameRate,
+      width: media.width,
+      height: media.height
+    }
+    setLocalMediaUrls(prev => ({ ...prev, [source.id]: URL.createObjectURL(file) }))
+    setProjects(prev => prev.map(p =>
+      p.id === projectId ? { ...p, clipMedia: { ...p.clipMedia, [source.id]: { name: file.name, media } } } : p
+    ))
+    updateDocument(
+      `Add ${file.name}`,
+      document => document.edl ? { ...document, edl: appendSource(document.edl, source) } : document,
+      { projectId }
+    )
+
+    const session = startUpload(projectId, file, `videos/${user.id}/${projectId}/clips/${source.id}`, { sourceId: source.id })
+    setBatchUploadIds(prev => [...prev, session.id])
+  }
+
+  // Every video in a pick or drop is uploaded; anything that can't be used is listed with the reason
+  const handleFiles = async (files: File[]) => {
+    if (!user || files.length === 0) return
+
+    const rejections: UploadRejection[] = []
+    const candidates = files.filter(file => {
+      if (!isSidecarFile(file.name)) return true
+
+      // Transcripts ride along with the video of the same name
+      if (!files.some(other => other !== file && !isSidecarFile(other.name) && findSidecar(other.name, [file]))) {
+        rejections.push({ name: file.name, reason: 'No video with the same name was added with it' })
+      }
+      return false
+    })
+    const validations = await Promise.all(candidates.map(file => validateVideoFile(file, plan)))
+    const videos = candidates.flatMap((file, index) => {
+      const { valid, error, media } = validations[index]
+      if (!valid) rejections.push({ name: file.name, reason: error ?? 'Not a supported video' })
+      return valid ? [{ file, media }] : []
+    })
+
+    // A new batch starts the combined progress over once the last one has finished
+    if (!uploads.some(upload => batchUploadIds.includes(upload.id) && isUploadActive(upload))) setBatchUploadIds([])
+    setUploadRejections(rejections)
+    if (rejections.length > 0) {
       toast({
-        title: "Upload Failed",
-        description: "Failed to upload video. Please try again.",
+        title: rejections.length === 1 ? "Upload Error" : `${rejections.length} Files Skipped`,
+        description: rejections.length === 1
+          ? `${rejections[0].name}: ${rejections[0].reason}`
+          : "See the upload panel for why each one couldn't be used.",
         variant: "destructive"
       })
     }
+
+    const clipProjectId = addUploadsAsClips && activeProject?.media ? activeProject.id : null
+    for (const [index, { file, media }] of videos.entries()) {
+      if (!clipProjectId) {
+        handleFileUpload(file, { sidecar: findSidecar(file.name, files), select: index === 0, media })
+        continue
+      }
+
+      // One at a time, so the clips land on the timeline in the order they were picked
+      try {
+        await handleAddClip(file, clipProjectId, media)
+      } catch (error) {
+        console.error('Failed to add clip:', error)
+        setUploadRejections(prev => [...prev, { name: file.name, reason: 'The video could not be read' }])
+      }
+    }
   }
 
   const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (file) {
-      handleFileUpload(file)
-    }
+    handleFiles(Array.from(event.target.files ?? []))
+    event.target.value = ''
   }
 
   const handleDragOver = (event: React.DragEvent) => {
@@ -206,128 +336,407 @@ function App() {
     event.preventDefault()
     setIsDragOver(false)
     
-    const files = Array.from(event.dataTransfer.files)
-    const videoFile = files.find(file => file.type.startsWith('video/'))
-    
-    if (videoFile) {
-      handleFileUpload(videoFile)
-    } else {
+    getDroppedFiles(event.dataTransfer)
+      .then(handleFiles)
+      .catch(error => {
+        console.error('Failed to read dropped files:', error)
+        toast({
+          title: "Invalid File",
+          description: "Could not read the dropped files",
+          variant: "destructive"
+        })
+      })
+  }
+
+  const applyProbedMedia = (projectId: string, name: string, media: MediaMetadata) => {
+    probedMedia.current[projectId] = media
+    const edl = createEdl({
+      id: projectId,
+      name,
+      duration: media.duration,
+      frameRate: media.frameRate,
+      width: media.width,
+      height: media.height
+    })
+    // The source edit isn't an undoable step, so every entry recorded so far gets it too
+    setProjects(prev => prev.map(p =>
+      p.id === projectId
+        ? {
+            ...p,
+            media,
+            duration: formatTime(media.duration),
+            history: mapHistoryStates(p.history ?? createProjectHistory(), state => state.edl ? state : { ...state, edl })
+          }
+        : p
+    ))
+  }
+
+  // Resolves to whether scenes were found; failures are reported here
+  const runSceneDetection = async (
+    projectId: string,
+    mediaUrl: string,
+    mediaDuration: number,
+    { quality, provider }: AISettings,
+    { signal, onProgress }: { signal?: AbortSignal, onProgress?: (progress: number) => void } = {}
+  ) => {
+    sceneDetectionAborts.current[projectId]?.abort()
+    const controller = new AbortController()
+    sceneDetectionAborts.current[projectId] = controller
+    signal?.addEventListener('abort', () => controller.abort())
+    setSceneDetectionProgress(prev => ({ ...prev, [projectId]: 0 }))
+
+    try {
+      const scenes = await getAnalysisProvider(provider).detectScenes({
+        projectId,
+        mediaUrl,
+        duration: mediaDuration,
+        quality,
+        signal: controller.signal,
+        onProgress: (progress) => {
+          setSceneDetectionProgress(prev => ({ ...prev, [projectId]: progress }))
+          onProgress?.(progress)
+        }
+      })
+      setProjects(prev => prev.map(p => p.id === projectId ? { ...p, scenes } : p))
+      return true
+    } catch (error) {
+      if (controller.signal.aborted) return false
+      console.error('Scene detection failed:', error)
       toast({
-        title: "Invalid File",
-        description: "Please drop a valid video file",
+        title: "Scene Detection Failed",
+        description: "Could not analyze the video frames.",
         variant: "destructive"
       })
+      return false
+    } finally {
+      if (sceneDetectionAborts.current[projectId] === controller) {
+        delete sceneDetectionAborts.current[projectId]
+        setSceneDetectionProgress(prev => {
+          const { [projectId]: _, ...rest } = prev
+          return rest
+        })
+      }
     }
   }
 
-  const simulateProcessing = async (projectId: string) => {
-    let progress = 0
-    const processingSteps = [
-      { step: 'Uploading video...', progress: 15 },
-      { step: 'Analyzing video content...', progress: 30 },
-      { step: 'Detecting scenes and cuts...', progress: 45 },
-      { step: 'Processing audio tracks...', progress: 60 },
-      { step: 'Applying AI enhancements...', progress: 75 },
-      { step: 'Generating transitions...', progress: 90 },
-      { step: 'Finalizing output...', progress: 100 }
-    ]
-    
-    let currentStepIndex = 0
-    
-    const interval = setInterval(async () => {
-      const currentStep = processingSteps[currentStepIndex]
-      const targetProgress = currentStep.progress
-      
-      if (progress < targetProgress) {
-        progress += Math.random() * 8 + 2 // More consistent progress
-        progress = Math.min(progress, targetProgress)
-      } else {
-        currentStepIndex++
-      }
-      
-      if (progress >= 100 || currentStepIndex >= processingSteps.length) {
-        progress = 100
-        setProjects(prev => prev.map(p => 
-          p.id === projectId 
-            ? { ...p, status: 'completed', progress: 100, duration: '1:45' }
-            : p
-        ))
-        
-        // Generate AI suggestions when processing is complete
-        await generateAISuggestions(projectId)
-        
-        const project = projects.find(p => p.id === projectId)
-        toast({
-          title: "Processing Complete!",
-          description: `${project?.name || 'Video'} has been processed successfully with AI enhancements.`
+  // Gives every cut without a transition one chosen from the shots either side of it; resolves to how many were added
+  const runSmartTransitions = async (
+    projectId: string,
+    { signal, onProgress }: { signal?: AbortSignal, onProgress?: (progress: number) => void } = {}
+  ) => {
+    const edl = getProjectDocument(projectId).edl
+    if (!edl) return 0
+
+    const { project, mediaUrl } = await getProcessingSource(projectId)
+    const clipUrls = await Promise.all(Object.entries(project.clipMedia ?? {})
+      .filter(([id]) => edl.clips.some(clip => clip.sourceId === id))
+      .map(async ([id, clip]) => [id, await resolveMediaUrl(id, clip)] as const))
+    const choices = await chooseSmartTransitions(edl, { ...Object.fromEntries(clipUrls), [projectId]: mediaUrl }, { signal, onProgress })
+    if (choices.length === 0) return 0
+
+    updateDocument(
+      choices.length === 1 ? 'Add a smart transition' : `Add ${choices.length} smart transitions`,
+      document => document.edl ? { ...document, edl: applyTransitionChoices(document.edl, choices) } : document,
+      { projectId }
+    )
+    return choices.length
+  }
+
+  const handleApplyAISettings = () => {
+    if (!activeProject?.media || !previewUrl) return
+
+    if (aiSettings.sceneDetection) {
+      runSceneDetection(activeProject.id, previewUrl, activeProject.media.duration, aiSettings)
+    } else {
+      sceneDetectionAborts.current[activeProject.id]?.abort()
+    }
+
+    if (aiSettings.smartTransitions) {
+      runSmartTransitions(activeProject.id)
+        .then(added => toast(added > 0
+          ? {
+              title: "Smart Transitions Added",
+              description: `Chose ${added} ${added === 1 ? 'transition' : 'transitions'} from the shots either side of each cut.`
+            }
+          : {
+              title: "No Cuts to Fill",
+              description: "Every cut on the video track already has a transition."
+            }))
+        .catch(error => {
+          console.error('Smart transitions failed:', error)
+          toast({
+            title: "Smart Transitions Failed",
+            description: "Could not read the frames around the cuts.",
+            variant: "destructive"
+          })
         })
-        
-        clearInterval(interval)
-      } else {
-        const status = progress < 20 ? 'uploading' : 'processing'
-        setProjects(prev => prev.map(p => 
-          p.id === projectId ? { ...p, status, progress } : p
-        ))
-      }
-    }, 800)
+    }
   }
 
-  const generateAISuggestions = async (projectId: string) => {
-    try {
-      const project = projects.find(p => p.id === projectId)
-      if (!project) return
-
-      // Simulate realistic AI analysis based on filename and common video patterns
-      const suggestions = []
-      
-      // Scene detection suggestion
-      const sceneCount = Math.floor(Math.random() * 12) + 3
-      suggestions.push({
-        type: 'scene_detection',
-        title: 'Scene Detection',
-        description: `Found ${sceneCount} distinct scenes. Auto-cut recommended.`,
-        confidence: 0.85 + Math.random() * 0.1,
-        action: 'auto_cut'
-      })
+  // Videos too large to store whole are read from the copy joined in the browser
+  const resolveMediaUrl = (id: string, { mediaUrl, mediaParts }: { mediaUrl?: string, mediaParts?: string[] }) => {
+    const url = localMediaUrls[id] ?? mediaUrl
+    if (url) return Promise.resolve(url)
+    if (!mediaParts) return Promise.reject(new Error('The video has not finished uploading'))
 
-      // Audio analysis
-      if (Math.random() > 0.3) {
-        const audioIssues = ['Audio delay detected', 'Background noise found', 'Volume inconsistency detected']
-        const issue = audioIssues[Math.floor(Math.random() * audioIssues.length)]
-        const timestamp = `${Math.floor(Math.random() * 3)}:${Math.floor(Math.random() * 60).toString().padStart(2, '0')}`
-        
-        suggestions.push({
-          type: 'audio_sync',
-          title: 'Audio Enhancement',
-          description: `${issue} at ${timestamp}. Auto-fix available.`,
-          confidence: 0.75 + Math.random() * 0.15,
-          action: 'fix_audio'
+    if (!assembledMedia.current[id]) {
+      assembledMedia.current[id] = fetchUploadedMedia(mediaParts, {
+        onKeepFailed: () => toast({
+          title: "Joined Copy Not Kept",
+          description: "This browser couldn't keep the joined video, so it will be downloaded and joined again next time it is opened.",
+          variant: "destructive"
+        })
+      })
+        .then(blob => {
+          const localUrl = URL.createObjectURL(blob)
+          setLocalMediaUrls(prev => ({ ...prev, [id]: localUrl }))
+          return localUrl
         })
+        .catch(error => {
+          delete assembledMedia.current[id]
+          throw error
+        })
+    }
+    return assembledMedia.current[id]
+  }
+
+  const getProcessingSource = async (projectId: string) => {
+    const project = projectsRef.current.find(p => p.id === projectId)
+    if (!project) throw new Error('The project no longer exists')
+
+    const mediaUrl = await resolveMediaUrl(project.id, project)
+    return { project, mediaUrl, media: project.media ?? probedMedia.current[projectId] }
+  }
+
+  const stageHandlers: Record<JobStageType, StageHandler> = {
+    analyze: async ({ projectId, onProgress }) => {
+      const { project, mediaUrl, media } = await getProcessingSource(projectId)
+      if (media) return
+
+      // After a reload only the uploaded copy is left to read from
+      const response = await fetch(mediaUrl)
+      if (!response.ok) throw new Error(`Could not download the video (${response.status})`)
+      onProgress(0.5)
+      const blob = await response.blob()
+      applyProbedMedia(projectId, project.name, await probeMedia(new File([blob], project.name, { type: blob.type })))
+    },
+    scene_detect: async ({ projectId, signal, onProgress }) => {
+      const { aiSettings } = getProjectDocument(projectId)
+      if (!aiSettings.sceneDetection) return 'skipped'
+
+      const { mediaUrl, media } = await getProcessingSource(projectId)
+      if (!media) throw new Error('The video metadata is unavailable')
+
+      const found = await runSceneDetection(projectId, mediaUrl, media.duration, aiSettings, { signal, onProgress })
+      if (!found && !signal.aborted) throw new Error('Scene detection failed')
+    },
+    audio: async ({ projectId }) => {
+      const { mediaUrl } = await getProcessingSource(projectId)
+      try {
+        // Fills the waveform cache the timeline and silence detection read from
+        await loadWaveform(projectId, mediaUrl)
+      } catch (error) {
+        console.error('No decodable audio track:', error)
+        return 'skipped'
       }
+    },
+    transcribe: async ({ projectId, signal, onProgress }) => {
+      const { project, mediaUrl, media } = await getProcessingSource(projectId)
+      if (!media) throw new Error('The video metadata is unavailable')
 
-      // Quality enhancement
-      const qualityImprovement = Math.floor(Math.random() * 25) + 10
-      suggestions.push({
-        type: 'quality_enhancement',
-        title: 'Quality Enhancement',
-        description: `Video quality can be improved by ${qualityImprovement}%.`,
-        confidence: 0.70 + Math.random() * 0.2,
-        action: 'enhance_quality'
+      // Offline processing has no speech model; only an uploaded transcript file can be used
+      const { aiSettings } = getProjectDocument(projectId)
+      if (!project.transcriptSidecar && aiSettings.provider === 'offline') return 'skipped'
+
+      const transcript = await getAnalysisProvider(aiSettings.provider).transcribe({
+        projectId,
+        mediaUrl,
+        duration: media.duration,
+        quality: aiSettings.quality,
+        sidecar: project.transcriptSidecar,
+        signal,
+        onProgress
       })
+      setProjects(prev => prev.map(p => p.id === projectId ? { ...p, transcript } : p))
+    },
+    enhance: async ({ projectId, signal, onProgress }) => {
+      await runAnalysis(projectId, { signal, onProgress })
+    },
+    transitions: async ({ projectId, signal, onProgress }) => {
+      if (!getProjectDocument(projectId).aiSettings.smartTransitions) return 'skipped'
+
+      const added = await runSmartTransitions(projectId, { signal, onProgress })
+      if (added === 0) return 'skipped'
+    },
+    finalize: async ({ projectId }) => {
+      const project = projectsRef.current.find(p => p.id === projectId)
+      toast({
+        title: "Processing Complete!",
+        description: `${project?.name || 'Video'} has been processed successfully with AI enhancements.`
+      })
+    }
+  }
+
+  const handleJobChange = (job: ProcessingJob) => {
+    const status: VideoProject['status'] = job.status === 'completed'
+      ? 'completed'
+      : job.status === 'failed' || job.status === 'cancelled' ? 'error' : 'processing'
+    // Uploading covers the first 15%
+    const progress = Math.round(15 + 85 * getJobProgress(job))
+
+    setProjects(prev => prev.map(p =>
+      p.id === job.projectId && (p.status !== status || p.progress !== progress)
+        ? { ...p, status, progress }
+        : p
+    ))
+  }
+
+  const { jobs, enqueue: enqueueJob, cancel: cancelJob, retry: retryJob } = useJobQueue(user?.id, stageHandlers, {
+    paused: isLoadingProjects,
+    onJobChange: handleJobChange
+  })
+
+  const handleUploadChange = (session: UploadSession) => {
+    const { sourceId } = session
+    if (sourceId) {
+      handleClipUploadChange(session, sourceId)
+      return
+    }
 
-      // Update projects with AI suggestions
-      setProjects(prev => prev.map(p => 
-        p.id === projectId 
-          ? { ...p, aiSuggestions: suggestions }
-          : p
+    if (session.status === 'completed') {
+      const project = projectsRef.current.find(p => p.id === session.projectId)
+      if (!project || project.mediaUrl || project.mediaParts) return
+
+      // Anything storage can hold whole is one part that plays straight from it
+      const urls = session.parts.flatMap(part => part ? [part.url] : [])
+      const media = urls.length === 1 ? { mediaUrl: urls[0] } : { mediaParts: urls }
+      setProjects(prev => prev.map(p =>
+        p.id === session.projectId ? { ...p, ...media, status: 'processing' as const, progress: 15 } : p
       ))
+      enqueueJob(session.projectId)
 
-      console.log('AI Suggestions generated:', suggestions)
+      toast({
+        title: "Upload Complete",
+        description: `Processing ${session.fileName} with AI...`
+      })
+      return
+    }
+
+    const status: VideoProject['status'] = session.status === 'failed' || session.status === 'cancelled' ? 'error' : 'uploading'
+    // Upload is the first 15% of progress
+    const progress = Math.round(15 * getUploadProgress(session))
+    setProjects(prev => prev.map(p =>
+      p.id === session.projectId && (p.status !== status || p.progress !== progress)
+        ? { ...p, status, progress }
+        : p
+    ))
+
+    if (session.status === 'failed') {
+      toast({
+        title: "Upload Failed",
+        description: `${session.fileName} stopped uploading after ${session.attempts} attempts. Retry it from the Processing Queue to carry on where it left off.`,
+        variant: "destructive"
+      })
+    }
+  }
+
+  // Clips keep their project's status; only where the clip's media lives changes
+  const handleClipUploadChange = (session: UploadSession, sourceId: string) => {
+    if (session.status === 'completed') {
+      const urls = session.parts.flatMap(part => part ? [part.url] : [])
+      const media = urls.length === 1 ? { mediaUrl: urls[0] } : { mediaParts: urls }
+      setProjects(prev => prev.map(p => {
+        const clip = p.id === session.projectId ? p.clipMedia?.[sourceId] : undefined
+        return clip ? { ...p, clipMedia: { ...p.clipMedia, [sourceId]: { ...clip, ...media } } } : p
+      }))
+    } else if (session.status === 'failed') {
+      toast({
+        title: "Clip Upload Failed",
+        description: `${session.fileName} stopped uploading after ${session.attempts} attempts. Retry it from the Processing Queue to carry on where it left off.`,
+        variant: "destructive"
+      })
+    }
+  }
+
+  const {
+    uploads,
+    start: startUpload,
+    pause: pauseUpload,
+    resume: resumeUpload,
+    cancel: cancelUpload,
+    hasFile: hasUploadFile
+  } = useChunkedUploads(user?.id, { concurrency: uploadConcurrency, onUploadChange: handleUploadChange })
+  const batchUploads = uploads.filter(upload => batchUploadIds.includes(upload.id))
+  const isBatchUploading = batchUploads.some(isUploadActive)
+
+  const handleResumeUpload = (uploadId: string, file?: File) => {
+    try {
+      resumeUpload(uploadId, file)
     } catch (error) {
-      console.error('Failed to generate AI suggestions:', error)
+      toast({
+        title: "Cannot Resume Upload",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      })
     }
   }
 
+  // Audio, color and motion run one after another through the provider chosen in the AI settings
+  const runAnalysis = async (
+    projectId: string,
+    { signal, onProgress }: { signal: AbortSignal, onProgress: (progress: number) => void }
+  ) => {
+    const { mediaUrl, media } = await getProcessingSource(projectId)
+    if (!media) throw new Error('The video metadata is unavailable')
+
+    const { aiSettings } = getProjectDocument(projectId)
+    const provider = getAnalysisProvider(aiSettings.provider)
+    const kinds: AnalysisKind[] = ['audio', 'color', 'motion']
+    const analysis: ProjectAnalysis = { providerId: provider.id, analyzedAt: new Date().toISOString() }
+
+    const reportProgress = (kind: AnalysisKind, progress: number) => {
+      setAnalysisProgress(prev => ({ ...prev, [projectId]: { ...prev[projectId], [kind]: progress } }))
+      onProgress((kinds.indexOf(kind) + progress) / kinds.length)
+    }
+
+    const requestFor = (kind: AnalysisKind) => {
+      reportProgress(kind, 0)
+      return {
+        projectId,
+        mediaUrl,
+        duration: media.duration,
+        quality: aiSettings.quality,
+        signal,
+        onProgress: (progress: number) => reportProgress(kind, progress)
+      }
+    }
+
+    try {
+      analysis.audio = await provider.analyzeAudio(requestFor('audio'))
+      analysis.color = await provider.analyzeColor(requestFor('color'))
+      analysis.motion = await provider.analyzeMotion(requestFor('motion'))
+    } finally {
+      setAnalysisProgress(prev => {
+        const { [projectId]: _, ...rest } = prev
+        return rest
+      })
+    }
+
+    // Scenes were stored by the previous stage
+    const scenes = projectsRef.current.find(p => p.id === projectId)?.scenes
+    setProjects(prev => prev.map(p =>
+      p.id === projectId
+        ? { ...p, analysis, aiSuggestions: buildSuggestions(scenes, analysis, aiSettings) }
+        : p
+    ))
+  }
+
+  const getSuggestionContext = (project: VideoProject): SuggestionContext => ({
+    sourceId: project.id,
+    scenes: project.scenes,
+    analysis: project.analysis
+  })
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
     const secs = Math.floor(seconds % 60)
@@ -360,50 +769,581 @@ function App() {
     }
   }
 
-  const handleExport = async (exportSettings: any) => {
+  const handleExport = async (exportSettings: ExportSettings) => {
+    if (!activeProject || !edl || !previewUrl) {
+      toast({
+        title: "Nothing to Export",
+        description: "Open a project with a loaded video first.",
+        variant: "destructive"
+      })
+      return
+    }
+
+    const controller = new AbortController()
+    exportAbort.current = controller
     setIsExporting(true)
     setExportProgress(0)
-    
+    setExportStatus('Loading encoder...')
+    setExportResult(prev => {
+      if (prev) URL.revokeObjectURL(prev.url)
+      if (prev?.subtitles) URL.revokeObjectURL(prev.subtitles.url)
+      if (prev?.chapters) URL.revokeObjectURL(prev.chapters.url)
+      return null
+    })
+
+    const captionsOn = isSubtitleTrackActive(edl)
+    const cues = exportSettings.includeSubtitles && captionsOn ? projectDocument.subtitles : []
+    const { subtitleMode, subtitleFormat } = exportSettings
+    if (exportSettings.includeSubtitles && !captionsOn) {
+      toast({
+        title: "Subtitles Muted",
+        description: "The subtitle track is muted, so the video is exported without captions."
+      })
+    } else if (exportSettings.includeSubtitles && cues.length === 0) {
+      toast({
+        title: "No Subtitles",
+        description: "The subtitle track is empty, so the video is exported without captions."
+      })
+    }
+
+    const chapters = exportSettings.includeChapters ? getChapters(projectDocument.markers, getEdlDuration(edl)) : []
+
     try {
-      // Simulate export process
-      const exportSteps = [
-        'Preparing export...',
-        'Applying AI enhancements...',
-        'Rendering video...',
-        'Optimizing quality...',
-        'Finalizing export...'
-      ]
-      
-      for (let i = 0; i < exportSteps.length; i++) {
-        await new Promise(resolve => setTimeout(resolve, 2000))
-        setExportProgress((i + 1) * 20)
-      }
-      
+      const media = activeProject.media
+      // Clips added from other files render from the same copies the preview plays
+      const clipSources = Object.entries(activeProject.clipMedia ?? {})
+        .filter(([id]) => edl.clips.some(clip => clip.sourceId === id))
+        .map(([id, clip]) => {
+          const url = sourceUrls[id]
+          if (!url) throw new Error(`${clip.name} has not finished uploading`)
+          return { id, url, hasAudio: Boolean(clip.media?.audioCodec || clip.media?.audioChannels) }
+        })
+      const { blob, fileName } = await renderExport(
+        edl,
+        exportSettings,
+        [{
+          id: activeProject.id,
+          url: previewUrl,
+          hasAudio: Boolean(media?.audioCodec || media?.audioChannels || waveform)
+        }, ...clipSources],
+        {
+          signal: controller.signal,
+          subtitles: subtitleMode === 'burn_in' ? cues : undefined,
+          chapters,
+          onProgress: (progress) => {
+            setExportStatus('Rendering your edit...')
+            setExportProgress(progress * 100)
+          }
+        }
+      )
+
+      const extension = fileName.split('.').pop()
+      const baseName = `${activeProject.name.replace(/\.[^.]+$/, '')}-edit`
+      const sidecar = subtitleMode === 'sidecar' && cues.length > 0
+        ? new Blob([formatSubtitles(cues, subtitleFormat)], { type: subtitleFormat === 'vtt' ? 'text/vtt' : 'application/x-subrip' })
+        : null
+      setExportResult({
+        url: URL.createObjectURL(blob),
+        fileName: `${baseName}.${extension}`,
+        size: blob.size,
+        subtitles: sidecar ? { url: URL.createObjectURL(sidecar), fileName: `${baseName}.${subtitleFormat}` } : undefined,
+        chapters: chapters.length > 0
+          ? { url: URL.createObjectURL(new Blob([formatChapterVtt(chapters)], { type: 'text/vtt' })), fileName: `${baseName}-chapters.vtt` }
+          : undefined
+      })
       toast({
         title: "Export Complete!",
-        description: "Your video has been exported successfully."
+        description: "Your video is ready to download."
       })
-      
     } catch (error) {
+      if (controller.signal.aborted) {
+        toast({ title: "Export Cancelled", description: "The render was stopped." })
+        return
+      }
+      console.error('Export failed:', error)
       toast({
         title: "Export Failed",
-        description: "Failed to export video. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to export video. Please try again.",
         variant: "destructive"
       })
     } finally {
+      exportAbort.current = null
       setIsExporting(false)
       setExportProgress(0)
+      setExportStatus(undefined)
     }
   }
 
+  const selectProject = (projectId: string) => {
+    setActiveProjectId(projectId)
+    setIsPlaying(false)
+    setCurrentTime(0)
+    setTranscriptSelection(null)
+    setMarkIn(null)
+    setMarkOut(null)
+    // A review or preview is of the project it was opened on
+    setReviewIndex(null)
+    setSuggestionPreview(null)
+  }
+
+  const activeProject = projects.find(p => p.id === activeProjectId)
+  const previewUrl = activeProject
+    ? localMediaUrls[activeProject.id] ?? activeProject.mediaUrl
+    : undefined
+  // Nothing can be previewed from a multi-part upload until its parts have been joined
+  const unassembledIds = activeProject
+    ? [
+        ...(activeProject.mediaParts && !previewUrl ? [activeProject.id] : []),
+        ...Object.entries(activeProject.clipMedia ?? {}).flatMap(([id, clip]) => clip.mediaParts && !localMediaUrls[id] ? [id] : [])
+      ].join(',')
+    : ''
+  const loadUploadedMedia = (ids: string[]) => {
+    const project = projectsRef.current.find(p => p.id === activeProjectId)
+    if (!project) return
+
+    ids.forEach(id => {
+      const media = id === project.id ? project : project.clipMedia?.[id]
+      if (!media) return
+
+      resolveMediaUrl(id, media).catch(error => {
+        console.error('Failed to download the uploaded video:', error)
+        toast({
+          title: "Video Unavailable",
+          description: `Could not download ${id === project.id ? project.name : project.clipMedia?.[id]?.name} for playback.`,
+          variant: "destructive"
+        })
+      })
+    })
+  }
+  const loadUploadedMediaRef = useRef(loadUploadedMedia)
+  loadUploadedMediaRef.current = loadUploadedMedia
+
+  useEffect(() => {
+    if (unassembledIds) loadUploadedMediaRef.current(unassembledIds.split(','))
+  }, [unassembledIds])
+  const projectDocument = activeProject?.history ? getPresent(activeProject.history) : workspaceDocument
+  const { edl, aiSettings } = projectDocument
+  // The project id doubles as the id of its source media in the EDL; added clips use their own
+  const clipMedia = activeProject?.clipMedia
+  const sourceUrls = useMemo(() => {
+    if (!activeProjectId) return {}
+
+    const clipUrls = Object.entries(clipMedia ?? {}).map(([id, clip]) => [id, localMediaUrls[id] ?? clip.mediaUrl])
+    return { ...Object.fromEntries(clipUrls), [activeProjectId]: previewUrl }
+  }, [activeProjectId, previewUrl, clipMedia, localMediaUrls])
+  const timelineDuration = edl ? getEdlDuration(edl) : activeProject?.media?.duration ?? 0
+  const frameDuration = 1 / (activeProject?.media?.frameRate ?? 30)
+  const { waveform, isLoading: isWaveformLoading, error: waveformError } = useWaveform(activeProject?.id, previewUrl)
+  const activeSceneProgress = activeProject ? sceneDetectionProgress[activeProject.id] : undefined
+  // Insights follow the open project, or whichever one is being processed
+  const insightsProject = activeProject ?? projects.find(p => p.status === 'processing')
+  const insightsJob = jobs
+    .filter(job => job.projectId === insightsProject?.id)
+    .reduce<ProcessingJob | undefined>((latest, job) => !latest || job.createdAt > latest.createdAt ? job : latest, undefined)
+  const insightsAppliedSuggestions = Object.values(insightsProject?.history ? getPresent(insightsProject.history).suggestionStates : {})
+    .filter(status => status === 'applied').length
+
+  // Silence is detected in source time; only stretches still in the edit are worth proposing
+  const silenceProposals = useMemo(() => {
+    if (!waveform || !edl || !activeProjectId) return []
+    return detectSilence(waveform, silenceOptions).filter(range =>
+      mapSourceRange(edl, activeProjectId, range).length > 0
+    )
+  }, [waveform, silenceOptions, edl, activeProjectId])
+  const proposedCuts = useMemo(() => {
+    if (!edl || !activeProjectId) return []
+    return silenceProposals.flatMap(range => mapSourceRange(edl, activeProjectId, range))
+  }, [silenceProposals, edl, activeProjectId])
+
+  const handleApplySilenceCuts = () => {
+    if (!activeProject || !edl || proposedCuts.length === 0) return
+
+    const removed = getRangesDuration(proposedCuts)
+    // Each stretch is its own cut, but they undo together
+    const group = `silence-${Date.now()}`
+    silenceProposals.forEach(range => {
+      updateDocument(
+        `Remove ${silenceProposals.length} silent stretches`,
+        document => document.edl
+          ? { ...document, edl: removeSourceRanges(document.edl, activeProject.id, [range]) }
+          : document,
+        { group }
+      )
+    })
+    toast({
+      title: "Silence Removed",
+      description: `Cut ${silenceProposals.length} silent stretches (${removed.toFixed(1)}s).`
+    })
+  }
+
+  const scenes = activeProject?.scenes
+  const timelineSegments = useMemo(() => {
+    if (!aiSettings.sceneDetection || !scenes) return []
+    if (!edl || !activeProjectId) return scenes
+
+    // Scenes are found in source time, so follow them to wherever they ended up in the edit
+    return scenes.flatMap(scene =>
+      mapSourceRange(edl, activeProjectId, scene).map((range, index) => ({
+        ...scene,
+        id: index === 0 ? scene.id : `${scene.id}-${index}`,
+        start: range.start,
+        end: range.end
+      }))
+    )
+  }, [aiSettings.sceneDetection, scenes, edl, activeProjectId])
+
+  // Suggestions belong to the project being edited
+  const suggestionsProject = activeProject?.aiSuggestions ? activeProject : undefined
+  const suggestionsDocument = suggestionsProject?.history ? getPresent(suggestionsProject.history) : undefined
+  const suggestionStates = suggestionsDocument?.suggestionStates ?? {}
+  const allSuggestions = suggestionsProject?.aiSuggestions ?? []
+  // Only undecided suggestions are held back; decided ones stay listed so they can be reverted or restored
+  const reviewQueue = filterSuggestions(allSuggestions.filter(suggestion => !suggestionStates[suggestion.id]), feedback)
+  const visibleSuggestions = allSuggestions.filter(suggestion =>
+    suggestionStates[suggestion.id] || reviewQueue.includes(suggestion)
+  )
+  const reviewSuggestion = reviewIndex !== null && reviewQueue.length > 0
+    ? reviewQueue[Math.min(reviewIndex, reviewQueue.length - 1)]
+    : undefined
+
+  // The item under review is always previewed; otherwise whatever the panel asked for
+  const previewProjectId = reviewSuggestion ? suggestionsProject?.id : suggestionPreview?.projectId
+  const previewSuggestionId = reviewSuggestion?.id ?? suggestionPreview?.suggestionId
+  // Planned against the current document, so the preview can't go stale while it is open
+  const previewPlan = useMemo(() => {
+    if (!activeProject || previewProjectId !== activeProject.id) return null
+
+    const suggestion = activeProject.aiSuggestions?.find(s => s.id === previewSuggestionId)
+    return suggestion ? planSuggestion(projectDocument, suggestion, getSuggestionContext(activeProject)) : null
+  }, [activeProject, previewProjectId, previewSuggestionId, projectDocument])
+  const displayEdl = previewPlan?.document.edl ?? edl
+  // The preview plays the primary video track, so it follows that track's mute and solo
+  const primaryTrack = displayEdl ? getPrimaryVideoTrack(displayEdl) : undefined
+  const isPrimaryAudible = !displayEdl || !primaryTrack || isTrackActive(displayEdl, primaryTrack.id)
+  const showCaptions = !displayEdl || isSubtitleTrackActive(displayEdl)
+  const reviewHighlight = useMemo(() => {
+    const range = reviewSuggestion?.range
+    if (!range || !displayEdl || !activeProjectId || previewProjectId !== activeProjectId) return []
+    return mapSourceRange(displayEdl, activeProjectId, range)
+  }, [reviewSuggestion?.range, displayEdl, activeProjectId, previewProjectId])
+
+  const transcript = activeProject?.transcript
+  const transcriptWords = useMemo(() => transcript ? getTranscriptWords(transcript) : [], [transcript])
+  // Words are timed in source seconds; these follow them to wherever they play in the edit
+  const wordPlacements = useMemo(() => {
+    if (!displayEdl || !activeProjectId) return transcriptWords.map(word => ({ start: word.start, end: word.end }))
+    return getWordPlacements(displayEdl, activeProjectId, transcriptWords)
+  }, [displayEdl, activeProjectId, transcriptWords])
+  const beats = useMemo(() => waveform ? detectBeats(waveform) : [], [waveform])
+  // Beats are found in the source audio too, and snapping needs them where they play in the edit
+  const beatTimes = useMemo(() => {
+    if (!displayEdl || !activeProjectId) return beats
+    return beats.flatMap(time => mapSourceTime(displayEdl, activeProjectId, time))
+  }, [beats, displayEdl, activeProjectId])
+  const timelineHighlights = useMemo(() => {
+    const placed = transcriptSelection
+      ? getSelectedIndices(transcriptSelection).flatMap(index => wordPlacements[index] ?? [])
+      : []
+    if (placed.length === 0) return reviewHighlight
+
+    const start = Math.min(...placed.map(placement => placement.start))
+    const end = Math.max(...placed.map(placement => placement.end))
+    return [...reviewHighlight, { start, end }]
+  }, [transcriptSelection, wordPlacements, reviewHighlight])
+  const transcribeStage = jobs
+    .find(job => job.projectId === activeProjectId && isJobActive(job))
+    ?.stages.find(stage => stage.type === 'transcribe' && stage.status === 'running')
+
+  // Reads through projectsRef so async callbacks see the latest edit
+  const getProjectDocument = (projectId: string | null) => {
+    const history = projectsRef.current.find(p => p.id === projectId)?.history
+    return history ? getPresent(history) : workspaceDocument
+  }
+
+  // Every user edit goes through here so it lands in the project's undo history
+  const updateDocument = (
+    label: string,
+    update: (document: ProjectDocument) => ProjectDocument,
+    { projectId = activeProjectId, group }: { projectId?: string | null, group?: string } = {}
+  ) => {
+    if (!projectId) {
+      setWorkspaceDocument(update)
+      return
+    }
+
+    setProjects(prev => prev.map(p => {
+      if (p.id !== projectId) return p
+
+      const history = p.history ?? createProjectHistory(workspaceDocument)
+      const next = update(getPresent(history))
+      return next === getPresent(history) ? p : { ...p, history: recordHistory(history, label, next, { group }) }
+    }))
+  }
+
+  const updateAISettings = (changes: Partial<AISettings>, label: string) => {
+    updateDocument(label, document => ({ ...document, aiSettings: { ...document.aiSettings, ...changes } }))
+  }
+
+  // Keep the playhead inside the edit when it gets shorter
+  const clampToEdit = (document: ProjectDocument) => {
+    const nextEdl = document.edl
+    if (nextEdl) setCurrentTime(time => Math.min(time, getEdlDuration(nextEdl)))
+  }
+
+  const handleEdlChange = (next: EditDecisionList, label: string) => {
+    updateDocument(label, document => ({ ...document, edl: next }))
+    clampToEdit({ ...projectDocument, edl: next })
+  }
+
+  const handleSubtitlesChange = (cues: SubtitleCue[], label: string, group?: string) => {
+    updateDocument(label, document => ({ ...document, subtitles: cues }), { group })
+  }
+
+  const handleMarkersChange = (markers: Marker[], label: string, group?: string) => {
+    updateDocument(label, document => ({ ...document, markers }), { group })
+  }
+
+  const handleGenerateSubtitles = () => {
+    const cues = cuesFromTranscript(transcriptWords, wordPlacements)
+    if (cues.length === 0) {
+      toast({
+        title: "Nothing to Caption",
+        description: "None of the transcribed words are left in the edit."
+      })
+      return
+    }
+
+    handleSubtitlesChange(cues, 'Generate subtitles from transcript')
+    toast({
+      title: "Subtitles Generated",
+      description: `Created ${cues.length} cues from the transcript.`
+    })
+  }
+
+  const handleRemoveWords = (indices: number[], label: string) => {
+    if (!activeProject || !edl) return
+    handleEdlChange(removeWords(edl, activeProject.id, transcriptWords, indices), label)
+  }
+
+  const handleTimelineSelection = (range: TimeRange | null) => {
+    setTranscriptSelection(range ? selectWordsInRange(wordPlacements, range) : null)
+  }
+
+  const handlePreviewSuggestion = (suggestion: AISuggestion) => {
+    if (!suggestionsProject) return
+
+    setReviewIndex(null)
+    const plan = planSuggestion(getProjectDocument(suggestionsProject.id), suggestion, getSuggestionContext(suggestionsProject))
+    if (!plan) {
+      toast({
+        title: "Nothing to Change",
+        description: "The edit already covers this suggestion."
+      })
+      return
+    }
+    setSuggestionPreview({ projectId: suggestionsProject.id, suggestionId: suggestion.id })
+  }
+
+  const handleApplySuggestion = (suggestion: AISuggestion) => {
+    if (!suggestionsProject) return
+
+    const context = getSuggestionContext(suggestionsProject)
+    updateDocument(
+      `Apply suggestion: ${suggestion.title}`,
+      document => applySuggestion(document, suggestion, context),
+      { projectId: suggestionsProject.id }
+    )
+    recordDecision(suggestion.type, true)
+    setSuggestionPreview(null)
+  }
+
+  const handleDismissSuggestion = (suggestion: AISuggestion) => {
+    updateSuggestionDocument(
+      suggestion,
+      `Dismiss suggestion: ${suggestion.title}`,
+      document => dismissSuggestion(document, suggestion.id)
+    )
+    recordDecision(suggestion.type, false)
+  }
+
+  // Moves the review to an item and brings the playhead to the part it is about
+  const showReviewItem = (index: number, queue: AISuggestion[]) => {
+    if (!suggestionsProject) return
+
+    if (queue.length === 0) {
+      setReviewIndex(null)
+      toast({
+        title: "Review Complete",
+        description: "Every suggestion has been accepted or rejected."
+      })
+      return
+    }
+
+    const next = Math.max(0, Math.min(index, queue.length - 1))
+    setSuggestionPreview(null)
+    setReviewIndex(next)
+    setIsPlaying(false)
+
+    const range = queue[next].range
+    const reviewEdl = getProjectDocument(suggestionsProject.id).edl
+    const start = range && reviewEdl ? mapSourceRange(reviewEdl, suggestionsProject.id, range)[0]?.start : undefined
+    setCurrentTime(start ?? 0)
+  }
+
+  const decideReviewItem = (accepted: boolean) => {
+    if (!reviewSuggestion || reviewIndex === null) return
+
+    if (accepted) {
+      handleApplySuggestion(reviewSuggestion)
+    } else {
+      handleDismissSuggestion(reviewSuggestion)
+    }
+    // The decided item drops out of the queue, so the same index now holds the next one
+    const remaining = reviewQueue.filter(suggestion => suggestion.id !== reviewSuggestion.id)
+    showReviewItem(Math.min(reviewIndex, remaining.length - 1), remaining)
+  }
+
+  const updateSuggestionDocument = (
+    suggestion: AISuggestion,
+    label: string,
+    update: (document: ProjectDocument, context: SuggestionContext) => ProjectDocument
+  ) => {
+    if (!suggestionsProject) return
+
+    const context = getSuggestionContext(suggestionsProject)
+    updateDocument(label, document => update(document, context), { projectId: suggestionsProject.id })
+    if (suggestionPreview?.suggestionId === suggestion.id) setSuggestionPreview(null)
+  }
+
+  const moveHistory = (move: (history: ProjectHistory) => ProjectHistory) => {
+    const history = activeProject?.history
+    if (!history) return
+
+    const next = move(history)
+    if (next === history) return
+
+    // A preview was planned against the document being left, so it is closed rather than carried over
+    setSuggestionPreview(null)
+    setReviewIndex(null)
+    setProjects(prev => prev.map(p => p.id === activeProject.id ? { ...p, history: next } : p))
+    clampToEdit(getPresent(next))
+  }
+  const moveHistoryRef = useRef(moveHistory)
+  moveHistoryRef.current = moveHistory
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return
+      if (!(event.ctrlKey || event.metaKey)) return
+
+      const key = event.key.toLowerCase()
+      if (key === 'z') {
+        event.preventDefault()
+        moveHistoryRef.current(event.shiftKey ? redoHistory : undoHistory)
+      } else if (key === 'y') {
+        event.preventDefault()
+        moveHistoryRef.current(redoHistory)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
   const handleTimeChange = (time: number) => {
     setCurrentTime(time)
   }
 
   const handlePlayPause = () => {
+    setShuttleRate(1)
     setIsPlaying(!isPlaying)
   }
 
+  // Stepping stops playback so the frame it lands on stays put
+  const stepTo = (time: number) => {
+    setIsPlaying(false)
+    setShuttleRate(1)
+    setCurrentTime(Math.max(0, Math.min(timelineDuration, time)))
+  }
+
+  // Pressing the same direction again doubles the speed; the other direction starts over at normal speed
+  const handleShuttle = (direction: 1 | -1) => {
+    const speedingUp = isPlaying && Math.sign(shuttleRate) === direction
+    setShuttleRate(speedingUp ? direction * Math.min(MAX_SHUTTLE_RATE, Math.abs(shuttleRate) * 2) : direction)
+    setIsPlaying(true)
+  }
+
+  const handleMark = (edge: 'in' | 'out') => {
+    const start = edge === 'in' ? currentTime : markIn
+    const end = edge === 'out' ? currentTime : markOut
+    // A mark placed past the other one starts a new range
+    const valid = start !== null && end !== null && end > start
+    setMarkIn(edge === 'in' ? currentTime : valid ? markIn : null)
+    setMarkOut(edge === 'out' ? currentTime : valid ? markOut : null)
+    if (valid) handleTimelineSelection({ start, end })
+  }
+
+  const handleClearMarks = () => {
+    setMarkIn(null)
+    setMarkOut(null)
+  }
+
+  const jumpToEdit = (direction: 1 | -1) => {
+    if (!displayEdl) return
+
+    const points = [...getEditPoints(displayEdl), timelineDuration]
+    const epsilon = 0.5 * frameDuration
+    const target = direction > 0
+      ? points.find(point => point > currentTime + epsilon)
+      : [...points].reverse().find(point => point < currentTime - epsilon)
+    if (target !== undefined) stepTo(target)
+  }
+
+  const handleSplitAtPlayhead = () => {
+    if (!edl || previewPlan) return
+
+    const next = splitAtTime(edl, currentTime)
+    if (next !== edl) handleEdlChange(next, 'Split clip')
+  }
+
+  const handleAddMarker = () => {
+    if (!edl || previewPlan) return
+
+    const markers = projectDocument.markers ?? []
+    // A second press on the same frame would only stack an identical marker
+    if (markers.some(marker => Math.abs(marker.time - currentTime) < frameDuration / 2)) return
+    handleMarkersChange([...markers, createMarker(currentTime, `Marker ${markers.length + 1}`)], 'Add marker')
+  }
+
+  const jumpToMarker = (direction: 1 | -1) => {
+    const marker = getAdjacentMarker(projectDocument.markers ?? [], currentTime, direction, frameDuration / 2)
+    if (marker) stepTo(marker.time)
+  }
+
+  useShortcuts(shortcutBindings, {
+    playPause: handlePlayPause,
+    shuttleReverse: () => handleShuttle(-1),
+    shuttleStop: () => {
+      setIsPlaying(false)
+      setShuttleRate(1)
+    },
+    shuttleForward: () => handleShuttle(1),
+    markIn: () => handleMark('in'),
+    markOut: () => handleMark('out'),
+    clearMarks: handleClearMarks,
+    previousFrame: () => stepTo(currentTime - frameDuration),
+    nextFrame: () => stepTo(currentTime + frameDuration),
+    backSecond: () => stepTo(currentTime - 1),
+    forwardSecond: () => stepTo(currentTime + 1),
+    previousEdit: () => jumpToEdit(-1),
+    nextEdit: () => jumpToEdit(1),
+    previousMarker: () => jumpToMarker(-1),
+    nextMarker: () => jumpToMarker(1),
+    split: handleSplitAtPlayhead,
+    addMarker: handleAddMarker
+  }, { enabled: Boolean(activeProject) && !shortcutsOpen })
+
   if (loading) {
     return (
       <div className="min-h-screen bg-[#0F0F23] text-white flex items-center justify-center">
@@ -483,6 +1423,15 @@ function App() {
                 </Button>
               </div>
               
+              <Button
+                variant="outline"
+                size="sm"
+                title="Keyboard shortcuts"
+                onClick={() => setShortcutsOpen(true)}
+              >
+                <Keyboard className="h-4 w-4" />
+              </Button>
+
               <div className="flex items-center space-x-2 text-sm text-white/80">
                 <User className="h-4 w-4" />
                 <span>{user.email}</span>
@@ -550,26 +1499,83 @@ function App() {
                     isDragOver ? 'text-[#6366F1]' : 'text-white/40'
                   }`} />
                   <h3 className="text-lg font-medium mb-2">
-                    {isDragOver ? 'Drop your video here' : 'Drop your video here'}
+                    {isDragOver ? 'Drop your videos here' : 'Drop videos or folders here'}
                   </h3>
                   <p className="text-white/60 mb-4">
                     {isDragOver ? 'Release to upload' : 'or click to browse files'}
                   </p>
                   <Button className="bg-[#6366F1] hover:bg-[#6366F1]/80">
                     <Upload className="h-4 w-4 mr-2" />
-                    Choose File
+                    Choose Files
                   </Button>
                   <p className="text-xs text-white/40 mt-3">
-                    Supports MP4, MOV, AVI, MKV, WebM • Max 500MB
+                    Supports MP4, MOV, AVI, MKV, WebM • Max {formatFileSize(plan.maxUploadSize)} per file on the {plan.name} plan
+                  </p>
+                  <p className="text-xs text-white/40 mt-1">
+                    Add a matching .srt, .vtt or .json transcript to skip speech recognition
                   </p>
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept="video/*"
+                    accept="video/*,.mp4,.mov,.avi,.mkv,.webm,.srt,.vtt,.json"
+                    multiple
                     onChange={handleInputChange}
                     className="hidden"
                   />
                 </div>
+
+                <div className="flex items-center justify-between mt-4">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      checked={addUploadsAsClips && Boolean(activeProject?.media)}
+                      disabled={!activeProject?.media}
+                      onCheckedChange={setAddUploadsAsClips}
+                    />
+                    <label className="text-sm text-white/80">
+                      Add to {activeProject?.media ? activeProject.name : 'the open project'} as clips
+                    </label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <label className="text-sm text-white/60">Uploads at once</label>
+                    <Tabs value={String(uploadConcurrency)} onValueChange={(value) => setUploadConcurrency(Number(value))}>
+                      <TabsList className="h-8">
+                        {[1, 2, 3, 4].map(count => (
+                          <TabsTrigger key={count} value={String(count)} className="px-2.5 text-xs">{count}</TabsTrigger>
+                        ))}
+                      </TabsList>
+                    </Tabs>
+                  </div>
+                </div>
+
+                {isBatchUploading && (
+                  <div className="mt-4 space-y-2">
+                    <div className="flex justify-between text-xs text-white/60">
+                      <span>
+                        Uploaded {batchUploads.filter(upload => upload.status === 'completed').length} of {batchUploads.length} files
+                      </span>
+                      <span>{Math.round(getBatchProgress(batchUploads) * 100)}%</span>
+                    </div>
+                    <Progress value={getBatchProgress(batchUploads) * 100} className="h-2" />
+                  </div>
+                )}
+
+                {uploadRejections.length > 0 && (
+                  <div className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded-lg space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-red-400">
+                        {uploadRejections.length === 1 ? '1 file was skipped' : `${uploadRejections.length} files were skipped`}
+                      </span>
+                      <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => setUploadRejections([])}>
+                        Dismiss
+                      </Button>
+                    </div>
+                    {uploadRejections.map((rejection, index) => (
+                      <p key={`${rejection.name}-${index}`} className="text-xs text-white/70">
+                        <span className="font-medium text-white/90">{rejection.name}</span> — {rejection.reason}
+                      </p>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -594,23 +1600,73 @@ function App() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="aspect-video bg-black/50 rounded-lg mb-6 flex items-center justify-center">
-                  <div className="text-center">
-                    <FileVideo className="h-16 w-16 text-white/20 mx-auto mb-4" />
-                    <p className="text-white/60">Video preview will appear here</p>
-                    <p className="text-xs text-white/40 mt-2">Upload a video to start editing</p>
-                  </div>
-                </div>
+                <VideoPlayer
+                  edl={displayEdl}
+                  sourceUrls={sourceUrls}
+                  currentTime={currentTime}
+                  isPlaying={isPlaying}
+                  volume={isPrimaryAudible ? volume : 0}
+                  playbackRate={shuttleRate}
+                  onTimeChange={handleTimeChange}
+                  onPlayingChange={setIsPlaying}
+                  caption={showCaptions ? getCueAt(projectDocument.subtitles ?? [], currentTime)?.text : undefined}
+                />
               </CardContent>
             </Card>
 
             {/* Enhanced Video Timeline */}
             <VideoTimeline
-              duration={duration}
+              edl={displayEdl}
+              onEdlChange={previewPlan ? undefined : handleEdlChange}
+              duration={timelineDuration}
               currentTime={currentTime}
               onTimeChange={handleTimeChange}
               isPlaying={isPlaying}
               onPlayPause={handlePlayPause}
+              volume={volume}
+              onVolumeChange={setVolume}
+              frameRate={activeProject?.media?.frameRate}
+              waveform={waveform}
+              isWaveformLoading={isWaveformLoading}
+              waveformError={waveformError}
+              segments={timelineSegments}
+              proposedCuts={proposedCuts}
+              highlightRanges={timelineHighlights}
+              onSelectionChange={handleTimelineSelection}
+              snapTimes={beatTimes}
+              markIn={markIn}
+              markOut={markOut}
+              onClearMarks={handleClearMarks}
+              markers={projectDocument.markers ?? []}
+              subtitles={projectDocument.subtitles ?? []}
+              onSubtitlesChange={previewPlan ? undefined : handleSubtitlesChange}
+              onGenerateSubtitles={transcript ? handleGenerateSubtitles : undefined}
+              onSubtitleImportError={(message) => toast({
+                title: "Import Failed",
+                description: message,
+                variant: "destructive"
+              })}
+              statusMessage={reviewSuggestion
+                ? 'Reviewing suggestions — accept, reject or exit the review to keep editing'
+                : previewPlan
+                ? 'Previewing a suggestion — apply or cancel it to keep editing'
+                : activeSceneProgress !== undefined
+                  ? `Detecting scenes... ${Math.round(activeSceneProgress * 100)}%`
+                  : undefined}
+            />
+
+            <TranscriptPanel
+              transcript={transcript}
+              placements={wordPlacements}
+              currentTime={currentTime}
+              selection={transcriptSelection}
+              onSelectionChange={setTranscriptSelection}
+              onSeek={handleTimeChange}
+              onRemoveWords={handleRemoveWords}
+              canEdit={Boolean(edl) && !previewPlan}
+              statusMessage={transcribeStage
+                ? `Transcribing speech... ${Math.round(transcribeStage.progress * 100)}%`
+                : undefined}
             />
           </div>
 
@@ -630,7 +1686,7 @@ function App() {
                   <Switch 
                     checked={aiSettings.sceneDetection}
                     onCheckedChange={(checked) => 
-                      setAiSettings(prev => ({ ...prev, sceneDetection: checked }))
+                      updateAISettings({ sceneDetection: checked }, checked ? 'Enable scene detection' : 'Disable scene detection')
                     }
                   />
                 </div>
@@ -639,7 +1695,7 @@ function App() {
                   <Switch 
                     checked={aiSettings.smartTransitions}
                     onCheckedChange={(checked) => 
-                      setAiSettings(prev => ({ ...prev, smartTransitions: checked }))
+                      updateAISettings({ smartTransitions: checked }, checked ? 'Enable smart transitions' : 'Disable smart transitions')
                     }
                   />
                 </div>
@@ -648,7 +1704,7 @@ function App() {
                   <Switch 
                     checked={aiSettings.audioEnhancement}
                     onCheckedChange={(checked) => 
-                      setAiSettings(prev => ({ ...prev, audioEnhancement: checked }))
+                      updateAISettings({ audioEnhancement: checked }, checked ? 'Enable audio enhancement' : 'Disable audio enhancement')
                     }
                   />
                 </div>
@@ -657,7 +1713,7 @@ function App() {
                   <Switch 
                     checked={aiSettings.colorCorrection}
                     onCheckedChange={(checked) => 
-                      setAiSettings(prev => ({ ...prev, colorCorrection: checked }))
+                      updateAISettings({ colorCorrection: checked }, checked ? 'Enable color correction' : 'Disable color correction')
                     }
                   />
                 </div>
@@ -666,7 +1722,7 @@ function App() {
                   <Tabs 
                     value={aiSettings.quality} 
                     onValueChange={(value) => 
-                      setAiSettings(prev => ({ ...prev, quality: value }))
+                      updateAISettings({ quality: value as ProcessingQuality }, `Set processing quality to ${value}`)
                     }
                     className="w-full"
                   >
@@ -677,9 +1733,30 @@ function App() {
                     </TabsList>
                   </Tabs>
                 </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Analysis Provider</label>
+                  <Tabs 
+                    value={getAnalysisProvider(aiSettings.provider).id} 
+                    onValueChange={(value) => 
+                      updateAISettings(
+                        { provider: value as AnalysisProviderId },
+                        `Analyze with ${getAnalysisProvider(value as AnalysisProviderId).name}`
+                      )
+                    }
+                    className="w-full"
+                  >
+                    <TabsList className="grid w-full grid-cols-2">
+                      {Object.values(ANALYSIS_PROVIDERS).map(provider => (
+                        <TabsTrigger key={provider.id} value={provider.id}>{provider.name}</TabsTrigger>
+                      ))}
+                    </TabsList>
+                  </Tabs>
+                </div>
                 <Button 
                   className="w-full bg-[#F59E0B] hover:bg-[#F59E0B]/80 text-black"
                   size="sm"
+                  disabled={!activeProject?.media}
+                  onClick={handleApplyAISettings}
                 >
                   <Sparkles className="h-4 w-4 mr-2" />
                   Apply AI Settings
@@ -687,106 +1764,83 @@ function App() {
               </CardContent>
             </Card>
 
-            {/* Processing Queue */}
-            <Card className="bg-white/5 border-white/10">
-              <CardHeader>
-                <CardTitle className="flex items-center space-x-2">
-                  <Clock className="h-5 w-5 text-[#6366F1]" />
-                  <span>Processing Queue</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                {projects.map((project) => (
-                  <div key={project.id} className="space-y-2">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-2">
-                        {getStatusIcon(project.status)}
-                        <span className="text-sm font-medium truncate max-w-[150px]">
-                          {project.name}
-                        </span>
-                      </div>
-                      <Badge 
-                        variant="secondary" 
-                        className={`text-xs ${getStatusColor(project.status)}`}
-                      >
-                        {project.status}
-                      </Badge>
-                    </div>
-                    <Progress value={project.progress} className="h-2" />
-                    <div className="flex justify-between text-xs text-white/60">
-                      <span>{project.progress}%</span>
-                      <span>{project.duration && `${project.duration} • `}{project.size}</span>
-                    </div>
-                  </div>
-                ))}
-              </CardContent>
-            </Card>
+            <MarkersPanel
+              markers={projectDocument.markers ?? []}
+              currentTime={currentTime}
+              duration={timelineDuration}
+              onSeek={stepTo}
+              onAdd={handleAddMarker}
+              onMarkersChange={edl && !previewPlan ? handleMarkersChange : undefined}
+            />
+
+            <SilenceRemovalPanel
+              proposals={silenceProposals}
+              options={silenceOptions}
+              onOptionsChange={setSilenceOptions}
+              onApply={handleApplySilenceCuts}
+              isAnalyzing={isWaveformLoading}
+              hasAudio={!!waveform}
+            />
+
+            <HistoryPanel
+              history={activeProject?.history}
+              onUndo={() => moveHistory(undoHistory)}
+              onRedo={() => moveHistory(redoHistory)}
+              onJump={(index) => moveHistory(history => jumpToHistory(history, index))}
+            />
+
+            <ProcessingQueue
+              jobs={jobs}
+              projects={projects}
+              onCancel={cancelJob}
+              onRetry={retryJob}
+              uploads={uploads}
+              hasUploadFile={hasUploadFile}
+              onPauseUpload={pauseUpload}
+              onResumeUpload={handleResumeUpload}
+              onCancelUpload={cancelUpload}
+            />
+
+            {/* Suggestion Review */}
+            {reviewSuggestion && (
+              <SuggestionReview
+                suggestion={reviewSuggestion}
+                position={reviewQueue.indexOf(reviewSuggestion) + 1}
+                total={reviewQueue.length}
+                changes={previewPlan?.changes ?? []}
+                threshold={getConfidenceThreshold(feedback, reviewSuggestion.type)}
+                onAccept={() => decideReviewItem(true)}
+                onReject={() => decideReviewItem(false)}
+                onNext={() => showReviewItem(reviewQueue.indexOf(reviewSuggestion) + 1, reviewQueue)}
+                onPrevious={() => showReviewItem(reviewQueue.indexOf(reviewSuggestion) - 1, reviewQueue)}
+                onExit={() => setReviewIndex(null)}
+              />
+            )}
 
             {/* Smart Suggestions */}
-            <Card className="bg-white/5 border-white/10">
-              <CardHeader>
-                <CardTitle className="flex items-center space-x-2">
-                  <Sparkles className="h-5 w-5 text-[#F59E0B]" />
-                  <span>AI Suggestions</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {(() => {
-                  const completedProject = projects.find(p => p.status === 'completed' && p.aiSuggestions)
-                  const suggestions = completedProject?.aiSuggestions || []
-                  
-                  if (suggestions.length === 0) {
-                    return (
-                      <div className="text-center py-6">
-                        <Sparkles className="h-8 w-8 text-white/20 mx-auto mb-2" />
-                        <p className="text-sm text-white/60">Complete a video to see AI suggestions</p>
-                      </div>
-                    )
-                  }
-                  
-                  return suggestions.map((suggestion, index) => {
-                    const getColorClass = (type: string) => {
-                      switch (type) {
-                        case 'scene_detection':
-                          return { bg: 'bg-[#6366F1]/10', border: 'border-[#6366F1]/20', text: 'text-[#6366F1]' }
-                        case 'audio_sync':
-                          return { bg: 'bg-[#F59E0B]/10', border: 'border-[#F59E0B]/20', text: 'text-[#F59E0B]' }
-                        case 'quality_enhancement':
-                          return { bg: 'bg-green-500/10', border: 'border-green-500/20', text: 'text-green-400' }
-                        default:
-                          return { bg: 'bg-white/5', border: 'border-white/10', text: 'text-white' }
-                      }
-                    }
-                    
-                    const colors = getColorClass(suggestion.type)
-                    const confidencePercent = Math.round(suggestion.confidence * 100)
-                    
-                    return (
-                      <div key={index} className={`p-3 ${colors.bg} border ${colors.border} rounded-lg`}>
-                        <div className="flex items-center justify-between mb-1">
-                          <p className={`text-sm font-medium ${colors.text}`}>{suggestion.title}</p>
-                          <Badge variant="secondary" className="text-xs">
-                            {confidencePercent}%
-                          </Badge>
-                        </div>
-                        <p className="text-xs text-white/70 mb-2">{suggestion.description}</p>
-                        <Button 
-                          size="sm" 
-                          variant="outline" 
-                          className="text-xs h-6 px-2"
-                          onClick={() => {
-                            // Simulate applying the suggestion
-                            console.log(`Applying ${suggestion.action} for project ${completedProject?.id}`)
-                          }}
-                        >
-                          Apply Fix
-                        </Button>
-                      </div>
-                    )
-                  })
-                })()}
-              </CardContent>
-            </Card>
+            <SuggestionsPanel
+              suggestions={visibleSuggestions}
+              statuses={suggestionStates}
+              preview={previewPlan && suggestionPreview && !reviewSuggestion
+                ? { suggestionId: suggestionPreview.suggestionId, changes: previewPlan.changes }
+                : null}
+              onPreview={handlePreviewSuggestion}
+              onCancelPreview={() => setSuggestionPreview(null)}
+              onApply={handleApplySuggestion}
+              onDismiss={handleDismissSuggestion}
+              onRestore={(suggestion) => updateSuggestionDocument(
+                suggestion,
+                `Restore suggestion: ${suggestion.title}`,
+                document => restoreSuggestion(document, suggestion.id)
+              )}
+              onRevert={(suggestion) => updateSuggestionDocument(
+                suggestion,
+                `Revert suggestion: ${suggestion.title}`,
+                (document, context) => revertSuggestion(document, suggestion, context)
+              )}
+              hiddenCount={allSuggestions.length - visibleSuggestions.length}
+              onStartReview={reviewSuggestion ? undefined : () => showReviewItem(0, reviewQueue)}
+            />
           </div>
         </div>
       </TabsContent>
@@ -794,74 +1848,55 @@ function App() {
       <TabsContent value="insights" className="mt-8">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           <AIProcessingInsights 
-            isProcessing={projects.some(p => p.status === 'processing')}
-            projectId={projects.find(p => p.status === 'processing')?.id}
+            isProcessing={insightsProject?.status === 'processing'}
+            media={insightsProject?.media}
+            scenes={insightsProject?.scenes}
+            analysis={insightsProject?.analysis}
+            sceneProgress={insightsProject ? sceneDetectionProgress[insightsProject.id] : undefined}
+            analysisProgress={insightsProject ? analysisProgress[insightsProject.id] : undefined}
           />
           
-          <Card className="bg-white/5 border-white/10">
-            <CardHeader>
-              <CardTitle className="flex items-center space-x-2">
-                <BarChart3 className="h-5 w-5 text-[#6366F1]" />
-                <span>Performance Analytics</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="text-center p-4 bg-white/5 rounded-lg">
-                  <div className="text-2xl font-bold text-[#6366F1]">8.4/10</div>
-                  <div className="text-sm text-white/60">Overall Quality</div>
-                </div>
-                <div className="text-center p-4 bg-white/5 rounded-lg">
-                  <div className="text-2xl font-bold text-[#F59E0B]">92%</div>
-                  <div className="text-sm text-white/60">AI Confidence</div>
-                </div>
-                <div className="text-center p-4 bg-white/5 rounded-lg">
-                  <div className="text-2xl font-bold text-green-400">2:34</div>
-                  <div className="text-sm text-white/60">Final Duration</div>
-                </div>
-                <div className="text-center p-4 bg-white/5 rounded-lg">
-                  <div className="text-2xl font-bold text-blue-400">12</div>
-                  <div className="text-sm text-white/60">AI Enhancements</div>
-                </div>
-              </div>
-              
-              <div className="space-y-3">
-                <h4 className="font-medium">Processing Timeline</h4>
-                <div className="space-y-2">
-                  {[
-                    { step: 'Video Analysis', time: '0:23', status: 'completed' },
-                    { step: 'Scene Detection', time: '0:45', status: 'completed' },
-                    { step: 'Audio Processing', time: '1:12', status: 'completed' },
-                    { step: 'AI Enhancement', time: '1:58', status: 'completed' },
-                    { step: 'Final Render', time: '2:34', status: 'completed' }
-                  ].map((item, index) => (
-                    <div key={index} className="flex items-center justify-between text-sm">
-                      <span className="text-white/80">{item.step}</span>
-                      <div className="flex items-center space-x-2">
-                        <span className="text-white/60">{item.time}</span>
-                        <CheckCircle className="h-4 w-4 text-green-400" />
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+          <PerformanceAnalytics
+            analysis={insightsProject?.analysis}
+            job={insightsJob}
+            duration={activeProject?.media ? timelineDuration : undefined}
+            appliedSuggestions={insightsAppliedSuggestions}
+          />
         </div>
       </TabsContent>
 
       <TabsContent value="export" className="mt-8">
         <div className="max-w-4xl mx-auto">
           <ExportOptions 
+            media={activeProject?.media}
+            duration={edl ? timelineDuration : undefined}
+            settings={projectDocument.exportSettings}
+            presetId={projectDocument.exportPreset}
+            onSettingsChange={(exportSettings, exportPreset, label, group) =>
+              updateDocument(label, document => ({ ...document, exportSettings, exportPreset }), { group })
+            }
             onExport={handleExport}
+            onCancelExport={() => exportAbort.current?.abort()}
             isExporting={isExporting}
             exportProgress={exportProgress}
+            exportStatus={exportStatus}
+            exportResult={exportResult}
+            subtitleCount={projectDocument.subtitles?.length ?? 0}
+            chapterCount={edl ? getChapters(projectDocument.markers ?? [], getEdlDuration(edl)).length : 0}
           />
         </div>
       </TabsContent>
 
       <TabsContent value="projects" className="mt-8">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {isLoadingProjects && projects.length === 0 && (
+            <Card className="bg-white/5 border-white/10">
+              <CardContent className="p-6 flex items-center justify-center h-full min-h-[200px] text-white/60">
+                <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                Loading your projects...
+              </CardContent>
+            </Card>
+          )}
           {projects.map((project) => (
             <Card key={project.id} className="bg-white/5 border-white/10 project-card">
               <CardContent className="p-6">
@@ -888,7 +1923,15 @@ function App() {
                 </div>
                 
                 <div className="flex items-center justify-between">
-                  <Button size="sm" variant="outline">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={!localMediaUrls[project.id] && !project.mediaUrl && !project.mediaParts}
+                    onClick={() => {
+                      selectProject(project.id)
+                      setActiveTab('editor')
+                    }}
+                  >
                     <Play className="h-4 w-4 mr-2" />
                     Preview
                   </Button>
@@ -927,6 +1970,13 @@ function App() {
       </TabsContent>
     </Tabs>
       </div>
+
+      <ShortcutsDialog
+        open={shortcutsOpen}
+        onOpenChange={setShortcutsOpen}
+        bindings={shortcutBindings}
+        onBindingsChange={updateShortcutBindings}
+      />
     </div>
   )
 }
@@ -1,8 +1,6 @@
-import { useState, useEffect } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Progress } from './ui/progress'
 import { Badge } from './ui/badge'
-import { Button } from './ui/button'
 import { 
   Brain, 
   Eye, 
@@ -16,6 +14,9 @@ import {
   Activity,
   BarChart3
 } from 'lucide-react'
+import { getAnalysisProvider, type AnalysisFinding, type AnalysisKind, type ProjectAnalysis } from '../lib/analysis-provider'
+import type { MediaMetadata } from '../lib/media-probe'
+import type { TimelineSegment } from '../lib/timeline'
 
 interface AIInsight {
   id: string
@@ -35,160 +36,154 @@ interface AIInsight {
 
 interface AIProcessingInsightsProps {
   isProcessing: boolean
-  projectId?: string
+  media?: MediaMetadata
+  scenes?: TimelineSegment[]
+  analysis?: ProjectAnalysis
+  sceneProgress?: number // 0..1 while scene detection runs
+  analysisProgress?: Partial<Record<AnalysisKind, number>>
 }
 
-export function AIProcessingInsights({ isProcessing, projectId }: AIProcessingInsightsProps) {
-  const [insights, setInsights] = useState<AIInsight[]>([])
-  const [currentPhase, setCurrentPhase] = useState('Initializing AI Analysis...')
+const ANALYSIS_PHASES: Record<AnalysisKind, string> = {
+  audio: 'Processing audio tracks...',
+  color: 'Analyzing color composition...',
+  motion: 'Tracking motion patterns...'
+}
 
-  useEffect(() => {
-    if (isProcessing) {
-      simulateAIAnalysis()
-    }
-  }, [isProcessing])
+const formatDb = (db: number) => `${Math.round(db)} dBFS`
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`
+
+const getFindingMessages = (findings: AnalysisFinding[]) => findings.map(finding => finding.message)
+
+// A running analysis shows its progress; otherwise the last stored result, if any
+const toInsight = (
+  base: Pick<AIInsight, 'type' | 'title' | 'description'>,
+  progress: number | undefined,
+  result: Pick<AIInsight, 'confidence' | 'metrics' | 'suggestions'> | null
+): AIInsight | null => {
+  if (progress !== undefined) {
+    return { ...base, id: base.type, progress: progress * 100, status: 'analyzing', confidence: 0 }
+  }
+  return result ? { ...base, ...result, id: base.type, progress: 100, status: 'completed' } : null
+}
+
+const getSceneResult = (scenes?: TimelineSegment[]) => {
+  if (!scenes || scenes.length === 0) return null
 
-  const simulateAIAnalysis = () => {
-    const phases = [
-      'Initializing AI Analysis...',
-      'Analyzing video content...',
-      'Detecting scenes and objects...',
-      'Processing audio tracks...',
-      'Analyzing color composition...',
-      'Tracking motion patterns...',
-      'Generating enhancement suggestions...',
-      'Finalizing AI insights...'
+  const lengths = scenes.map(scene => scene.end - scene.start)
+  const averageLength = lengths.reduce((total, length) => total + length, 0) / scenes.length
+  const averageConfidence = scenes.reduce((total, scene) => total + scene.confidence, 0) / scenes.length
+  const longScenes = scenes
+    .filter(scene => scenes.length > 2 && scene.end - scene.start > averageLength * 2.5)
+    .map(scene => `${scene.label} runs ${(scene.end - scene.start).toFixed(1)}s; consider trimming it`)
+  const shortCount = lengths.filter(length => length < 1).length
+
+  return {
+    confidence: averageConfidence,
+    metrics: [
+      { label: 'Scenes Found', value: scenes.length },
+      { label: 'Avg Scene Length', value: `${averageLength.toFixed(1)}s` },
+      { label: 'Cut Confidence', value: formatPercent(averageConfidence) }
+    ],
+    suggestions: [
+      ...longScenes,
+      ...(shortCount > 0 ? [`${shortCount} ${shortCount === 1 ? 'scene is' : 'scenes are'} under a second long; merging would smooth the flow`] : [])
     ]
+  }
+}
 
-    let phaseIndex = 0
-    const phaseInterval = setInterval(() => {
-      if (phaseIndex < phases.length) {
-        setCurrentPhase(phases[phaseIndex])
-        phaseIndex++
-      } else {
-        clearInterval(phaseInterval)
-      }
-    }, 2000)
+const getQualityResult = (media?: MediaMetadata) => {
+  if (!media) return null
 
-    // Simulate progressive insights
-    const insightTemplates: Omit<AIInsight, 'id' | 'progress' | 'status'>[] = [
-      {
-        type: 'scene_detection',
-        title: 'Scene Detection',
-        description: 'Analyzing video structure and identifying distinct scenes',
-        confidence: 0.92,
-        metrics: [
-          { label: 'Scenes Found', value: 8 },
-          { label: 'Avg Scene Length', value: '19.2s' },
-          { label: 'Transition Quality', value: 'High', trend: 'up' }
-        ],
-        suggestions: [
-          'Auto-cut detected at 0:23 for smoother flow',
-          'Add fade transition between scenes 3-4',
-          'Consider shortening scene 6 by 3 seconds'
-        ]
-      },
-      {
-        type: 'audio_analysis',
-        title: 'Audio Analysis',
-        description: 'Processing audio tracks and identifying enhancement opportunities',
-        confidence: 0.87,
-        metrics: [
-          { label: 'Audio Quality', value: '7.8/10' },
-          { label: 'Background Noise', value: 'Low' },
-          { label: 'Volume Consistency', value: '85%', trend: 'stable' }
-        ],
-        suggestions: [
-          'Normalize audio levels across all segments',
-          'Apply noise reduction at 1:23-1:45',
-          'Enhance voice clarity in segment 2'
-        ]
-      },
-      {
-        type: 'color_grading',
-        title: 'Color Analysis',
-        description: 'Evaluating color composition and suggesting improvements',
-        confidence: 0.79,
-        metrics: [
-          { label: 'Color Balance', value: 'Good' },
-          { label: 'Saturation', value: '72%' },
-          { label: 'Contrast Ratio', value: '4.2:1', trend: 'up' }
-        ],
-        suggestions: [
-          'Increase warmth in outdoor scenes',
-          'Adjust shadows in segment 4',
-          'Apply color correction to match brand palette'
-        ]
-      },
-      {
-        type: 'motion_tracking',
-        title: 'Motion Analysis',
-        description: 'Tracking camera movement and subject motion patterns',
-        confidence: 0.94,
+  const suggestions: string[] = []
+  if (media.bitrate && media.frameRate && media.width && media.height) {
+    // Bits per pixel per frame; well-encoded H.264 sits around 0.1
+    const bitsPerPixel = media.bitrate / (media.width * media.height * media.frameRate)
+    if (bitsPerPixel < 0.05) suggestions.push('Source bitrate is low for its resolution; avoid upscaling on export')
+  }
+  if (media.height > 0 && media.height < 720) {
+    suggestions.push('Source is below HD; export at the source resolution to keep it sharp')
+  }
+
+  return {
+    // Read straight from the container rather than estimated
+    confidence: 1,
+    metrics: [
+      { label: 'Resolution', value: `${media.width}×${media.height}` },
+      { label: 'Frame Rate', value: media.frameRate ? `${media.frameRate} fps` : 'Unknown' },
+      { label: 'Bitrate', value: media.bitrate ? `${(media.bitrate / 1_000_000).toFixed(1)} Mbps` : 'Unknown', trend: 'stable' as const }
+    ],
+    suggestions
+  }
+}
+
+export function AIProcessingInsights({
+  isProcessing,
+  media,
+  scenes,
+  analysis,
+  sceneProgress,
+  analysisProgress = {}
+}: AIProcessingInsightsProps) {
+  const { audio, color, motion } = analysis ?? {}
+  const insights = [
+    toInsight(
+      { type: 'scene_detection', title: 'Scene Detection', description: 'Video structure and distinct scenes' },
+      sceneProgress,
+      getSceneResult(scenes)
+    ),
+    toInsight(
+      { type: 'audio_analysis', title: 'Audio Analysis', description: 'Levels, noise and clipping across the audio track' },
+      analysisProgress.audio,
+      audio ? {
+        confidence: audio.confidence,
+        metrics: audio.hasAudio
+          ? [
+              { label: 'Loudness', value: formatDb(audio.loudnessDb) },
+              { label: 'Noise Floor', value: formatDb(audio.noiseFloorDb) },
+              { label: 'Loudness Range', value: `${Math.round(audio.loudnessRangeDb)} dB` }
+            ]
+          : [{ label: 'Audio Track', value: 'None' }],
+        suggestions: getFindingMessages(audio.findings)
+      } : null
+    ),
+    toInsight(
+      { type: 'color_grading', title: 'Color Analysis', description: 'Exposure, contrast and color balance of sampled frames' },
+      analysisProgress.color,
+      color ? {
+        confidence: color.confidence,
         metrics: [
-          { label: 'Camera Stability', value: '9.1/10' },
-          { label: 'Motion Blur', value: 'Minimal' },
-          { label: 'Tracking Accuracy', value: '96%', trend: 'up' }
+          { label: 'Brightness', value: formatPercent(color.brightness) },
+          { label: 'Contrast', value: formatPercent(color.contrast) },
+          { label: 'Saturation', value: formatPercent(color.saturation) }
         ],
-        suggestions: [
-          'Apply stabilization to handheld segments',
-          'Add motion blur for dynamic transitions',
-          'Track subject movement for auto-focus'
-        ]
-      },
-      {
-        type: 'quality_enhancement',
-        title: 'Quality Enhancement',
-        description: 'Identifying opportunities for overall video improvement',
-        confidence: 0.88,
+        suggestions: getFindingMessages(color.findings)
+      } : null
+    ),
+    toInsight(
+      { type: 'motion_tracking', title: 'Motion Analysis', description: 'Camera movement and subject motion between frames' },
+      analysisProgress.motion,
+      motion ? {
+        confidence: motion.confidence,
         metrics: [
-          { label: 'Overall Quality', value: '8.4/10' },
-          { label: 'Sharpness', value: 'High' },
-          { label: 'Compression', value: 'Optimal', trend: 'stable' }
+          { label: 'Camera Stability', value: `${(motion.stability * 10).toFixed(1)}/10` },
+          { label: 'Avg Motion', value: formatPercent(motion.averageMotion) },
+          { label: 'Frames Compared', value: motion.sampleCount }
         ],
-        suggestions: [
-          'Upscale resolution to 4K for better quality',
-          'Apply AI denoising to low-light segments',
-          'Enhance detail preservation in fast motion'
-        ]
-      }
-    ]
+        suggestions: getFindingMessages(motion.findings)
+      } : null
+    ),
+    toInsight(
+      { type: 'quality_enhancement', title: 'Source Quality', description: 'Properties of the uploaded file' },
+      undefined,
+      getQualityResult(media)
+    )
+  ].filter((insight): insight is AIInsight => insight !== null)
 
-    insightTemplates.forEach((template, index) => {
-      setTimeout(() => {
-        const newInsight: AIInsight = {
-          ...template,
-          id: `insight-${index}`,
-          progress: 0,
-          status: 'analyzing'
-        }
-        
-        setInsights(prev => [...prev, newInsight])
-        
-        // Simulate progress
-        let progress = 0
-        const progressInterval = setInterval(() => {
-          progress += Math.random() * 15 + 5
-          
-          if (progress >= 100) {
-            progress = 100
-            setInsights(prev => prev.map(insight => 
-              insight.id === newInsight.id 
-                ? { ...insight, progress: 100, status: 'completed' }
-                : insight
-            ))
-            clearInterval(progressInterval)
-          } else {
-            setInsights(prev => prev.map(insight => 
-              insight.id === newInsight.id 
-                ? { ...insight, progress: Math.min(progress, 100) }
-                : insight
-            ))
-          }
-        }, 800)
-      }, index * 3000)
-    })
-  }
+  const runningKind = (Object.keys(ANALYSIS_PHASES) as AnalysisKind[])
+    .find(kind => analysisProgress[kind] !== undefined && analysisProgress[kind] < 1)
+  const currentPhase = sceneProgress !== undefined
+    ? 'Detecting scenes and cuts...'
+    : runningKind ? ANALYSIS_PHASES[runningKind] : 'Processing video...'
 
   const getInsightIcon = (type: AIInsight['type']) => {
     switch (type) {
@@ -258,8 +253,10 @@ export function AIProcessingInsights({ isProcessing, projectId }: AIProcessingIn
             </Badge>
           )}
         </CardTitle>
-        {isProcessing && (
+        {isProcessing ? (
           <p className="text-sm text-white/60">{currentPhase}</p>
+        ) : analysis && (
+          <p className="text-sm text-white/60">Analyzed with {getAnalysisProvider(analysis.providerId).name}</p>
         )}
       </CardHeader>
       <CardContent className="space-y-4">
@@ -317,16 +314,13 @@ export function AIProcessingInsights({ isProcessing, projectId }: AIProcessingIn
               )}
 
               {/* Suggestions */}
-              {insight.suggestions && insight.status === 'completed' && (
+              {insight.suggestions && insight.suggestions.length > 0 && insight.status === 'completed' && (
                 <div className="space-y-2">
-                  <h5 className="text-sm font-medium text-white/80">AI Suggestions:</h5>
+                  <h5 className="text-sm font-medium text-white/80">Findings:</h5>
                   <div className="space-y-1">
-                    {insight.suggestions.slice(0, 2).map((suggestion, index) => (
-                      <div key={index} className="flex items-center justify-between text-xs bg-white/5 rounded p-2">
+                    {insight.suggestions.slice(0, 3).map((suggestion, index) => (
+                      <div key={index} className="text-xs bg-white/5 rounded p-2">
                         <span className="text-white/70">{suggestion}</span>
-                        <Button size="sm" variant="outline" className="h-6 px-2 text-xs">
-                          Apply
-                        </Button>
                       </div>
                     ))}
                   </div>
@@ -334,12 +328,14 @@ export function AIProcessingInsights({ isProcessing, projectId }: AIProcessingIn
               )}
 
               {/* Confidence Score */}
-              <div className="flex items-center justify-between text-xs">
-                <span className="text-white/60">Confidence Score</span>
-                <Badge variant="secondary" className="bg-green-500/20 text-green-400">
-                  {Math.round(insight.confidence * 100)}%
-                </Badge>
-              </div>
+              {insight.status === 'completed' && (
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-white/60">Confidence Score</span>
+                  <Badge variant="secondary" className="bg-green-500/20 text-green-400">
+                    {Math.round(insight.confidence * 100)}%
+                  </Badge>
+                </div>
+              )}
             </div>
           ))
         )}
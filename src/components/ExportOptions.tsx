@@ -1,4 +1,3 @@
-import { useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
@@ -21,6 +20,8 @@ import {
   CheckCircle,
   AlertCircle
 } from 'lucide-react'
+import type { MediaMetadata } from '../lib/media-probe'
+import type { ExportSettings } from '../lib/project-document'
 
 interface ExportPreset {
   id: string
@@ -35,38 +36,45 @@ interface ExportPreset {
 }
 
 interface ExportOptionsProps {
+  media?: MediaMetadata
+  duration?: number // length of the edit, when it differs from the source
+  settings: ExportSettings
+  presetId: string
+  onSettingsChange: (settings: ExportSettings, presetId: string, label: string, group?: string) => void
   onExport: (options: ExportSettings) => void
+  onCancelExport?: () => void
   isExporting?: boolean
   exportProgress?: number
+  exportStatus?: string
+  exportResult?: {
+    url: string
+    fileName: string
+    size: number
+    subtitles?: { url: string, fileName: string } // sidecar caption file
+    chapters?: { url: string, fileName: string } // WebVTT chapters
+  } | null
+  subtitleCount?: number
+  chapterCount?: number
 }
 
-interface ExportSettings {
-  format: string
-  resolution: string
-  quality: number
-  bitrate: number
-  fps: number
-  codec: string
-  audioQuality: number
-  includeSubtitles: boolean
-  watermark: boolean
-}
-
-export function ExportOptions({ onExport, isExporting = false, exportProgress = 0 }: ExportOptionsProps) {
-  const [selectedPreset, setSelectedPreset] = useState('youtube')
-  const [customSettings, setCustomSettings] = useState<ExportSettings>({
-    format: 'mp4',
-    resolution: '1920x1080',
-    quality: 80,
-    bitrate: 8000,
-    fps: 30,
-    codec: 'h264',
-    audioQuality: 192,
-    includeSubtitles: false,
-    watermark: false
-  })
-  const [estimatedSize, setEstimatedSize] = useState('45.2 MB')
-  const [estimatedTime, setEstimatedTime] = useState('2-3 minutes')
+export function ExportOptions({
+  media,
+  duration,
+  settings: customSettings,
+  presetId: selectedPreset,
+  onSettingsChange,
+  onExport,
+  onCancelExport,
+  isExporting = false,
+  exportProgress = 0,
+  exportStatus,
+  exportResult,
+  subtitleCount = 0,
+  chapterCount = 0
+}: ExportOptionsProps) {
+  const updateSettings = (changes: Partial<ExportSettings>, label: string, group?: string) => {
+    onSettingsChange({ ...customSettings, ...changes }, selectedPreset, label, group)
+  }
 
   const exportPresets: ExportPreset[] = [
     {
@@ -139,6 +147,11 @@ export function ExportOptions({ onExport, isExporting = false, exportProgress =
     { value: 'webm', label: 'WebM', description: 'Web optimized' }
   ]
 
+  const subtitleModeOptions: { value: ExportSettings['subtitleMode'], label: string, description: string }[] = [
+    { value: 'sidecar', label: 'Sidecar File', description: 'Separate caption file viewers can turn off' },
+    { value: 'burn_in', label: 'Burned In', description: 'Drawn into the picture, always visible' }
+  ]
+
   const resolutionOptions = [
     { value: '3840x2160', label: '4K (3840×2160)', description: 'Ultra HD' },
     { value: '1920x1080', label: 'Full HD (1920×1080)', description: 'Standard HD' },
@@ -153,7 +166,6 @@ export function ExportOptions({ onExport, isExporting = false, exportProgress =
   ]
 
   const handlePresetSelect = (presetId: string) => {
-    setSelectedPreset(presetId)
     const preset = exportPresets.find(p => p.id === presetId)
     if (preset) {
       // Update custom settings based on preset
@@ -192,13 +204,11 @@ export function ExportOptions({ onExport, isExporting = false, exportProgress =
           break
       }
       
-      setCustomSettings(newSettings)
-      updateEstimates(newSettings)
+      onSettingsChange(newSettings, presetId, `Select ${preset.name} preset`)
     }
   }
 
-  const updateEstimates = (settings: ExportSettings) => {
-    // Simple estimation logic
+  const getEstimates = (settings: ExportSettings) => {
     const resolutionMultiplier = {
       '3840x2160': 4,
       '1920x1080': 1,
@@ -207,16 +217,34 @@ export function ExportOptions({ onExport, isExporting = false, exportProgress =
     }[settings.resolution] || 1
     
     const qualityMultiplier = settings.quality / 100
-    const baseSize = 45 // MB for 1080p at 80% quality
-    
-    const estimatedSizeMB = Math.round(baseSize * resolutionMultiplier * qualityMultiplier)
-    setEstimatedSize(`~${estimatedSizeMB} MB`)
-    
-    const baseTime = 2 // minutes for standard processing
-    const estimatedTimeMin = Math.round(baseTime * resolutionMultiplier * qualityMultiplier)
-    setEstimatedTime(`${estimatedTimeMin}-${estimatedTimeMin + 1} minutes`)
+    const outputDuration = duration ?? media?.duration
+
+    if (!outputDuration) {
+      // No source loaded yet: assume a ~2.5 minute clip
+      const baseSize = 45 // MB for 1080p at 80% quality
+      const baseTime = 2 // minutes for standard processing
+      const estimatedSizeMB = Math.round(baseSize * resolutionMultiplier * qualityMultiplier)
+      const estimatedTimeMin = Math.round(baseTime * resolutionMultiplier * qualityMultiplier)
+      return {
+        size: `~${estimatedSizeMB} MB`,
+        time: `${estimatedTimeMin}-${estimatedTimeMin + 1} minutes`
+      }
+    }
+
+    // Video and audio bitrates are in kbps
+    const totalKbps = settings.bitrate * (qualityMultiplier / 0.8) + settings.audioQuality
+    const estimatedSizeMB = (totalKbps * 1000 * outputDuration) / 8 / (1024 * 1024)
+    // In-browser encoding runs at roughly real time for 1080p
+    const estimatedTimeMin = Math.max(1, Math.round((outputDuration / 60) * resolutionMultiplier * qualityMultiplier))
+
+    return {
+      size: `~${estimatedSizeMB < 10 ? estimatedSizeMB.toFixed(1) : Math.round(estimatedSizeMB)} MB`,
+      time: `${estimatedTimeMin}-${estimatedTimeMin + 1} minutes`
+    }
   }
 
+  const { size: estimatedSize, time: estimatedTime } = getEstimates(customSettings)
+
   const handleExport = () => {
     onExport(customSettings)
   }
@@ -243,7 +271,7 @@ export function ExportOptions({ onExport, isExporting = false, exportProgress =
               <FileVideo className="h-12 w-12 text-[#F59E0B] mx-auto mb-4 animate-bounce" />
               <h3 className="font-medium mb-2">Exporting Your Video</h3>
               <p className="text-sm text-white/60 mb-4">
-                Processing with AI enhancements...
+                {exportStatus ?? 'Rendering your edit...'}
               </p>
             </div>
             
@@ -265,6 +293,12 @@ export function ExportOptions({ onExport, isExporting = false, exportProgress =
                 <span className="text-white/60">Size: {estimatedSize}</span>
               </div>
             </div>
+
+            {onCancelExport && (
+              <Button variant="outline" className="w-full" onClick={onCancelExport}>
+                Cancel Export
+              </Button>
+            )}
           </div>
         ) : (
           <Tabs defaultValue="presets" className="w-full">
@@ -328,7 +362,7 @@ export function ExportOptions({ onExport, isExporting = false, exportProgress =
                           ? 'border-[#F59E0B] bg-[#F59E0B]/10'
                           : 'border-white/10 bg-white/5 hover:border-white/20'
                       }`}
-                      onClick={() => setCustomSettings(prev => ({ ...prev, format: format.value }))}
+                      onClick={() => updateSettings({ format: format.value }, `Set format to ${format.label}`)}
                     >
                       <div className="font-medium text-sm">{format.label}</div>
                       <div className="text-xs text-white/60">{format.description}</div>
@@ -350,9 +384,7 @@ export function ExportOptions({ onExport, isExporting = false, exportProgress =
                           : 'border-white/10 bg-white/5 hover:border-white/20'
                       }`}
                       onClick={() => {
-                        const newSettings = { ...customSettings, resolution: resolution.value }
-                        setCustomSettings(newSettings)
-                        updateEstimates(newSettings)
+                        updateSettings({ resolution: resolution.value }, `Set resolution to ${resolution.label}`)
                       }}
                     >
                       <div className="flex justify-between items-center">
@@ -382,9 +414,7 @@ export function ExportOptions({ onExport, isExporting = false, exportProgress =
                   step={5}
                   className="w-full"
                   onValueChange={(value) => {
-                    const newSettings = { ...customSettings, quality: value[0] }
-                    setCustomSettings(newSettings)
-                    updateEstimates(newSettings)
+                    updateSettings({ quality: value[0] }, 'Change export quality', 'export-quality')
                   }}
                 />
                 <div className="flex justify-between text-xs text-white/60">
@@ -402,16 +432,74 @@ export function ExportOptions({ onExport, isExporting = false, exportProgress =
                 <div className="flex items-center justify-between">
                   <div>
                     <label className="text-sm font-medium">Include Subtitles</label>
-                    <p className="text-xs text-white/60">Add auto-generated subtitles</p>
+                    <p className="text-xs text-white/60">
+                      {subtitleCount > 0
+                        ? `${subtitleCount} ${subtitleCount === 1 ? 'cue' : 'cues'} on the subtitle track`
+                        : 'Add or generate cues on the subtitle track first'}
+                    </p>
                   </div>
                   <Switch 
                     checked={customSettings.includeSubtitles}
                     onCheckedChange={(checked) => 
-                      setCustomSettings(prev => ({ ...prev, includeSubtitles: checked }))
+                      updateSettings({ includeSubtitles: checked }, checked ? 'Include subtitles' : 'Exclude subtitles')
                     }
                   />
                 </div>
+
+                {customSettings.includeSubtitles && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {subtitleModeOptions.map((option) => (
+                      <div
+                        key={option.value}
+                        className={`p-3 rounded-lg border cursor-pointer transition-all ${
+                          (customSettings.subtitleMode ?? 'sidecar') === option.value
+                            ? 'border-[#F59E0B] bg-[#F59E0B]/10'
+                            : 'border-white/10 bg-white/5 hover:border-white/20'
+                        }`}
+                        onClick={() => updateSettings({ subtitleMode: option.value }, `Deliver subtitles as ${option.label.toLowerCase()}`)}
+                      >
+                        <div className="font-medium text-sm">{option.label}</div>
+                        <div className="text-xs text-white/60">{option.description}</div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {customSettings.includeSubtitles && (customSettings.subtitleMode ?? 'sidecar') === 'sidecar' && (
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium">Subtitle format</label>
+                    <Tabs
+                      value={customSettings.subtitleFormat ?? 'srt'}
+                      onValueChange={(value) => updateSettings(
+                        { subtitleFormat: value as ExportSettings['subtitleFormat'] },
+                        `Set subtitle format to ${value.toUpperCase()}`
+                      )}
+                    >
+                      <TabsList>
+                        <TabsTrigger value="srt">SRT</TabsTrigger>
+                        <TabsTrigger value="vtt">WebVTT</TabsTrigger>
+                      </TabsList>
+                    </Tabs>
+                  </div>
+                )}
                 
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="text-sm font-medium">Include Chapters</label>
+                    <p className="text-xs text-white/60">
+                      {chapterCount > 0
+                        ? `${chapterCount} ${chapterCount === 1 ? 'chapter' : 'chapters'}, embedded in MP4 and MOV files and saved as WebVTT`
+                        : 'Promote markers to chapters first'}
+                    </p>
+                  </div>
+                  <Switch 
+                    checked={customSettings.includeChapters ?? true}
+                    onCheckedChange={(checked) => 
+                      updateSettings({ includeChapters: checked }, checked ? 'Include chapters' : 'Exclude chapters')
+                    }
+                  />
+                </div>
+
                 <div className="flex items-center justify-between">
                   <div>
                     <label className="text-sm font-medium">Watermark</label>
@@ -420,7 +508,7 @@ export function ExportOptions({ onExport, isExporting = false, exportProgress =
                   <Switch 
                     checked={customSettings.watermark}
                     onCheckedChange={(checked) => 
-                      setCustomSettings(prev => ({ ...prev, watermark: checked }))
+                      updateSettings({ watermark: checked }, checked ? 'Add watermark' : 'Remove watermark')
                     }
                   />
                 </div>
@@ -431,6 +519,42 @@ export function ExportOptions({ onExport, isExporting = false, exportProgress =
         
         {!isExporting && (
           <div className="mt-6 space-y-4">
+            {exportResult && (
+              <div className="p-4 bg-green-500/10 rounded-lg border border-green-500/20 flex items-center justify-between">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <CheckCircle className="h-4 w-4 text-green-400 shrink-0" />
+                  <span className="text-sm truncate">{exportResult.fileName}</span>
+                  <span className="text-xs text-white/60 shrink-0">
+                    {(exportResult.size / (1024 * 1024)).toFixed(1)} MB
+                  </span>
+                </div>
+                <div className="flex items-center space-x-2 shrink-0">
+                  {exportResult.subtitles && (
+                    <Button asChild size="sm" variant="outline">
+                      <a href={exportResult.subtitles.url} download={exportResult.subtitles.fileName}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Subtitles
+                      </a>
+                    </Button>
+                  )}
+                  {exportResult.chapters && (
+                    <Button asChild size="sm" variant="outline">
+                      <a href={exportResult.chapters.url} download={exportResult.chapters.fileName}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Chapters
+                      </a>
+                    </Button>
+                  )}
+                  <Button asChild size="sm" className="bg-green-500 hover:bg-green-500/80 text-black">
+                    <a href={exportResult.url} download={exportResult.fileName}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Download
+                    </a>
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Export Summary */}
             <div className="p-4 bg-white/5 rounded-lg border border-white/10">
               <h4 className="font-medium mb-3">Export Summary</h4>
@@ -0,0 +1,77 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { History as HistoryIcon, Undo2, Redo2 } from 'lucide-react'
+import { canRedo, canUndo, type History } from '../lib/history'
+
+interface HistoryPanelProps<T> {
+  history?: History<T>
+  onUndo: () => void
+  onRedo: () => void
+  onJump: (index: number) => void
+}
+
+const formatClock = (timestamp: number) => {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+export function HistoryPanel<T>({ history, onUndo, onRedo, onJump }: HistoryPanelProps<T>) {
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <HistoryIcon className="h-5 w-5 text-[#6366F1]" />
+            <span>History</span>
+          </span>
+          <span className="flex items-center space-x-1">
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-8 h-8 p-0"
+              disabled={!history || !canUndo(history)}
+              onClick={onUndo}
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="h-3 w-3" />
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-8 h-8 p-0"
+              disabled={!history || !canRedo(history)}
+              onClick={onRedo}
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="h-3 w-3" />
+            </Button>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!history ? (
+          <p className="text-sm text-white/60 text-center py-4">Select a project to see its history</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {/* Newest first; entries past the current one can still be redone */}
+            {history.entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+              <button
+                key={entry.id}
+                className={`w-full flex items-center justify-between text-left text-sm px-2 py-1.5 rounded transition-colors ${
+                  index === history.index
+                    ? 'bg-[#6366F1]/20 text-white'
+                    : index > history.index
+                      ? 'text-white/40 hover:bg-white/5'
+                      : 'text-white/80 hover:bg-white/5'
+                }`}
+                onClick={() => onJump(index)}
+              >
+                <span className="truncate">{entry.label}</span>
+                <span className="text-xs text-white/40 ml-2 shrink-0">{formatClock(entry.timestamp)}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
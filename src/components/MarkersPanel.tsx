@@ -0,0 +1,215 @@
+import { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import {
+  AlertTriangle,
+  BookMarked,
+  Bookmark,
+  Check,
+  ChevronDown,
+  ChevronUp,
+  Copy,
+  Crosshair,
+  Plus,
+  Trash2
+} from 'lucide-react'
+import {
+  deleteMarker,
+  formatYouTubeChapters,
+  getAdjacentMarker,
+  getChapters,
+  getYouTubeChapterIssues,
+  sortMarkers,
+  updateMarker,
+  MARKER_COLORS,
+  type Marker
+} from '../lib/markers'
+
+interface MarkersPanelProps {
+  markers: Marker[]
+  currentTime: number
+  duration: number
+  onSeek: (time: number) => void
+  onAdd?: () => void
+  onMarkersChange?: (markers: Marker[], label: string, group?: string) => void // omitted while editing is blocked
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = (seconds % 60).toFixed(1).padStart(4, '0')
+  return `${mins}:${secs}`
+}
+
+export function MarkersPanel({ markers, currentTime, duration, onSeek, onAdd, onMarkersChange }: MarkersPanelProps) {
+  const [copied, setCopied] = useState(false)
+
+  const canEdit = Boolean(onMarkersChange)
+  const sorted = sortMarkers(markers)
+  // The marker the playhead has most recently passed
+  const current = [...sorted].reverse().find(marker => marker.time <= currentTime + 0.01)
+  const chapters = getChapters(markers, duration)
+  const chapterIssues = getYouTubeChapterIssues(chapters)
+
+  const commit = (next: Marker[], label: string, group?: string) => {
+    onMarkersChange?.(next, label, group)
+  }
+
+  const handleCopyTimestamps = async () => {
+    try {
+      await navigator.clipboard.writeText(formatYouTubeChapters(chapters))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy chapters:', error)
+    }
+  }
+
+  const seekAdjacent = (direction: 1 | -1) => {
+    const marker = getAdjacentMarker(markers, currentTime, direction, 0.01)
+    if (marker) onSeek(marker.time)
+  }
+
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <Bookmark className="h-5 w-5 text-[#F59E0B]" />
+            <span>Markers</span>
+          </span>
+          <span className="flex items-center space-x-1">
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-8 h-8 p-0"
+              disabled={!getAdjacentMarker(markers, currentTime, -1, 0.01)}
+              onClick={() => seekAdjacent(-1)}
+              title="Previous marker"
+            >
+              <ChevronUp className="h-3 w-3" />
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-8 h-8 p-0"
+              disabled={!getAdjacentMarker(markers, currentTime, 1, 0.01)}
+              onClick={() => seekAdjacent(1)}
+              title="Next marker"
+            >
+              <ChevronDown className="h-3 w-3" />
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-8 h-8 p-0"
+              disabled={!canEdit || !onAdd}
+              onClick={onAdd}
+              title="Add a marker at the playhead (M)"
+            >
+              <Plus className="h-3 w-3" />
+            </Button>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sorted.length === 0 ? (
+          <p className="text-sm text-white/60 text-center py-4">Press M to mark a moment in the edit</p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto space-y-1">
+            {sorted.map(marker => (
+              <div
+                key={marker.id}
+                className={`flex items-center space-x-2 px-2 py-1 rounded ${
+                  marker.id === current?.id ? 'bg-[#6366F1]/20' : 'hover:bg-white/5'
+                }`}
+              >
+                <button
+                  className="w-3 h-3 rounded-full shrink-0 disabled:cursor-default"
+                  style={{ backgroundColor: marker.color }}
+                  disabled={!canEdit}
+                  title="Change color"
+                  onClick={() => {
+                    const color = MARKER_COLORS[(MARKER_COLORS.indexOf(marker.color) + 1) % MARKER_COLORS.length]
+                    commit(updateMarker(markers, marker.id, { color }), 'Recolor marker')
+                  }}
+                />
+                <button
+                  className={`text-xs font-mono shrink-0 ${marker.time > duration ? 'text-white/30' : 'text-white/60 hover:text-white'}`}
+                  title={marker.time > duration ? 'Past the end of the edit' : 'Go to marker'}
+                  onClick={() => onSeek(Math.min(marker.time, duration))}
+                >
+                  {formatTime(marker.time)}
+                </button>
+                <input
+                  value={marker.name}
+                  disabled={!canEdit}
+                  className="flex-1 min-w-0 bg-transparent text-sm text-white/90 border-b border-transparent focus:border-[#6366F1] focus:outline-none"
+                  // Typing into one name undoes as a single step
+                  onChange={(e) => commit(updateMarker(markers, marker.id, { name: e.target.value }), 'Rename marker', `marker-${marker.id}`)}
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className={`h-6 w-6 p-0 ${marker.chapter ? 'text-[#F59E0B]' : 'text-white/40'}`}
+                  disabled={!canEdit}
+                  title={marker.chapter ? 'Chapter start (click to make a plain marker)' : 'Make this the start of a chapter'}
+                  onClick={() => commit(
+                    updateMarker(markers, marker.id, { chapter: !marker.chapter }),
+                    marker.chapter ? 'Demote chapter to marker' : 'Promote marker to chapter'
+                  )}
+                >
+                  <BookMarked className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0 text-white/40"
+                  disabled={!canEdit}
+                  title="Move to the playhead"
+                  onClick={() => commit(updateMarker(markers, marker.id, { time: currentTime }), 'Move marker')}
+                >
+                  <Crosshair className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0 text-red-400"
+                  disabled={!canEdit}
+                  title="Delete marker"
+                  onClick={() => commit(deleteMarker(markers, marker.id), 'Delete marker')}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {chapters.length > 0 && (
+          <div className="space-y-2 pt-2 border-t border-white/10">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center space-x-2 text-sm font-medium">
+                <span>Chapters</span>
+                <Badge variant="secondary" className="bg-[#F59E0B]/20 text-[#F59E0B]">{chapters.length}</Badge>
+              </span>
+              <Button size="sm" variant="outline" className="h-7 text-xs" onClick={handleCopyTimestamps}>
+                {copied ? <Check className="h-3 w-3 mr-1" /> : <Copy className="h-3 w-3 mr-1" />}
+                {copied ? 'Copied' : 'Copy for YouTube'}
+              </Button>
+            </div>
+            <pre className="text-xs text-white/60 bg-black/30 rounded p-2 whitespace-pre-wrap max-h-32 overflow-y-auto">
+              {formatYouTubeChapters(chapters)}
+            </pre>
+            {chapterIssues.map(issue => (
+              <p key={issue} className="flex items-center text-xs text-[#F59E0B]">
+                <AlertTriangle className="h-3 w-3 mr-1 shrink-0" />
+                {issue}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
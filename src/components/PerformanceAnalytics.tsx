@@ -0,0 +1,120 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { AlertCircle, BarChart3, CheckCircle, Circle, Loader2, MinusCircle, XCircle } from 'lucide-react'
+import type { AnalysisFinding, FindingSeverity, ProjectAnalysis } from '../lib/analysis-provider'
+import type { ProcessingJob, StageStatus } from '../lib/jobs'
+
+interface PerformanceAnalyticsProps {
+  analysis?: ProjectAnalysis
+  job?: ProcessingJob // the project's latest processing run
+  duration?: number // length of the edit, seconds
+  appliedSuggestions: number
+}
+
+// Points a finding takes off a perfect 10, scaled by how sure the analysis is of it
+const SEVERITY_PENALTIES: Record<FindingSeverity, number> = {
+  info: 0.25,
+  warning: 1,
+  problem: 2
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+const getAnalyses = (analysis?: ProjectAnalysis) => {
+  return analysis ? [analysis.audio, analysis.color, analysis.motion].flatMap(result => result ? [result] : []) : []
+}
+
+const getQualityScore = (findings: AnalysisFinding[]) => {
+  const penalty = findings.reduce((total, finding) => total + SEVERITY_PENALTIES[finding.severity] * finding.confidence, 0)
+  return Math.max(0, 10 - penalty)
+}
+
+const getStageIcon = (status: StageStatus) => {
+  switch (status) {
+    case 'pending':
+      return <Circle className="h-4 w-4 text-white/30" />
+    case 'running':
+      return <Loader2 className="h-4 w-4 animate-spin text-amber-400" />
+    case 'completed':
+      return <CheckCircle className="h-4 w-4 text-green-400" />
+    case 'skipped':
+      return <MinusCircle className="h-4 w-4 text-white/40" />
+    case 'failed':
+      return <AlertCircle className="h-4 w-4 text-red-400" />
+    case 'cancelled':
+      return <XCircle className="h-4 w-4 text-white/40" />
+  }
+}
+
+export function PerformanceAnalytics({ analysis, job, duration, appliedSuggestions }: PerformanceAnalyticsProps) {
+  const analyses = getAnalyses(analysis)
+  const findings = analyses.flatMap(result => result.findings)
+  const confidence = analyses.length > 0
+    ? analyses.reduce((total, result) => total + result.confidence, 0) / analyses.length
+    : undefined
+
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <BarChart3 className="h-5 w-5 text-[#6366F1]" />
+          <span>Performance Analytics</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 gap-4">
+          <div
+            className="text-center p-4 bg-white/5 rounded-lg"
+            title={analyses.length > 0 ? `${findings.length} ${findings.length === 1 ? 'finding' : 'findings'} from the analysis` : undefined}
+          >
+            <div className="text-2xl font-bold text-[#6366F1]">
+              {analyses.length > 0 ? `${getQualityScore(findings).toFixed(1)}/10` : '--'}
+            </div>
+            <div className="text-sm text-white/60">Overall Quality</div>
+          </div>
+          <div className="text-center p-4 bg-white/5 rounded-lg">
+            <div className="text-2xl font-bold text-[#F59E0B]">
+              {confidence !== undefined ? `${Math.round(confidence * 100)}%` : '--'}
+            </div>
+            <div className="text-sm text-white/60">AI Confidence</div>
+          </div>
+          <div className="text-center p-4 bg-white/5 rounded-lg">
+            <div className="text-2xl font-bold text-green-400">
+              {duration !== undefined ? formatTime(duration) : '--:--'}
+            </div>
+            <div className="text-sm text-white/60">Final Duration</div>
+          </div>
+          <div className="text-center p-4 bg-white/5 rounded-lg">
+            <div className="text-2xl font-bold text-blue-400">{appliedSuggestions}</div>
+            <div className="text-sm text-white/60">AI Enhancements</div>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="font-medium">Processing Timeline</h4>
+          {job ? (
+            <div className="space-y-2">
+              {job.stages.map(stage => (
+                <div key={stage.type} className="flex items-center justify-between text-sm">
+                  <span className={stage.status === 'skipped' ? 'text-white/40' : 'text-white/80'}>{stage.label}</span>
+                  <div className="flex items-center space-x-2">
+                    {/* Each stage's time is counted from when the run started */}
+                    {stage.finishedAt && job.startedAt && (
+                      <span className="text-white/60">{formatTime((stage.finishedAt - job.startedAt) / 1000)}</span>
+                    )}
+                    {getStageIcon(stage.status)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-white/60">This project has not been processed yet</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,293 @@
+import { useRef } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Progress } from './ui/progress'
+import { Clock, Loader2, CheckCircle, AlertCircle, XCircle, Circle, MinusCircle, RotateCcw, Upload, Pause, Play } from 'lucide-react'
+import { getActiveStage, getJobProgress, isJobActive, type JobStatus, type ProcessingJob, type StageStatus } from '../lib/jobs'
+import { getUploadProgress, MAX_UPLOAD_ATTEMPTS, type UploadSession, type UploadStatus } from '../lib/uploads'
+import type { VideoProject } from '../lib/project-store'
+
+interface ProcessingQueueProps {
+  jobs: ProcessingJob[]
+  projects: VideoProject[]
+  onCancel: (jobId: string) => void
+  onRetry: (jobId: string) => void
+  uploads?: UploadSession[]
+  hasUploadFile?: (uploadId: string) => boolean // false once a reload has dropped the picked file
+  onPauseUpload?: (uploadId: string) => void
+  onResumeUpload?: (uploadId: string, file?: File) => void
+  onCancelUpload?: (uploadId: string) => void
+}
+
+const formatElapsed = (from?: number, to?: number) => {
+  if (!from) return ''
+  const seconds = Math.max(0, Math.round(((to ?? Date.now()) - from) / 1000))
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+const getJobStatusColor = (status: JobStatus) => {
+  switch (status) {
+    case 'queued':
+      return 'bg-blue-500/20 text-blue-400'
+    case 'running':
+      return 'bg-amber-500/20 text-amber-400'
+    case 'completed':
+      return 'bg-green-500/20 text-green-400'
+    case 'failed':
+      return 'bg-red-500/20 text-red-400'
+    case 'cancelled':
+      return 'bg-white/10 text-white/60'
+  }
+}
+
+const getUploadStatusColor = (status: UploadStatus) => {
+  switch (status) {
+    case 'queued':
+    case 'uploading':
+    case 'completed':
+      return 'bg-blue-500/20 text-blue-400'
+    case 'paused':
+      return 'bg-amber-500/20 text-amber-400'
+    case 'failed':
+      return 'bg-red-500/20 text-red-400'
+    case 'cancelled':
+      return 'bg-white/10 text-white/60'
+  }
+}
+
+const getStageIcon = (status: StageStatus) => {
+  switch (status) {
+    case 'pending':
+      return <Circle className="h-3 w-3 text-white/30" />
+    case 'running':
+      return <Loader2 className="h-3 w-3 animate-spin text-amber-400" />
+    case 'completed':
+      return <CheckCircle className="h-3 w-3 text-green-500" />
+    case 'skipped':
+      return <MinusCircle className="h-3 w-3 text-white/40" />
+    case 'failed':
+      return <AlertCircle className="h-3 w-3 text-red-500" />
+    case 'cancelled':
+      return <XCircle className="h-3 w-3 text-white/40" />
+  }
+}
+
+export function ProcessingQueue({
+  jobs,
+  projects,
+  onCancel,
+  onRetry,
+  uploads: uploadSessions = [],
+  hasUploadFile,
+  onPauseUpload,
+  onResumeUpload,
+  onCancelUpload
+}: ProcessingQueueProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // The upload waiting for its file to be chosen again
+  const pendingResumeRef = useRef<string | null>(null)
+
+  // Only the latest job per project is interesting; uploads don't have a job yet
+  const latestJobs = Array.from(
+    jobs.reduce((byProject, job) => {
+      const current = byProject.get(job.projectId)
+      if (!current || job.createdAt > current.createdAt) byProject.set(job.projectId, job)
+      return byProject
+    }, new Map<string, ProcessingJob>()).values()
+  ).sort((a, b) => b.createdAt - a.createdAt)
+  const hasJob = (projectId: string) => latestJobs.some(job => job.projectId === projectId)
+  const activeUploads = uploadSessions
+    .filter(upload => upload.status !== 'completed' && projects.some(p => p.id === upload.projectId))
+    .sort((a, b) => b.createdAt - a.createdAt)
+  // Uploads started before they were sent in parts have nothing to control
+  const uploads = projects.filter(p =>
+    p.status === 'uploading' && !hasJob(p.id) && !activeUploads.some(upload => upload.projectId === p.id)
+  )
+
+  const handleResume = (upload: UploadSession) => {
+    if (hasUploadFile?.(upload.id) ?? true) {
+      onResumeUpload?.(upload.id)
+      return
+    }
+    pendingResumeRef.current = upload.id
+    fileInputRef.current?.click()
+  }
+
+  const handleFileChosen = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (file && pendingResumeRef.current) onResumeUpload?.(pendingResumeRef.current, file)
+    pendingResumeRef.current = null
+  }
+
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Clock className="h-5 w-5 text-[#6366F1]" />
+          <span>Processing Queue</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input ref={fileInputRef} type="file" accept="video/*,.mp4,.mov,.avi,.mkv,.webm" className="hidden" onChange={handleFileChosen} />
+
+        {latestJobs.length === 0 && uploads.length === 0 && activeUploads.length === 0 && (
+          <p className="text-sm text-white/60 text-center py-4">No videos are being uploaded or processed</p>
+        )}
+
+        {activeUploads.map((upload) => {
+          const project = projects.find(p => p.id === upload.projectId)
+          const progress = Math.round(getUploadProgress(upload) * 100)
+          const uploadedParts = upload.parts.filter(Boolean).length
+          const canResume = upload.status === 'paused' || upload.status === 'failed' || upload.status === 'cancelled'
+
+          return (
+            <div key={upload.id} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Upload className={`h-4 w-4 ${upload.status === 'uploading' ? 'animate-pulse' : 'text-white/40'}`} />
+                  <span className="text-sm font-medium truncate max-w-[150px]" title={upload.sourceId ? `Clip for ${project?.name}` : undefined}>
+                    {upload.sourceId ? upload.fileName : project?.name ?? upload.fileName}
+                  </span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge variant="secondary" className={`text-xs ${getUploadStatusColor(upload.status)}`}>
+                    {upload.status}
+                  </Badge>
+                  {(upload.status === 'uploading' || upload.status === 'queued') && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="w-6 h-6 p-0"
+                      title="Pause"
+                      onClick={() => onPauseUpload?.(upload.id)}
+                    >
+                      <Pause className="h-3 w-3" />
+                    </Button>
+                  )}
+                  {canResume && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="w-6 h-6 p-0"
+                      title={upload.status === 'paused' ? 'Resume' : upload.status === 'failed' ? 'Retry from the last uploaded part' : 'Upload again'}
+                      onClick={() => handleResume(upload)}
+                    >
+                      {upload.status === 'paused' ? <Play className="h-3 w-3" /> : <RotateCcw className="h-3 w-3" />}
+                    </Button>
+                  )}
+                  {upload.status !== 'cancelled' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="w-6 h-6 p-0"
+                      title="Cancel"
+                      onClick={() => onCancelUpload?.(upload.id)}
+                    >
+                      <XCircle className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <Progress value={progress} className="h-2" />
+              <div className="flex justify-between text-xs text-white/60">
+                <span>
+                  {progress}% • {uploadedParts} of {upload.parts.length} parts
+                  {upload.retryAt && ` • retrying (attempt ${upload.attempts + 1} of ${MAX_UPLOAD_ATTEMPTS})`}
+                </span>
+                {upload.status === 'paused' && !(hasUploadFile?.(upload.id) ?? true) && (
+                  <span className="text-amber-400">Choose the file to resume</span>
+                )}
+              </div>
+              {upload.error && upload.status !== 'uploading' && (
+                <p className="text-xs text-red-400">{upload.error}</p>
+              )}
+            </div>
+          )
+        })}
+
+        {uploads.map((project) => (
+          <div key={project.id} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Upload className="h-4 w-4 animate-pulse" />
+                <span className="text-sm font-medium truncate max-w-[150px]">{project.name}</span>
+              </div>
+              <Badge variant="secondary" className="text-xs bg-blue-500/20 text-blue-400">
+                uploading
+              </Badge>
+            </div>
+            <Progress value={project.progress} className="h-2" />
+          </div>
+        ))}
+
+        {latestJobs.map((job) => {
+          const project = projects.find(p => p.id === job.projectId)
+          const progress = Math.round(getJobProgress(job) * 100)
+          const activeStage = getActiveStage(job)
+
+          return (
+            <div key={job.id} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium truncate max-w-[150px]">
+                  {project?.name ?? 'Deleted project'}
+                </span>
+                <div className="flex items-center space-x-2">
+                  <Badge variant="secondary" className={`text-xs ${getJobStatusColor(job.status)}`}>
+                    {job.status}
+                  </Badge>
+                  {isJobActive(job) ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="w-6 h-6 p-0"
+                      title="Cancel"
+                      onClick={() => onCancel(job.id)}
+                    >
+                      <XCircle className="h-3 w-3" />
+                    </Button>
+                  ) : (job.status === 'failed' || job.status === 'cancelled') && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="w-6 h-6 p-0"
+                      title="Retry from the failed stage"
+                      onClick={() => onRetry(job.id)}
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <Progress value={progress} className="h-2" />
+              <div className="flex justify-between text-xs text-white/60">
+                <span>{progress}%{activeStage && ` • ${activeStage.label}`}</span>
+                <span>{formatElapsed(job.startedAt, job.finishedAt)}</span>
+              </div>
+
+              <div className="space-y-1 pl-1">
+                {job.stages.map((stage) => (
+                  <div key={stage.type} className="flex items-center justify-between text-xs">
+                    <span className="flex items-center space-x-2 text-white/70">
+                      {getStageIcon(stage.status)}
+                      <span>{stage.label}</span>
+                      {stage.status === 'running' && stage.progress > 0 && (
+                        <span className="text-white/40">{Math.round(stage.progress * 100)}%</span>
+                      )}
+                    </span>
+                    <span className="text-white/40">{formatElapsed(stage.startedAt, stage.finishedAt)}</span>
+                  </div>
+                ))}
+              </div>
+
+              {job.error && (
+                <p className="text-xs text-red-400">{job.error}</p>
+              )}
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
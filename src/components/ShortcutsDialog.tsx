@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Keyboard, RotateCcw } from 'lucide-react'
+import {
+  bindShortcut,
+  formatKeyCombo,
+  getKeyCombo,
+  getShortcutAction,
+  isReservedCombo,
+  DEFAULT_SHORTCUTS,
+  SHORTCUTS,
+  type ShortcutAction,
+  type ShortcutBindings
+} from '../lib/shortcuts'
+
+interface ShortcutsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bindings: ShortcutBindings
+  onBindingsChange: (bindings: ShortcutBindings) => void
+}
+
+const GROUPS = ['Playback', 'Navigation', 'Editing'] as const
+
+export function ShortcutsDialog({ open, onOpenChange, bindings, onBindingsChange }: ShortcutsDialogProps) {
+  // The action waiting for its new key, if any
+  const [recording, setRecording] = useState<ShortcutAction | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const bindingsRef = useRef(bindings)
+  bindingsRef.current = bindings
+  const onBindingsChangeRef = useRef(onBindingsChange)
+  onBindingsChangeRef.current = onBindingsChange
+
+  useEffect(() => {
+    if (!recording) return
+
+    // Captured ahead of everything else so the key being recorded doesn't also do its usual job
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault()
+      event.stopImmediatePropagation()
+
+      if (event.key === 'Escape') {
+        setRecording(null)
+        return
+      }
+      if (event.key === 'Backspace') {
+        onBindingsChangeRef.current(bindShortcut(bindingsRef.current, recording, null))
+        setRecording(null)
+        return
+      }
+
+      const combo = getKeyCombo(event)
+      if (!combo) return
+      if (isReservedCombo(combo)) {
+        setNotice(`${combo} is kept for undo and redo`)
+        return
+      }
+
+      const current = bindingsRef.current
+      const previous = getShortcutAction(current, combo)
+      setNotice(previous && previous !== recording
+        ? `${formatKeyCombo(combo)} was taken from "${SHORTCUTS.find(s => s.action === previous)?.label}", which is now unbound`
+        : null)
+      onBindingsChangeRef.current(bindShortcut(current, recording, combo))
+      setRecording(null)
+    }
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true })
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true })
+  }, [recording])
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setRecording(null)
+      setNotice(null)
+    }
+    onOpenChange(next)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-[#0F0F23] border-white/10 text-white max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Keyboard className="h-5 w-5 text-[#6366F1]" />
+            <span>Keyboard Shortcuts</span>
+          </DialogTitle>
+          <DialogDescription className="text-white/60">
+            Click a key to change it, then press the new combination. Backspace leaves it unbound, Escape cancels.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-4 pr-1">
+          {GROUPS.map(group => (
+            <div key={group} className="space-y-1">
+              <h4 className="text-xs uppercase tracking-wide text-white/40">{group}</h4>
+              {SHORTCUTS.filter(shortcut => shortcut.group === group).map(shortcut => (
+                <div key={shortcut.action} className="flex items-center justify-between py-1">
+                  <span className="text-sm text-white/80">{shortcut.label}</span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className={`h-7 min-w-[96px] font-mono text-xs ${
+                      recording === shortcut.action ? 'border-[#6366F1] text-[#6366F1]' : ''
+                    } ${bindings[shortcut.action] ? '' : 'text-white/40'}`}
+                    onClick={() => setRecording(recording === shortcut.action ? null : shortcut.action)}
+                  >
+                    {recording === shortcut.action ? 'Press a key...' : formatKeyCombo(bindings[shortcut.action])}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        {notice && <p className="text-xs text-[#F59E0B]">{notice}</p>}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              onBindingsChange(DEFAULT_SHORTCUTS)
+              setNotice(null)
+            }}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to Defaults
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,113 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Slider } from './ui/slider'
+import { Badge } from './ui/badge'
+import { VolumeX, Scissors, Loader2 } from 'lucide-react'
+import { getRangesDuration, type TimeRange } from '../lib/timeline'
+import type { SilenceDetectionOptions } from '../lib/silence-detection'
+
+interface SilenceRemovalPanelProps {
+  proposals: TimeRange[]
+  options: SilenceDetectionOptions
+  onOptionsChange: (options: SilenceDetectionOptions) => void
+  onApply: () => void
+  isAnalyzing?: boolean
+  hasAudio: boolean
+}
+
+export function SilenceRemovalPanel({
+  proposals,
+  options,
+  onOptionsChange,
+  onApply,
+  isAnalyzing = false,
+  hasAudio
+}: SilenceRemovalPanelProps) {
+  const removableSeconds = getRangesDuration(proposals)
+
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <VolumeX className="h-5 w-5 text-[#6366F1]" />
+            <span>Silence Removal</span>
+          </span>
+          {proposals.length > 0 && (
+            <Badge variant="secondary" className="bg-red-500/20 text-red-400">
+              {proposals.length} found
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <label className="font-medium">Silence threshold</label>
+            <span className="text-white/60">{options.thresholdDb} dB</span>
+          </div>
+          <Slider
+            value={[options.thresholdDb]}
+            min={-70}
+            max={-20}
+            step={1}
+            onValueChange={(value) => onOptionsChange({ ...options, thresholdDb: value[0] })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <label className="font-medium">Minimum duration</label>
+            <span className="text-white/60">{options.minDuration.toFixed(1)}s</span>
+          </div>
+          <Slider
+            value={[options.minDuration]}
+            min={0.2}
+            max={3}
+            step={0.1}
+            onValueChange={(value) => onOptionsChange({ ...options, minDuration: value[0] })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <label className="font-medium">Padding</label>
+            <span className="text-white/60">{Math.round(options.padding * 1000)} ms</span>
+          </div>
+          <Slider
+            value={[options.padding]}
+            min={0}
+            max={0.5}
+            step={0.05}
+            onValueChange={(value) => onOptionsChange({ ...options, padding: value[0] })}
+          />
+        </div>
+
+        <div className="text-xs text-white/60">
+          {isAnalyzing ? (
+            <span className="flex items-center space-x-2">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              <span>Analyzing audio...</span>
+            </span>
+          ) : !hasAudio ? (
+            'Load a video with audio to find silent stretches'
+          ) : proposals.length === 0 ? (
+            'No silent stretches at these settings'
+          ) : (
+            `${proposals.length} silent stretches totalling ${removableSeconds.toFixed(1)}s are marked on the timeline`
+          )}
+        </div>
+
+        <Button
+          className="w-full bg-[#6366F1] hover:bg-[#6366F1]/80"
+          size="sm"
+          disabled={proposals.length === 0}
+          onClick={onApply}
+        >
+          <Scissors className="h-4 w-4 mr-2" />
+          Apply: Remove {proposals.length} Silent Stretches
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,319 @@
+import { useRef, useState, type ReactNode } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Captions, Plus, Upload, Sparkles, Trash2, AlertTriangle } from 'lucide-react'
+import {
+  checkCues,
+  createCue,
+  deleteCue,
+  detectSubtitleFormat,
+  moveCue,
+  parseSubtitles,
+  updateCue,
+  wrapText,
+  type SubtitleCue
+} from '../lib/subtitles'
+
+interface SubtitleLaneProps {
+  cues: SubtitleCue[]
+  duration: number // seconds of timeline there are to place cues in
+  viewStart?: number // the part of the timeline on screen, matching the lanes above
+  viewDuration?: number
+  snap?: (time: number) => number
+  currentTime: number
+  onTimeChange: (time: number) => void
+  onCuesChange?: (cues: SubtitleCue[], label: string, group?: string) => void
+  onGenerate?: () => void // builds cues from the transcript, when there is one
+  onImportError?: (message: string) => void
+  trackHeader?: ReactNode // controls shown beside the lane, lining it up with the tracks above
+  height?: number
+  muted?: boolean
+}
+
+type CueDragMode = 'move' | 'start' | 'end'
+
+const NEW_CUE_LENGTH = 2
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = (seconds % 60).toFixed(1).padStart(4, '0')
+  return `${mins}:${secs}`
+}
+
+export function SubtitleLane({
+  cues,
+  duration,
+  viewStart = 0,
+  viewDuration = duration,
+  currentTime,
+  onTimeChange,
+  onCuesChange,
+  onGenerate,
+  onImportError,
+  snap,
+  trackHeader,
+  height,
+  muted = false
+}: SubtitleLaneProps) {
+  const [selectedCueId, setSelectedCueId] = useState<string | null>(null)
+  const [drag, setDrag] = useState<{ cueId: string, mode: CueDragMode, offset: number, time: number } | null>(null)
+  const laneRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const canEdit = Boolean(onCuesChange)
+
+  const getDraggedCues = () => {
+    if (!drag) return cues
+
+    const cue = cues.find(c => c.id === drag.cueId)
+    if (!cue) return cues
+    if (drag.mode === 'move') return moveCue(cues, drag.cueId, drag.time - drag.offset)
+    return updateCue(cues, drag.cueId, drag.mode === 'start' ? { start: Math.min(drag.time, cue.end) } : { end: drag.time })
+  }
+  // While a cue is being dragged the change is previewed without committing it
+  const displayCues = getDraggedCues()
+  const issues = checkCues(displayCues)
+  const selectedCue = displayCues.find(cue => cue.id === selectedCueId)
+  const selectedIssues = issues.filter(issue => issue.cueId === selectedCueId)
+
+  const toPercent = (time: number) => (viewDuration > 0 ? ((time - viewStart) / viewDuration) * 100 : 0)
+  const toWidth = (seconds: number) => (viewDuration > 0 ? (seconds / viewDuration) * 100 : 0)
+
+  const getTimeAt = (clientX: number) => {
+    if (!laneRef.current) return 0
+
+    const rect = laneRef.current.getBoundingClientRect()
+    return Math.max(0, Math.min(duration, viewStart + ((clientX - rect.left) / rect.width) * viewDuration))
+  }
+
+  const commit = (next: SubtitleCue[], label: string, group?: string) => {
+    if (next !== cues) onCuesChange?.(next, label, group)
+  }
+
+  const handleDragStart = (event: React.PointerEvent, cue: SubtitleCue, mode: CueDragMode) => {
+    event.stopPropagation()
+    setSelectedCueId(cue.id)
+    if (!canEdit) {
+      onTimeChange(cue.start)
+      return
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId)
+    const time = getTimeAt(event.clientX)
+    setDrag({ cueId: cue.id, mode, offset: time - cue.start, time })
+  }
+
+  const handleDragMove = (event: React.PointerEvent) => {
+    if (!drag) return
+
+    // A moved cue snaps by its start, a retimed one by the edge being dragged
+    const time = getTimeAt(event.clientX)
+    const offset = drag.mode === 'move' ? drag.offset : 0
+    setDrag({ ...drag, time: snap ? snap(time - offset) + offset : time })
+  }
+
+  const handleDragEnd = () => {
+    if (!drag) return
+
+    const cue = cues.find(c => c.id === drag.cueId)
+    const moved = displayCues.find(c => c.id === drag.cueId)
+    if (cue && moved && (moved.start !== cue.start || moved.end !== cue.end)) {
+      commit(displayCues, drag.mode === 'move' ? 'Move subtitle' : 'Retime subtitle')
+    } else if (cue) {
+      // A click without movement just jumps to the cue
+      onTimeChange(cue.start)
+    }
+    setDrag(null)
+  }
+
+  const handleAddCue = () => {
+    const start = Math.min(currentTime, Math.max(0, duration - NEW_CUE_LENGTH))
+    const cue = createCue(start, start + NEW_CUE_LENGTH, 'New subtitle')
+    commit([...cues, cue], 'Add subtitle')
+    setSelectedCueId(cue.id)
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const content = await file.text()
+      const imported = parseSubtitles(content)
+      if (imported.length === 0) {
+        onImportError?.(`${file.name} has no ${detectSubtitleFormat(content, file.name).toUpperCase()} cues in it`)
+        return
+      }
+      commit(imported, `Import ${file.name}`)
+      setSelectedCueId(null)
+    } catch (error) {
+      console.error('Failed to import subtitles:', error)
+      onImportError?.(`Could not read ${file.name}`)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-sm text-white/80">
+          <Captions className="h-4 w-4 text-[#6366F1]" />
+          <span>Subtitles</span>
+          {cues.length > 0 && <span className="text-xs text-white/40">{cues.length} cues</span>}
+          {issues.length > 0 && (
+            <Badge variant="secondary" className="bg-red-500/20 text-red-400 text-xs">
+              {issues.length} {issues.length === 1 ? 'issue' : 'issues'}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center space-x-1">
+          {onGenerate && (
+            <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" disabled={!canEdit} onClick={onGenerate}>
+              <Sparkles className="h-3 w-3 mr-1" />
+              From Transcript
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 px-2 text-xs"
+            disabled={!canEdit}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-3 w-3 mr-1" />
+            Import
+          </Button>
+          <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" disabled={!canEdit} onClick={handleAddCue}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".srt,.vtt" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      {/* Cue lane */}
+      <div className="flex items-stretch space-x-2">
+        {trackHeader}
+        <div
+          ref={laneRef}
+          className={`relative flex-1 bg-black/30 rounded-lg overflow-hidden cursor-pointer ${height ? '' : 'h-8'} ${muted ? 'opacity-50' : ''}`}
+          style={height ? { height } : undefined}
+          onClick={(e) => {
+            setSelectedCueId(null)
+            onTimeChange(getTimeAt(e.clientX))
+          }}
+        >
+          {displayCues.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center text-xs text-white/40">
+              No subtitles yet
+            </div>
+          )}
+
+          {displayCues.map(cue => {
+            const hasIssues = issues.some(issue => issue.cueId === cue.id)
+            return (
+              <div
+                key={cue.id}
+                className={`absolute top-1 bottom-1 rounded border text-[10px] leading-6 px-1 truncate select-none ${
+                  hasIssues ? 'bg-red-500/20 border-red-500/60' : 'bg-[#6366F1]/25 border-[#6366F1]/60'
+                } ${selectedCueId === cue.id ? 'ring-2 ring-white/50' : ''} ${canEdit ? 'cursor-grab' : 'cursor-pointer'}`}
+                style={{ left: `${toPercent(cue.start)}%`, width: `${toWidth(cue.end - cue.start)}%` }}
+                onPointerDown={(e) => handleDragStart(e, cue, 'move')}
+                onPointerMove={handleDragMove}
+                onPointerUp={handleDragEnd}
+                onPointerCancel={() => setDrag(null)}
+                onClick={(e) => e.stopPropagation()}
+                title={cue.text}
+              >
+                {cue.text.replace(/\n/g, ' ')}
+
+                {/* Retiming handles */}
+                {canEdit && (['start', 'end'] as const).map(edge => (
+                  <div
+                    key={edge}
+                    className={`absolute top-0 bottom-0 w-1.5 cursor-ew-resize bg-[#6366F1]/60 hover:bg-[#6366F1] ${
+                      edge === 'start' ? 'left-0' : 'right-0'
+                    }`}
+                    // Moves and releases bubble up to the cue itself
+                    onPointerDown={(e) => handleDragStart(e, cue, edge)}
+                  />
+                ))}
+              </div>
+            )
+          })}
+
+          <div
+            className="absolute top-0 bottom-0 w-0.5 bg-[#F59E0B] z-20 pointer-events-none"
+            style={{ left: `${toPercent(currentTime)}%` }}
+          />
+        </div>
+      </div>
+
+      {/* Cue editor */}
+      {selectedCue && (
+        <div className="p-3 bg-white/5 rounded-lg border border-white/10 space-y-2">
+          <div className="flex items-center justify-between text-xs text-white/60">
+            <span className="font-mono">
+              {formatTime(selectedCue.start)} – {formatTime(selectedCue.end)}
+              {selectedCue.speaker && <span className="ml-2 text-[#6366F1]">{selectedCue.speaker}</span>}
+            </span>
+            <div className="flex items-center space-x-1">
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 px-2 text-xs"
+                disabled={!canEdit}
+                onClick={() => commit(updateCue(cues, selectedCue.id, { start: Math.min(currentTime, selectedCue.end) }), 'Set subtitle start')}
+              >
+                Start at Playhead
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 px-2 text-xs"
+                disabled={!canEdit}
+                onClick={() => commit(updateCue(cues, selectedCue.id, { end: currentTime }), 'Set subtitle end')}
+              >
+                End at Playhead
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 px-2 text-xs"
+                disabled={!canEdit}
+                onClick={() => commit(updateCue(cues, selectedCue.id, { text: wrapText(selectedCue.text) }), 'Rewrap subtitle')}
+              >
+                Rewrap
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 px-2 text-xs text-red-400"
+                disabled={!canEdit}
+                onClick={() => {
+                  commit(deleteCue(cues, selectedCue.id), 'Delete subtitle')
+                  setSelectedCueId(null)
+                }}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+          <textarea
+            value={selectedCue.text}
+            rows={2}
+            disabled={!canEdit}
+            className="w-full bg-black/30 border border-white/10 rounded p-2 text-sm font-mono resize-none focus:outline-none focus:border-[#6366F1]"
+            // Typing into one cue undoes as a single step
+            onChange={(e) => commit(updateCue(cues, selectedCue.id, { text: e.target.value }), 'Edit subtitle text', `subtitle-${selectedCue.id}`)}
+          />
+          {selectedIssues.map(issue => (
+            <p key={issue.kind} className="flex items-center text-xs text-red-400">
+              <AlertTriangle className="h-3 w-3 mr-1 shrink-0" />
+              {issue.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
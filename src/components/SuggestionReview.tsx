@@ -0,0 +1,124 @@
+import { useEffect, useRef } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Check, ChevronLeft, ChevronRight, ListChecks, X } from 'lucide-react'
+import type { AISuggestion } from '../lib/suggestions'
+
+interface SuggestionReviewProps {
+  suggestion: AISuggestion
+  position: number // 1-based place in the queue
+  total: number
+  changes: string[]
+  threshold: number // confidence this suggestion's type currently needs to be shown
+  onAccept: () => void
+  onReject: () => void
+  onNext: () => void
+  onPrevious: () => void
+  onExit: () => void
+}
+
+const isTyping = (target: EventTarget | null) => {
+  return target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+}
+
+export function SuggestionReview({
+  suggestion,
+  position,
+  total,
+  changes,
+  threshold,
+  onAccept,
+  onReject,
+  onNext,
+  onPrevious,
+  onExit
+}: SuggestionReviewProps) {
+  const handlersRef = useRef({ onAccept, onReject, onNext, onPrevious, onExit })
+  handlersRef.current = { onAccept, onReject, onNext, onPrevious, onExit }
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isTyping(event.target)) return
+
+      const handlers = handlersRef.current
+      const action = {
+        a: handlers.onAccept,
+        Enter: handlers.onAccept,
+        r: handlers.onReject,
+        Delete: handlers.onReject,
+        Backspace: handlers.onReject,
+        ArrowRight: handlers.onNext,
+        n: handlers.onNext,
+        ArrowLeft: handlers.onPrevious,
+        p: handlers.onPrevious,
+        Escape: handlers.onExit
+      }[event.key]
+      if (!action) return
+
+      // Review keys win over the editor's own shortcuts while the queue is open
+      event.preventDefault()
+      event.stopImmediatePropagation()
+      action()
+    }
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true })
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true })
+  }, [])
+
+  return (
+    <Card className="bg-white/5 border-[#F59E0B]/40">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <ListChecks className="h-5 w-5 text-[#F59E0B]" />
+            <span>Review Suggestions</span>
+          </span>
+          <span className="text-sm font-normal text-white/60">{position} of {total}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium">{suggestion.title}</p>
+          <Badge variant="secondary" className="text-xs" title={`Shown from ${Math.round(threshold * 100)}% confidence`}>
+            {Math.round(suggestion.confidence * 100)}%
+          </Badge>
+        </div>
+        <p className="text-xs text-white/70">{suggestion.description}</p>
+
+        {changes.length > 0 ? (
+          <ul className="text-xs text-white/60 space-y-1 list-disc pl-4">
+            {changes.map((change, index) => (
+              <li key={index}>{change}</li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-white/40">The edit already covers this suggestion.</p>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <Button size="sm" className="flex-1 bg-green-600 hover:bg-green-600/80" onClick={onAccept}>
+            <Check className="h-3 w-3 mr-1" />
+            Accept
+          </Button>
+          <Button size="sm" variant="outline" className="flex-1" onClick={onReject}>
+            <X className="h-3 w-3 mr-1" />
+            Reject
+          </Button>
+        </div>
+        <div className="flex items-center justify-between">
+          <Button size="sm" variant="ghost" className="h-7 px-2" disabled={position <= 1} onClick={onPrevious}>
+            <ChevronLeft className="h-3 w-3" />
+          </Button>
+          <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={onExit}>
+            Exit Review
+          </Button>
+          <Button size="sm" variant="ghost" className="h-7 px-2" disabled={position >= total} onClick={onNext}>
+            <ChevronRight className="h-3 w-3" />
+          </Button>
+        </div>
+        <p className="text-xs text-white/40 text-center">A accept • R reject • ←/→ move • Esc exit</p>
+      </CardContent>
+    </Card>
+  )
+}
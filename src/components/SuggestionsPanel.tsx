@@ -0,0 +1,158 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { ListChecks, Sparkles } from 'lucide-react'
+import type { AISuggestion, SuggestionStatus } from '../lib/suggestions'
+
+interface SuggestionsPanelProps {
+  suggestions: AISuggestion[]
+  statuses: Record<string, SuggestionStatus>
+  // The suggestion whose changes are showing in the player and timeline, if any
+  preview: { suggestionId: string, changes: string[] } | null
+  onPreview: (suggestion: AISuggestion) => void
+  onCancelPreview: () => void
+  onApply: (suggestion: AISuggestion) => void
+  onDismiss: (suggestion: AISuggestion) => void
+  onRestore: (suggestion: AISuggestion) => void
+  onRevert: (suggestion: AISuggestion) => void
+  hiddenCount?: number // suggestions held back by the user's feedback
+  onStartReview?: () => void
+}
+
+const getColorClass = (type: string) => {
+  switch (type) {
+    case 'scene_detection':
+      return { bg: 'bg-[#6366F1]/10', border: 'border-[#6366F1]/20', text: 'text-[#6366F1]' }
+    case 'audio_sync':
+      return { bg: 'bg-[#F59E0B]/10', border: 'border-[#F59E0B]/20', text: 'text-[#F59E0B]' }
+    case 'quality_enhancement':
+      return { bg: 'bg-green-500/10', border: 'border-green-500/20', text: 'text-green-400' }
+    default:
+      return { bg: 'bg-white/5', border: 'border-white/10', text: 'text-white' }
+  }
+}
+
+const getStatusColor = (status: SuggestionStatus) => {
+  switch (status) {
+    case 'applied':
+      return 'bg-green-500/20 text-green-400'
+    case 'dismissed':
+      return 'bg-white/10 text-white/60'
+    case 'reverted':
+      return 'bg-amber-500/20 text-amber-400'
+  }
+}
+
+export function SuggestionsPanel({
+  suggestions,
+  statuses,
+  preview,
+  onPreview,
+  onCancelPreview,
+  onApply,
+  onDismiss,
+  onRestore,
+  onRevert,
+  hiddenCount = 0,
+  onStartReview
+}: SuggestionsPanelProps) {
+  const pendingCount = suggestions.filter(suggestion => !statuses[suggestion.id]).length
+
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Sparkles className="h-5 w-5 text-[#F59E0B]" />
+          <span>AI Suggestions</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {suggestions.length === 0 && (
+          <div className="text-center py-6">
+            <Sparkles className="h-8 w-8 text-white/20 mx-auto mb-2" />
+            <p className="text-sm text-white/60">Complete a video to see AI suggestions</p>
+          </div>
+        )}
+
+        {onStartReview && pendingCount > 0 && (
+          <Button size="sm" className="w-full bg-[#F59E0B] hover:bg-[#F59E0B]/80 text-black" onClick={onStartReview}>
+            <ListChecks className="h-4 w-4 mr-2" />
+            Review {pendingCount} {pendingCount === 1 ? 'Suggestion' : 'Suggestions'}
+          </Button>
+        )}
+
+        {suggestions.map((suggestion) => {
+          const colors = getColorClass(suggestion.type)
+          const status = statuses[suggestion.id]
+          const isPreviewing = preview?.suggestionId === suggestion.id
+
+          return (
+            <div
+              key={suggestion.id}
+              className={`p-3 ${colors.bg} border ${colors.border} rounded-lg ${status === 'dismissed' ? 'opacity-50' : ''}`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <p className={`text-sm font-medium ${colors.text}`}>{suggestion.title}</p>
+                <div className="flex items-center space-x-1">
+                  {status && (
+                    <Badge variant="secondary" className={`text-xs ${getStatusColor(status)}`}>
+                      {status}
+                    </Badge>
+                  )}
+                  <Badge variant="secondary" className="text-xs">
+                    {Math.round(suggestion.confidence * 100)}%
+                  </Badge>
+                </div>
+              </div>
+              <p className="text-xs text-white/70 mb-2">{suggestion.description}</p>
+
+              {isPreviewing && (
+                <ul className="text-xs text-white/60 mb-2 space-y-1 list-disc pl-4">
+                  {preview.changes.map((change, index) => (
+                    <li key={index}>{change}</li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex items-center space-x-2">
+                {status === 'applied' ? (
+                  <Button size="sm" variant="outline" className="text-xs h-6 px-2" onClick={() => onRevert(suggestion)}>
+                    Revert
+                  </Button>
+                ) : status === 'dismissed' ? (
+                  <Button size="sm" variant="outline" className="text-xs h-6 px-2" onClick={() => onRestore(suggestion)}>
+                    Restore
+                  </Button>
+                ) : isPreviewing ? (
+                  <>
+                    <Button size="sm" className="text-xs h-6 px-2" onClick={() => onApply(suggestion)}>
+                      Apply
+                    </Button>
+                    <Button size="sm" variant="outline" className="text-xs h-6 px-2" onClick={onCancelPreview}>
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button size="sm" variant="outline" className="text-xs h-6 px-2" onClick={() => onPreview(suggestion)}>
+                      {status === 'reverted' ? 'Preview Again' : 'Preview Fix'}
+                    </Button>
+                    <Button size="sm" variant="ghost" className="text-xs h-6 px-2" onClick={() => onDismiss(suggestion)}>
+                      Dismiss
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          )
+        })}
+
+        {hiddenCount > 0 && (
+          <p className="text-xs text-white/40 text-center">
+            {hiddenCount} hidden based on your feedback
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,100 @@
+import { Button } from './ui/button'
+import { Volume2, VolumeX, Eye, EyeOff, Headphones, Lock, Unlock, ChevronsUpDown, X } from 'lucide-react'
+import { TRACK_HEIGHTS, getTrackHeight, type Track } from '../lib/edl'
+
+type TrackChanges = Partial<Pick<Track, 'muted' | 'locked' | 'solo' | 'height'>>
+
+interface TrackHeaderProps {
+  track: Track
+  active: boolean // false when muted, or silenced by another track's solo
+  exportOnly?: boolean // the preview doesn't play it; only the export does
+  onChange?: (changes: TrackChanges, label: string) => void
+  onRemove?: () => void
+}
+
+export function TrackHeader({ track, active, exportOnly, onChange, onRemove }: TrackHeaderProps) {
+  const height = getTrackHeight(track)
+  const nextHeight = TRACK_HEIGHTS[(TRACK_HEIGHTS.indexOf(height) + 1) % TRACK_HEIGHTS.length]
+  const isSubtitle = track.kind === 'subtitle'
+  const disabled = !onChange
+
+  const toggleClass = (on: boolean, color: string) => `h-6 w-6 p-0 ${on ? color : 'text-white/50'}`
+
+  return (
+    <div
+      className="w-36 shrink-0 flex items-center justify-between px-2 bg-white/5 rounded-lg"
+      style={{ height }}
+    >
+      <div className="flex items-center space-x-1 min-w-0">
+        <span className={`text-xs font-mono truncate ${active ? 'text-white/80' : 'text-white/30'}`}>{track.name}</span>
+        {exportOnly && (
+          <span
+            className="shrink-0 rounded bg-white/10 px-1 text-[10px] text-white/50"
+            title="The preview plays the primary video track only. This track, and its mute, solo and clips, show up in the export."
+          >
+            Export
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center">
+        <Button
+          size="sm"
+          variant="ghost"
+          className={toggleClass(track.muted, 'text-red-400')}
+          disabled={disabled}
+          title={isSubtitle ? (track.muted ? 'Show captions' : 'Hide captions') : (track.muted ? 'Unmute' : 'Mute')}
+          onClick={() => onChange?.({ muted: !track.muted }, `${track.muted ? 'Unmute' : 'Mute'} ${track.name}`)}
+        >
+          {isSubtitle
+            ? (track.muted ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />)
+            : (track.muted ? <VolumeX className="h-3 w-3" /> : <Volume2 className="h-3 w-3" />)}
+        </Button>
+        {!isSubtitle && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className={toggleClass(Boolean(track.solo), 'text-[#F59E0B]')}
+            disabled={disabled}
+            title={track.solo ? 'Unsolo' : 'Solo: hear only soloed tracks'}
+            onClick={() => onChange?.({ solo: !track.solo }, `${track.solo ? 'Unsolo' : 'Solo'} ${track.name}`)}
+          >
+            <Headphones className="h-3 w-3" />
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="ghost"
+          className={toggleClass(track.locked, 'text-[#6366F1]')}
+          disabled={disabled}
+          title={track.locked ? 'Unlock' : 'Lock: stop edits to this track'}
+          onClick={() => onChange?.({ locked: !track.locked }, `${track.locked ? 'Unlock' : 'Lock'} ${track.name}`)}
+        >
+          {track.locked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className={toggleClass(false, '')}
+          disabled={disabled}
+          title="Track height"
+          onClick={() => onChange?.({ height: nextHeight }, `Resize ${track.name}`)}
+        >
+          <ChevronsUpDown className="h-3 w-3" />
+        </Button>
+        {onRemove && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className={toggleClass(false, '')}
+            disabled={disabled}
+            title="Remove this empty track"
+            onClick={onRemove}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
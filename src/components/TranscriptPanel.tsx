@@ -0,0 +1,195 @@
+import { useMemo, useRef } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { FileText, Trash2, Eraser } from 'lucide-react'
+import { findFillerWords, getSelectedIndices, type WordSelection } from '../lib/transcript-editing'
+import type { TimeRange } from '../lib/timeline'
+import type { Transcript } from '../lib/transcript'
+
+interface TranscriptPanelProps {
+  transcript?: Transcript
+  placements: (TimeRange | null)[] // per word, in timeline time; null once the word is cut
+  currentTime: number
+  selection: WordSelection | null
+  onSelectionChange: (selection: WordSelection | null) => void
+  onSeek: (time: number) => void
+  onRemoveWords: (indices: number[], label: string) => void
+  canEdit: boolean
+  statusMessage?: string
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+export function TranscriptPanel({
+  transcript,
+  placements,
+  currentTime,
+  selection,
+  onSelectionChange,
+  onSeek,
+  onRemoveWords,
+  canEdit,
+  statusMessage
+}: TranscriptPanelProps) {
+  // Where the last plain click landed; Shift+click extends from here
+  const anchorRef = useRef<number | null>(null)
+
+  const words = useMemo(() => transcript?.segments.flatMap(segment => segment.words) ?? [], [transcript])
+  const fillers = useMemo(() => findFillerWords(words), [words])
+  // Each segment's first index in the flat word list
+  const segmentOffsets = useMemo(() => {
+    let offset = 0
+    return (transcript?.segments ?? []).map(segment => {
+      const start = offset
+      offset += segment.words.length
+      return start
+    })
+  }, [transcript])
+
+  const fillerSet = new Set(fillers)
+  const remainingFillers = fillers.filter(index => placements[index])
+  const selectedIndices = selection ? getSelectedIndices(selection) : []
+  const selectedSet = new Set(selectedIndices)
+  const removableSelection = selectedIndices.filter(index => placements[index])
+  const currentIndex = placements.findIndex(placement =>
+    placement !== null && currentTime >= placement.start && currentTime < placement.end
+  )
+
+  const handleWordClick = (event: React.MouseEvent, index: number) => {
+    if (event.shiftKey && anchorRef.current !== null) {
+      onSelectionChange({ start: anchorRef.current, end: index })
+      return
+    }
+
+    anchorRef.current = index
+    onSelectionChange({ start: index, end: index })
+    const placement = placements[index]
+    if (placement) onSeek(placement.start)
+  }
+
+  // Double-click takes the whole sentence the word belongs to
+  const handleWordDoubleClick = (segmentIndex: number) => {
+    const start = segmentOffsets[segmentIndex]
+    const length = transcript?.segments[segmentIndex]?.words.length ?? 0
+    if (length === 0) return
+
+    anchorRef.current = start
+    onSelectionChange({ start, end: start + length - 1 })
+  }
+
+  const deleteSelection = () => {
+    if (!canEdit || removableSelection.length === 0) return
+
+    const label = removableSelection.length === 1
+      ? `Delete "${words[removableSelection[0]].text}"`
+      : `Delete ${removableSelection.length} words`
+    onRemoveWords(removableSelection, label)
+    onSelectionChange(null)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Delete' || event.key === 'Backspace') {
+      event.preventDefault()
+      deleteSelection()
+    } else if (event.key === 'Escape') {
+      onSelectionChange(null)
+    }
+  }
+
+  const getWordClass = (index: number) => {
+    if (selectedSet.has(index)) return 'bg-[#6366F1]/50 text-white'
+    if (!placements[index]) return 'line-through text-white/30'
+    if (index === currentIndex) return 'bg-[#F59E0B]/40 text-white'
+    if (fillerSet.has(index)) return 'bg-amber-500/20 text-amber-300'
+    return 'text-white/80 hover:bg-white/10'
+  }
+
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <FileText className="h-5 w-5 text-[#6366F1]" />
+            <span>Transcript</span>
+          </span>
+          {transcript && (
+            <span className="flex items-center space-x-2">
+              {remainingFillers.length > 0 && (
+                <Badge variant="secondary" className="bg-amber-500/20 text-amber-300">
+                  {remainingFillers.length} {remainingFillers.length === 1 ? 'filler' : 'fillers'}
+                </Badge>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!canEdit || removableSelection.length === 0}
+                onClick={deleteSelection}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Selection
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!canEdit || remainingFillers.length === 0}
+                onClick={() => onRemoveWords(remainingFillers, `Remove ${remainingFillers.length} filler words`)}
+              >
+                <Eraser className="h-4 w-4 mr-2" />
+                Remove All Fillers
+              </Button>
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!transcript ? (
+          <p className="text-sm text-white/60 text-center py-4">
+            {statusMessage ?? 'The transcript appears here once the video has been transcribed'}
+          </p>
+        ) : (
+          <div
+            className="max-h-80 overflow-y-auto space-y-3 text-sm leading-relaxed focus:outline-none select-none"
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
+          >
+            {transcript.segments.map((segment, segmentIndex) => (
+              <div key={segmentOffsets[segmentIndex]} className="flex space-x-3">
+                <div className="w-20 shrink-0 text-xs text-white/40 pt-0.5">
+                  <div>{formatTime(segment.start)}</div>
+                  {segment.speaker && <div className="text-[#6366F1] truncate">{segment.speaker}</div>}
+                </div>
+                <p className="flex-1">
+                  {segment.words.map((word, wordIndex) => {
+                    const index = segmentOffsets[segmentIndex] + wordIndex
+                    return (
+                      <span key={index}>
+                        <span
+                          className={`rounded px-0.5 cursor-pointer ${getWordClass(index)}`}
+                          onClick={(e) => handleWordClick(e, index)}
+                          onDoubleClick={() => handleWordDoubleClick(segmentIndex)}
+                          title={`${formatTime(word.start)} in source`}
+                        >
+                          {word.text}
+                        </span>{' '}
+                      </span>
+                    )
+                  })}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+        {transcript && (
+          <p className="text-xs text-white/40 mt-3">
+            Click a word to jump to it • Shift+click to extend • Double-click for the sentence • Delete to cut
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
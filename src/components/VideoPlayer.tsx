@@ -0,0 +1,308 @@
+import { useEffect, useRef, useState, type CSSProperties } from 'react'
+import { FileVideo } from 'lucide-react'
+import { getEdlDuration, getSource, locateTime, type ClipEffect, type EditDecisionList } from '../lib/edl'
+import { getCssFilter } from '../lib/effects'
+import { ease, getTransitionAt, type TransitionSettings } from '../lib/transitions'
+
+interface VideoPlayerProps {
+  edl?: EditDecisionList
+  sourceUrls: Record<string, string | undefined>
+  currentTime: number // timeline time, not source time
+  isPlaying: boolean
+  volume: number
+  playbackRate?: number // negative plays backwards, for shuttling
+  onTimeChange: (time: number) => void
+  onPlayingChange: (isPlaying: boolean) => void
+  caption?: string // subtitle showing at the current time
+}
+
+// How far, in seconds, the second picture in a transition may drift from the playhead before it is re-seeked
+const PARTNER_DRIFT = 0.1
+
+// The incoming picture is drawn over the outgoing one; `progress` is already eased
+const getTransitionStyles = ({ type, direction, color }: TransitionSettings, progress: number) => {
+  const styles: { outgoing: CSSProperties, incoming: CSSProperties, overlay?: CSSProperties } = { outgoing: {}, incoming: {} }
+  const remaining = `${(1 - progress) * 100}%`
+
+  switch (type) {
+    case 'dip':
+      styles.incoming = { opacity: progress < 0.5 ? 0 : 1 }
+      styles.overlay = { backgroundColor: color, opacity: 1 - Math.abs(2 * progress - 1) }
+      break
+    case 'wipe':
+      styles.incoming = {
+        clipPath: {
+          left: `inset(0 0 0 ${remaining})`,
+          right: `inset(0 ${remaining} 0 0)`,
+          up: `inset(${remaining} 0 0 0)`,
+          down: `inset(0 0 ${remaining} 0)`
+        }[direction]
+      }
+      break
+    case 'slide': {
+      const axis = direction === 'left' || direction === 'right' ? 'X' : 'Y'
+      const sign = direction === 'left' || direction === 'up' ? -1 : 1
+      styles.outgoing = { transform: `translate${axis}(${sign * progress * 100}%)` }
+      styles.incoming = { transform: `translate${axis}(${-sign * (1 - progress) * 100}%)` }
+      break
+    }
+    case 'zoom':
+      styles.outgoing = { transform: `scale(${1 + progress})` }
+      styles.incoming = { opacity: progress }
+      break
+    default:
+      styles.incoming = { opacity: progress }
+  }
+  return styles
+}
+
+export function VideoPlayer({
+  edl,
+  sourceUrls,
+  currentTime,
+  isPlaying,
+  volume,
+  playbackRate = 1,
+  onTimeChange,
+  onPlayingChange,
+  caption
+}: VideoPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  // Plays the other clip while a transition is on screen
+  const partnerRef = useRef<HTMLVideoElement>(null)
+  // Last time we pushed up to the parent, so we can tell our own updates apart from scrubbing
+  const reportedTimeRef = useRef(0)
+  const activeClipIdRef = useRef<string | null>(null)
+  const [activeSourceId, setActiveSourceId] = useState<string | null>(null)
+  const [inGap, setInGap] = useState(false)
+  const [activeEffects, setActiveEffects] = useState<ClipEffect[]>([])
+
+  const edlRef = useRef(edl)
+  edlRef.current = edl
+  const onTimeChangeRef = useRef(onTimeChange)
+  onTimeChangeRef.current = onTimeChange
+  const onPlayingChangeRef = useRef(onPlayingChange)
+  onPlayingChangeRef.current = onPlayingChange
+  const playbackRateRef = useRef(playbackRate)
+  playbackRateRef.current = playbackRate
+  // Video elements can't play backwards, so reverse shuttling seeks frame by frame while paused
+  const isReverse = playbackRate < 0
+
+  const src = activeSourceId ? sourceUrls[activeSourceId] : undefined
+
+  // The main video shows whichever clip the playhead is in, so before the cut it is the outgoing picture
+  const transition = edl && !inGap ? getTransitionAt(edl, currentTime) : null
+  const isMainOutgoing = !transition || currentTime < transition.cut.time
+  const partnerClip = transition ? (isMainOutgoing ? transition.cut.to : transition.cut.from) : null
+  const partnerSrc = partnerClip ? sourceUrls[partnerClip.sourceId] : undefined
+  // Past either end of its source the partner holds the last frame, as the export does
+  const partnerTime = edl && partnerClip
+    ? Math.max(0, Math.min(
+      getSource(edl, partnerClip.sourceId)?.duration ?? partnerClip.sourceOut,
+      partnerClip.sourceIn + (currentTime - partnerClip.start)
+    ))
+    : null
+  const partnerTimeRef = useRef(partnerTime)
+  partnerTimeRef.current = partnerTime
+  const transitionStyles = transition
+    ? getTransitionStyles(transition.settings, ease(transition.settings.easing, transition.progress))
+    : null
+  const mainStyle = transitionStyles ? (isMainOutgoing ? transitionStyles.outgoing : transitionStyles.incoming) : {}
+  const partnerStyle = transitionStyles ? (isMainOutgoing ? transitionStyles.incoming : transitionStyles.outgoing) : {}
+
+  // Points the video element at whatever the timeline shows at `time`
+  const showTimelineTime = (time: number) => {
+    const video = videoRef.current
+    const current = edlRef.current
+    const location = current ? locateTime(current, time) : null
+
+    setInGap(!location)
+    if (!location) {
+      activeClipIdRef.current = null
+      return
+    }
+
+    activeClipIdRef.current = location.clip.id
+    setActiveSourceId(location.clip.sourceId)
+    setActiveEffects(location.clip.effects)
+    if (video && Math.abs(video.currentTime - location.sourceTime) > 0.001) {
+      video.currentTime = location.sourceTime
+    }
+  }
+  const showTimelineTimeRef = useRef(showTimelineTime)
+  showTimelineTimeRef.current = showTimelineTime
+
+  // Seek when the playhead was moved from outside (timeline click, skip buttons)
+  useEffect(() => {
+    if (currentTime !== reportedTimeRef.current) {
+      reportedTimeRef.current = currentTime
+      showTimelineTimeRef.current(currentTime)
+    }
+  }, [currentTime])
+
+  // Re-resolve after edits, since the clip under the playhead may have changed
+  useEffect(() => {
+    showTimelineTimeRef.current(reportedTimeRef.current)
+  }, [edl])
+
+  useEffect(() => {
+    const video = videoRef.current
+    if (!video || !src) return
+
+    if (isPlaying && !inGap && !isReverse && video.paused) {
+      video.play().catch(() => onPlayingChangeRef.current(false))
+    } else if ((!isPlaying || inGap || isReverse) && !video.paused) {
+      video.pause()
+    }
+  }, [isPlaying, inGap, isReverse, src])
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.playbackRate = Math.abs(playbackRate)
+    }
+  }, [playbackRate, src])
+
+  // The partner keeps its own clock while playing and is only pulled back when it drifts
+  useEffect(() => {
+    const partner = partnerRef.current
+    if (!partner || partnerTime === null) return
+
+    if (!isPlaying || isReverse || Math.abs(partner.currentTime - partnerTime) > PARTNER_DRIFT) {
+      partner.currentTime = partnerTime
+    }
+  }, [partnerTime, isPlaying, isReverse])
+
+  useEffect(() => {
+    const partner = partnerRef.current
+    if (!partner || !partnerSrc) return
+
+    partner.playbackRate = Math.abs(playbackRate)
+    if (isPlaying && !isReverse && partner.paused) {
+      partner.play().catch(() => undefined)
+    } else if ((!isPlaying || isReverse) && !partner.paused) {
+      partner.pause()
+    }
+  }, [isPlaying, isReverse, playbackRate, partnerSrc])
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.volume = volume / 100
+    }
+  }, [volume, src])
+
+  // Drive the playhead while playing: from the video clock inside clips, from the wall clock across gaps
+  useEffect(() => {
+    if (!isPlaying || !edl) return
+
+    let frame = 0
+    let lastTick = performance.now()
+    const tick = (now: number) => {
+      const current = edlRef.current
+      const video = videoRef.current
+      const elapsed = (now - lastTick) / 1000
+      lastTick = now
+      if (!current) return
+
+      const duration = getEdlDuration(current)
+      const previous = reportedTimeRef.current
+      const rate = playbackRateRef.current
+
+      if (rate < 0) {
+        const next = Math.max(0, previous + elapsed * rate)
+        showTimelineTimeRef.current(next)
+        reportedTimeRef.current = next
+        onTimeChangeRef.current(next)
+        if (next <= 0) {
+          onPlayingChangeRef.current(false)
+          return
+        }
+        frame = requestAnimationFrame(tick)
+        return
+      }
+
+      const location = locateTime(current, previous)
+      let next = previous + elapsed * rate
+
+      if (location && video && location.clip.id === activeClipIdRef.current && !video.seeking) {
+        // Past the out point this lands on the clip end, which hands over to whatever follows
+        const sourceTime = Math.min(video.currentTime, location.clip.sourceOut)
+        next = location.clip.start + (sourceTime - location.clip.sourceIn)
+      } else if (location && location.clip.id !== activeClipIdRef.current) {
+        showTimelineTimeRef.current(previous)
+        next = previous
+      }
+
+      if (next >= duration) {
+        reportedTimeRef.current = duration
+        onTimeChangeRef.current(duration)
+        onPlayingChangeRef.current(false)
+        return
+      }
+
+      if (next !== previous) {
+        if (locateTime(current, next)?.clip.id !== activeClipIdRef.current) {
+          showTimelineTimeRef.current(next)
+        }
+        reportedTimeRef.current = next
+        onTimeChangeRef.current(next)
+      }
+      frame = requestAnimationFrame(tick)
+    }
+    frame = requestAnimationFrame(tick)
+
+    return () => cancelAnimationFrame(frame)
+  }, [isPlaying, edl])
+
+  if (!edl || Object.values(sourceUrls).every(url => !url)) {
+    return (
+      <div className="aspect-video bg-black/50 rounded-lg mb-6 flex items-center justify-center">
+        <div className="text-center">
+          <FileVideo className="h-16 w-16 text-white/20 mx-auto mb-4" />
+          <p className="text-white/60">Video preview will appear here</p>
+          <p className="text-xs text-white/40 mt-2">Upload a video to start editing</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="relative aspect-video bg-black rounded-lg mb-6 overflow-hidden">
+      <video
+        ref={videoRef}
+        src={src}
+        className={`relative w-full h-full object-contain ${inGap ? 'invisible' : ''}`}
+        style={{ ...mainStyle, filter: getCssFilter(activeEffects), zIndex: isMainOutgoing ? 0 : 1 }}
+        preload="auto"
+        playsInline
+        onLoadedMetadata={() => showTimelineTimeRef.current(reportedTimeRef.current)}
+      />
+      <video
+        ref={partnerRef}
+        src={partnerSrc}
+        className={`absolute inset-0 w-full h-full object-contain ${partnerSrc ? '' : 'hidden'}`}
+        style={{ ...partnerStyle, filter: getCssFilter(partnerClip?.effects ?? []), zIndex: isMainOutgoing ? 1 : 0 }}
+        preload="auto"
+        playsInline
+        muted
+        onLoadedMetadata={(e) => {
+          if (partnerTimeRef.current !== null) e.currentTarget.currentTime = partnerTimeRef.current
+        }}
+      />
+      {transitionStyles?.overlay && (
+        <div className="absolute inset-0 z-10 pointer-events-none" style={transitionStyles.overlay} />
+      )}
+      {isPlaying && playbackRate !== 1 && (
+        <div className="absolute top-3 right-3 z-20 rounded bg-black/60 px-2 py-0.5 text-xs font-mono text-white pointer-events-none">
+          {isReverse ? '◀◀' : '▶▶'} {Math.abs(playbackRate)}×
+        </div>
+      )}
+      {caption && (
+        <div className="absolute inset-x-0 bottom-[6%] z-20 flex justify-center px-4 pointer-events-none">
+          <p className="max-w-[80%] text-center whitespace-pre-line text-white text-sm md:text-lg font-medium bg-black/60 rounded px-2 py-1">
+            {caption}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useCallback, useEffect } from 'react'
 import { Card, CardContent } from './ui/card'
 import { Button } from './ui/button'
 import { Slider } from './ui/slider'
@@ -13,96 +13,234 @@ import {
   AudioWaveform,
   Zap,
   Eye,
-  Music
+  Music,
+  Trash2,
+  ArrowLeftToLine,
+  Plus,
+  ZoomIn,
+  ZoomOut,
+  Maximize2,
+  Magnet,
+  X,
+  ArrowLeft,
+  ArrowRight,
+  ArrowUp,
+  ArrowDown
 } from 'lucide-react'
-
-interface TimelineSegment {
-  id: string
-  start: number
-  end: number
-  type: 'scene' | 'transition' | 'audio' | 'effect'
-  confidence: number
-  label: string
-  color: string
-}
+import { WaveformView } from './WaveformView'
+import { SubtitleLane } from './SubtitleLane'
+import { TrackHeader } from './TrackHeader'
+import type { Marker } from '../lib/markers'
+import type { SubtitleCue } from '../lib/subtitles'
+import type { Waveform } from '../lib/waveform'
+import type { TimelineSegment, TimeRange } from '../lib/timeline'
+import {
+  getCuts,
+  getMaxTransitionDuration,
+  getTransitionDefinition,
+  getTransitionDuration,
+  getTransitionParams,
+  getTransitionRange,
+  getTransitionSettings,
+  DIP_COLORS,
+  MIN_TRANSITION_DURATION,
+  TRANSITION_DIRECTIONS,
+  TRANSITION_EASINGS,
+  TRANSITIONS,
+  type Cut,
+  type TransitionDirection,
+  type TransitionSettings
+} from '../lib/transitions'
+import {
+  clampView,
+  findSnap,
+  followTime,
+  formatRulerTime,
+  getMinViewDuration,
+  getRulerTicks,
+  scrollView,
+  zoomView,
+  type TimelineView
+} from '../lib/timeline-view'
+import {
+  getPrimaryVideoTrack,
+  getTrackClips,
+  getTrackHeight,
+  getClipAt,
+  getClipEnd,
+  getEdlDuration,
+  getEditPoints,
+  locateTime,
+  isTrackActive,
+  splitAtTime,
+  trimClip,
+  moveClip,
+  rippleDeleteRange,
+  deleteClip,
+  addTrack,
+  updateTrack,
+  removeTrack,
+  addTransition,
+  removeTransition,
+  updateTransition,
+  type Clip,
+  type EditDecisionList,
+  type Track,
+  type TrackKind,
+  type TrimEdge
+} from '../lib/edl'
 
 interface VideoTimelineProps {
+  edl?: EditDecisionList
+  onEdlChange?: (edl: EditDecisionList, label: string) => void
   duration: number
   currentTime: number
   onTimeChange: (time: number) => void
   isPlaying: boolean
   onPlayPause: () => void
+  volume: number
+  onVolumeChange: (volume: number) => void
+  frameRate?: number
+  waveform?: Waveform | null
+  isWaveformLoading?: boolean
+  waveformError?: string | null
   segments?: TimelineSegment[]
+  proposedCuts?: TimeRange[]
+  highlightRanges?: TimeRange[]
+  statusMessage?: string
+  onSelectionChange?: (range: TimeRange | null) => void // the selected clip or segment, in timeline time
+  subtitles?: SubtitleCue[]
+  onSubtitlesChange?: (cues: SubtitleCue[], label: string, group?: string) => void
+  onGenerateSubtitles?: () => void
+  onSubtitleImportError?: (message: string) => void
+  snapTimes?: number[] // markers, beats and other points dragged edges snap to, in timeline time
+  markIn?: number | null
+  markOut?: number | null
+  onClearMarks?: () => void
+  markers?: Marker[]
+}
+
+interface ClipDrag {
+  clipId: string
+  trackId: string // the track under the pointer
+  offset: number // where in the clip it was grabbed, seconds from its start
+  time: number
+  originX: number
+  moved: boolean
+  snappedTo: number | null
+}
+
+interface TrimDrag {
+  clipId: string
+  edge: TrimEdge
+  time: number
+  snappedTo: number | null
+}
+
+// How close, in pixels, a dragged edge has to come to something before it snaps to it
+const SNAP_PIXELS = 8
+// Each Ctrl+wheel notch (or pinch step) zooms by e^(delta * this)
+const WHEEL_ZOOM_SPEED = 0.005
+const BUTTON_ZOOM_FACTOR = 2
+
+// Pixels the pointer has to travel before a press on a clip becomes a drag rather than a click
+const DRAG_THRESHOLD = 4
+
+const CLIP_STYLES: Record<TrackKind, string> = {
+  video: 'bg-[#6366F1]/25 border-[#6366F1]/60',
+  overlay: 'bg-[#F59E0B]/25 border-[#F59E0B]/60',
+  audio: 'bg-[#10B981]/25 border-[#10B981]/60',
+  subtitle: 'bg-[#6366F1]/25 border-[#6366F1]/60'
+}
+
+const DIRECTION_ICONS: Record<TransitionDirection, typeof ArrowLeft> = {
+  left: ArrowLeft,
+  right: ArrowRight,
+  up: ArrowUp,
+  down: ArrowDown
 }
 
+const NEW_TRACKS: { kind: TrackKind, label: string }[] = [
+  { kind: 'video', label: 'Video' },
+  { kind: 'audio', label: 'Audio' },
+  { kind: 'overlay', label: 'Title' }
+]
+
 export function VideoTimeline({ 
+  edl: committedEdl,
+  onEdlChange,
   duration, 
   currentTime, 
   onTimeChange, 
   isPlaying, 
   onPlayPause,
-  segments = []
+  volume,
+  onVolumeChange,
+  frameRate = 30,
+  waveform,
+  isWaveformLoading,
+  waveformError,
+  segments = [],
+  proposedCuts = [],
+  highlightRanges = [],
+  statusMessage,
+  onSelectionChange,
+  subtitles = [],
+  onSubtitlesChange,
+  onGenerateSubtitles,
+  onSubtitleImportError,
+  snapTimes = [],
+  markIn = null,
+  markOut = null,
+  onClearMarks,
+  markers = []
 }: VideoTimelineProps) {
-  const [volume, setVolume] = useState(75)
   const [showWaveform, setShowWaveform] = useState(true)
   const [selectedSegment, setSelectedSegment] = useState<string | null>(null)
+  const [rippleEdits, setRippleEdits] = useState(true)
+  const [trimDrag, setTrimDrag] = useState<TrimDrag | null>(null)
+  const [clipDrag, setClipDrag] = useState<ClipDrag | null>(null)
+  const [snapping, setSnapping] = useState(true)
+  // null shows the whole project, however long it gets
+  const [zoomedView, setZoomedView] = useState<TimelineView | null>(null)
+  const [laneWidth, setLaneWidth] = useState(0)
+  // The selected transition's length while its slider is being dragged
+  const [transitionDuration, setTransitionDuration] = useState<number | null>(null)
   const timelineRef = useRef<HTMLDivElement>(null)
+  const viewportRef = useRef<HTMLDivElement>(null)
+  const pinchRef = useRef<{ distance: number, view: TimelineView, anchor: number } | null>(null)
 
-  // Generate mock waveform data
-  const waveformData = Array.from({ length: 200 }, (_, i) => 
-    Math.sin(i * 0.1) * 0.5 + 0.5 + Math.random() * 0.3
-  )
+  // While an edge or a clip is being dragged the edit is previewed without committing it
+  const getDraggedEdl = () => {
+    if (!committedEdl) return committedEdl
+    if (trimDrag) return trimClip(committedEdl, trimDrag.clipId, trimDrag.edge, trimDrag.time, { ripple: rippleEdits })
+    if (clipDrag?.moved) return moveClip(committedEdl, clipDrag.clipId, clipDrag.time - clipDrag.offset, clipDrag.trackId)
+    return committedEdl
+  }
+  const edl = getDraggedEdl()
+  const primaryTrack = edl ? getPrimaryVideoTrack(edl) : undefined
+  const clips = edl ? edl.clips : []
+  const editedDuration = edl ? getEdlDuration(edl) : duration
+  const canEdit = Boolean(committedEdl && onEdlChange)
+  const canEditPrimary = canEdit && !primaryTrack?.locked
+  const cuts = edl ? getCuts(edl) : []
 
-  // Default segments if none provided
-  const defaultSegments: TimelineSegment[] = [
-    {
-      id: '1',
-      start: 0,
-      end: 25,
-      type: 'scene',
-      confidence: 0.92,
-      label: 'Opening Scene',
-      color: 'bg-blue-500'
-    },
-    {
-      id: '2', 
-      start: 25,
-      end: 45,
-      type: 'transition',
-      confidence: 0.78,
-      label: 'Fade Transition',
-      color: 'bg-purple-500'
-    },
-    {
-      id: '3',
-      start: 45,
-      end: 85,
-      type: 'scene',
-      confidence: 0.89,
-      label: 'Main Content',
-      color: 'bg-green-500'
-    },
-    {
-      id: '4',
-      start: 85,
-      end: 120,
-      type: 'audio',
-      confidence: 0.85,
-      label: 'Music Overlay',
-      color: 'bg-yellow-500'
-    },
-    {
-      id: '5',
-      start: 120,
-      end: 154,
-      type: 'scene',
-      confidence: 0.94,
-      label: 'Closing Scene',
-      color: 'bg-red-500'
-    }
+  const canEditTrack = (trackId: string) => {
+    return canEdit && !edl?.tracks.find(track => track.id === trackId)?.locked
+  }
+
+  // Pictures stack top down, overlays highest, then the sound underneath them
+  const tracks = edl?.tracks ?? []
+  const mediaTracks = [
+    ...tracks.filter(track => track.kind === 'overlay').reverse(),
+    ...tracks.filter(track => track.kind === 'video').reverse(),
+    ...tracks.filter(track => track.kind === 'audio')
   ]
+  const subtitleTrack = tracks.find(track => track.kind === 'subtitle')
 
-  const timelineSegments = segments.length > 0 ? segments : defaultSegments
+  const mapToSource = useCallback((time: number) => {
+    return edl ? locateTime(edl, time)?.sourceTime ?? null : time
+  }, [edl])
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
@@ -110,27 +248,370 @@ export function VideoTimeline({
     return `${mins}:${secs.toString().padStart(2, '0')}`
   }
 
+  const minViewDuration = getMinViewDuration(laneWidth, frameRate)
+  const view = clampView(zoomedView ?? { start: 0, duration }, duration, minViewDuration)
+  const isZoomed = zoomedView !== null && view.duration < duration
+  const ruler = getRulerTicks(view, laneWidth, frameRate)
+
+  // Nothing is loaded until the media duration is known
+  const toPercent = (time: number) => {
+    return view.duration > 0 ? ((time - view.start) / view.duration) * 100 : 0
+  }
+
+  const toWidth = (seconds: number) => {
+    return view.duration > 0 ? (seconds / view.duration) * 100 : 0
+  }
+
   const getSegmentWidth = (segment: TimelineSegment) => {
-    return ((segment.end - segment.start) / duration) * 100
+    return toWidth(segment.end - segment.start)
   }
 
   const getSegmentLeft = (segment: TimelineSegment) => {
-    return (segment.start / duration) * 100
+    return toPercent(segment.start)
   }
 
   const getCurrentPosition = () => {
-    return (currentTime / duration) * 100
+    return toPercent(currentTime)
+  }
+
+  const getTimeAt = (clientX: number) => {
+    if (!timelineRef.current) return 0
+
+    const rect = timelineRef.current.getBoundingClientRect()
+    return view.start + ((clientX - rect.left) / rect.width) * view.duration
+  }
+
+  // Zoomed all the way out the view goes back to following the project's length
+  const showView = (next: TimelineView) => {
+    const clamped = clampView(next, duration, minViewDuration)
+    setZoomedView(clamped.duration >= duration ? null : clamped)
+  }
+
+  const zoomAt = (factor: number, anchor: number) => {
+    showView(zoomView(view, factor, anchor))
+  }
+
+  const handleWheel = (event: WheelEvent) => {
+    // Trackpad pinches arrive as wheel events with Ctrl held
+    if (event.ctrlKey || event.metaKey) {
+      event.preventDefault()
+      zoomAt(Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED), getTimeAt(event.clientX))
+      return
+    }
+
+    const delta = event.shiftKey ? event.deltaY : event.deltaX
+    if (!isZoomed || delta === 0 || laneWidth === 0) return
+    event.preventDefault()
+    showView(scrollView(view, (delta / laneWidth) * view.duration))
+  }
+
+  const getTouchDistance = (touches: TouchList) => {
+    return Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY)
+  }
+
+  const handleTouch = (event: TouchEvent) => {
+    if (event.touches.length !== 2) {
+      pinchRef.current = null
+      return
+    }
+
+    event.preventDefault()
+    if (!pinchRef.current) {
+      const middle = (event.touches[0].clientX + event.touches[1].clientX) / 2
+      pinchRef.current = { distance: getTouchDistance(event.touches), view, anchor: getTimeAt(middle) }
+      return
+    }
+
+    const pinch = pinchRef.current
+    showView(zoomView(pinch.view, getTouchDistance(event.touches) / pinch.distance, pinch.anchor))
+  }
+
+  const gestureHandlers = useRef({ wheel: handleWheel, touch: handleTouch })
+  gestureHandlers.current = { wheel: handleWheel, touch: handleTouch }
+
+  // Registered natively: React's wheel and touch listeners are passive, so they can't stop the page zooming
+  useEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport) return
+
+    const wheel = (event: WheelEvent) => gestureHandlers.current.wheel(event)
+    const touch = (event: TouchEvent) => gestureHandlers.current.touch(event)
+    viewport.addEventListener('wheel', wheel, { passive: false })
+    viewport.addEventListener('touchstart', touch, { passive: false })
+    viewport.addEventListener('touchmove', touch, { passive: false })
+    viewport.addEventListener('touchend', touch)
+    return () => {
+      viewport.removeEventListener('wheel', wheel)
+      viewport.removeEventListener('touchstart', touch)
+      viewport.removeEventListener('touchmove', touch)
+      viewport.removeEventListener('touchend', touch)
+    }
+  }, [])
+
+  useEffect(() => {
+    const lane = timelineRef.current
+    if (!lane) return
+
+    const observer = new ResizeObserver(entries => setLaneWidth(entries[0].contentRect.width))
+    observer.observe(lane)
+    return () => observer.disconnect()
+  }, [])
+
+  // Keeps the playhead on screen as it plays or jumps
+  useEffect(() => {
+    setZoomedView(prev => prev ? followTime(prev, currentTime) : prev)
+  }, [currentTime])
+
+  const markedRange = markIn !== null && markOut !== null && markOut > markIn ? { start: markIn, end: markOut } : null
+
+  const getSnapPoints = (excludeClipId?: string) => [
+    currentTime,
+    ...[markIn, markOut].filter((mark): mark is number => mark !== null),
+    ...markers.map(marker => marker.time),
+    ...(committedEdl?.clips ?? [])
+      .filter(clip => clip.id !== excludeClipId)
+      .flatMap(clip => [clip.start, getClipEnd(clip)]),
+    ...snapTimes
+  ]
+
+  const snapTime = (time: number, excludeClipId?: string) => {
+    if (!snapping || laneWidth === 0) return null
+    return findSnap(time, getSnapPoints(excludeClipId), (SNAP_PIXELS / laneWidth) * view.duration)
   }
 
   const handleTimelineClick = (event: React.MouseEvent) => {
     if (!timelineRef.current) return
     
-    const rect = timelineRef.current.getBoundingClientRect()
-    const clickX = event.clientX - rect.left
-    const percentage = clickX / rect.width
-    const newTime = percentage * duration
-    
-    onTimeChange(Math.max(0, Math.min(duration, newTime)))
+    onTimeChange(Math.max(0, Math.min(duration, getTimeAt(event.clientX))))
+  }
+
+  const selectSegment = (id: string | null, range?: TimeRange) => {
+    setSelectedSegment(id)
+
+    const clip = clips.find(c => c.id === id)
+    const segment = segments.find(s => s.id === id)
+    onSelectionChange?.(range ?? (clip ? { start: clip.start, end: getClipEnd(clip) } : segment ?? null))
+  }
+
+  const applyEdit = (next: EditDecisionList, label: string) => {
+    if (committedEdl && next !== committedEdl) {
+      onEdlChange?.(next, label)
+    }
+  }
+
+  const handleAddTransition = (cut: Cut) => {
+    if (!committedEdl) return
+
+    const definition = TRANSITIONS[0]
+    const next = addTransition(committedEdl, {
+      type: definition.type,
+      fromClipId: cut.from.id,
+      toClipId: cut.to.id,
+      duration: Math.min(definition.duration, getMaxTransitionDuration(cut.from, cut.to)),
+      params: getTransitionParams(getTransitionSettings({ type: definition.type }))
+    })
+    applyEdit(next, `Add ${definition.label.toLowerCase()}`)
+
+    const added = getCuts(next).find(c => c.to.id === cut.to.id)?.transition
+    if (added) selectSegment(added.id, getTransitionRange({ ...cut, transition: added }))
+  }
+
+  const handleTransitionChange = (cut: Cut, changes: Partial<TransitionSettings>, label: string) => {
+    if (!committedEdl || !cut.transition) return
+
+    const settings = { ...getTransitionSettings(cut.transition), ...changes }
+    applyEdit(updateTransition(committedEdl, cut.transition.id, {
+      type: settings.type,
+      params: getTransitionParams(settings)
+    }), label)
+  }
+
+  const handleTrackChange = (track: Track, changes: Partial<Track>, label: string) => {
+    if (!committedEdl) return
+    applyEdit(updateTrack(committedEdl, track.id, changes), label)
+  }
+
+  const handleAddTrack = (kind: TrackKind) => {
+    if (!committedEdl) return
+    applyEdit(addTrack(committedEdl, kind), `Add ${kind} track`)
+  }
+
+  const handleRemoveTrack = (track: Track) => {
+    if (!committedEdl) return
+    applyEdit(removeTrack(committedEdl, track.id), `Remove ${track.name}`)
+  }
+
+  const handleSplit = () => {
+    if (!committedEdl) return
+    applyEdit(splitAtTime(committedEdl, currentTime), 'Split clip')
+  }
+
+  const handleDeleteMarked = () => {
+    if (!committedEdl || !markedRange) return
+    applyEdit(rippleDeleteRange(committedEdl, markedRange), 'Delete marked range')
+    onClearMarks?.()
+  }
+
+  const handleDeleteClip = (clipId: string, ripple: boolean) => {
+    if (!committedEdl) return
+    applyEdit(deleteClip(committedEdl, clipId, { ripple }), ripple ? 'Delete clip and close gap' : 'Delete clip')
+    selectSegment(null)
+  }
+
+  // Cuts a detected segment out into a clip of its own so it can be trimmed or removed
+  const isolateRange = (start: number, end: number) => {
+    if (!committedEdl || !primaryTrack) return null
+
+    const isolated = splitAtTime(splitAtTime(committedEdl, start), end)
+    const clip = getClipAt(isolated, primaryTrack.id, (start + end) / 2)
+    return clip ? { edl: isolated, clip } : null
+  }
+
+  const handleEditSegment = (segment: TimelineSegment) => {
+    const result = isolateRange(segment.start, segment.end)
+    if (!result) return
+
+    applyEdit(result.edl, `Cut out ${segment.label}`)
+    selectSegment(result.clip.id, { start: result.clip.start, end: getClipEnd(result.clip) })
+  }
+
+  const handleDeleteSegment = (segment: TimelineSegment) => {
+    const result = isolateRange(segment.start, segment.end)
+    if (!result) return
+
+    applyEdit(deleteClip(result.edl, result.clip.id, { ripple: rippleEdits }), `Delete ${segment.label}`)
+    selectSegment(null)
+  }
+
+  const handleTrimStart = (event: React.PointerEvent, clip: Clip, edge: TrimEdge) => {
+    if (!canEditTrack(clip.trackId)) return
+
+    event.stopPropagation()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setTrimDrag({ clipId: clip.id, edge, time: edge === 'start' ? clip.start : getClipEnd(clip), snappedTo: null })
+  }
+
+  const handleTrimMove = (event: React.PointerEvent) => {
+    if (!trimDrag) return
+
+    const time = getTimeAt(event.clientX)
+    const snappedTo = snapTime(time, trimDrag.clipId)
+    setTrimDrag({ ...trimDrag, time: snappedTo ?? time, snappedTo })
+  }
+
+  const handleTrimEnd = () => {
+    if (!trimDrag) return
+
+    if (edl) applyEdit(edl, rippleEdits ? 'Ripple trim clip' : 'Trim clip')
+    setTrimDrag(null)
+  }
+
+  // A press on a clip either drags it along its track or onto another compatible one, or is a click
+  const handleClipPointerDown = (event: React.PointerEvent, clip: Clip) => {
+    if (event.button !== 0) return
+
+    event.stopPropagation()
+    const time = getTimeAt(event.clientX)
+    setClipDrag({
+      clipId: clip.id,
+      trackId: clip.trackId,
+      offset: time - clip.start,
+      time,
+      originX: event.clientX,
+      moved: false,
+      snappedTo: null
+    })
+  }
+
+  const handleClipDragMove = (event: PointerEvent) => {
+    if (!clipDrag || !canEditTrack(clipDrag.trackId)) return
+
+    const moved = clipDrag.moved || Math.abs(event.clientX - clipDrag.originX) > DRAG_THRESHOLD
+    if (!moved) return
+
+    // The dragged clip is drawn in whichever lane it is over, so the lane is found from the pointer
+    const lane = document.elementFromPoint(event.clientX, event.clientY)?.closest<HTMLElement>('[data-track-id]')
+    const trackId = lane?.dataset.trackId ?? clipDrag.trackId
+    const time = getTimeAt(event.clientX)
+
+    // Either edge of the clip can snap; whichever lands closer wins
+    const clip = committedEdl?.clips.find(c => c.id === clipDrag.clipId)
+    const start = time - clipDrag.offset
+    const length = clip ? getClipEnd(clip) - clip.start : 0
+    const snap = [
+      { at: snapTime(start, clipDrag.clipId), edge: 0 },
+      { at: snapTime(start + length, clipDrag.clipId), edge: length }
+    ]
+      .flatMap(({ at, edge }) => at === null ? [] : [{ at, start: at - edge }])
+      .sort((a, b) => Math.abs(a.start - start) - Math.abs(b.start - start))[0]
+
+    setClipDrag({
+      ...clipDrag,
+      moved,
+      trackId,
+      time: snap ? snap.start + clipDrag.offset : time,
+      snappedTo: snap?.at ?? null
+    })
+  }
+
+  const handleClipDragEnd = (event: PointerEvent) => {
+    if (!clipDrag) return
+
+    if (clipDrag.moved && edl) {
+      const from = committedEdl?.clips.find(clip => clip.id === clipDrag.clipId)
+      const to = edl.clips.find(clip => clip.id === clipDrag.clipId)
+      const track = edl.tracks.find(t => t.id === to?.trackId)
+      applyEdit(edl, from && track && from.trackId !== track.id ? `Move clip to ${track.name}` : 'Move clip')
+    } else {
+      onTimeChange(Math.max(0, Math.min(duration, getTimeAt(event.clientX))))
+      selectSegment(selectedSegment === clipDrag.clipId ? null : clipDrag.clipId)
+    }
+    setClipDrag(null)
+  }
+
+  const clipDragHandlers = useRef({ move: handleClipDragMove, end: handleClipDragEnd })
+  clipDragHandlers.current = { move: handleClipDragMove, end: handleClipDragEnd }
+  const clipDragId = clipDrag?.clipId
+
+  // A clip that changes lanes is mounted again, so the drag is followed on the window instead of the element
+  useEffect(() => {
+    if (!clipDragId) return
+
+    const move = (event: PointerEvent) => clipDragHandlers.current.move(event)
+    const end = (event: PointerEvent) => clipDragHandlers.current.end(event)
+    const cancel = () => setClipDrag(null)
+    window.addEventListener('pointermove', move)
+    window.addEventListener('pointerup', end)
+    window.addEventListener('pointercancel', cancel)
+    return () => {
+      window.removeEventListener('pointermove', move)
+      window.removeEventListener('pointerup', end)
+      window.removeEventListener('pointercancel', cancel)
+    }
+  }, [clipDragId])
+
+  // Plain click jumps between segment boundaries, Shift+click steps a single frame
+  const handleSkip = (direction: 1 | -1, event: React.MouseEvent) => {
+    if (event.shiftKey) {
+      onTimeChange(Math.max(0, Math.min(duration, currentTime + direction / frameRate)))
+      return
+    }
+
+    const editPoints = Array.from(
+      new Set([
+        0,
+        duration,
+        ...(edl ? getEditPoints(edl) : []),
+        ...segments.flatMap(s => [s.start, s.end])
+      ])
+    ).sort((a, b) => a - b)
+    const epsilon = 0.5 / frameRate
+
+    const target = direction > 0
+      ? editPoints.find(point => point > currentTime + epsilon) ?? duration
+      : [...editPoints].reverse().find(point => point < currentTime - epsilon) ?? 0
+
+    onTimeChange(Math.max(0, Math.min(duration, target)))
   }
 
   const getSegmentIcon = (type: TimelineSegment['type']) => {
@@ -148,6 +629,334 @@ export function VideoTimeline({
     }
   }
 
+  const renderClipDetails = (clip: Clip) => (
+    <div className="flex items-center justify-between">
+      <div className="flex items-center space-x-3">
+        <div className="bg-[#6366F1] rounded-full p-2">
+          <Scissors className="h-3 w-3" />
+        </div>
+        <div>
+          <h4 className="font-medium">{clip.label ?? 'Clip'}</h4>
+          <p className="text-sm text-white/60">
+            {formatTime(clip.start)} - {formatTime(getClipEnd(clip))} • source {formatTime(clip.sourceIn)} - {formatTime(clip.sourceOut)}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <Button size="sm" variant="outline" disabled={!canEditTrack(clip.trackId)} onClick={() => handleDeleteClip(clip.id, false)}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Delete
+        </Button>
+        <Button size="sm" variant="outline" disabled={!canEditTrack(clip.trackId)} onClick={() => handleDeleteClip(clip.id, true)}>
+          <ArrowLeftToLine className="h-4 w-4 mr-2" />
+          Delete &amp; Close Gap
+        </Button>
+      </div>
+    </div>
+  )
+
+  const renderTransitionDetails = (cut: Cut) => {
+    const transition = cut.transition
+    if (!transition) return null
+
+    const settings = getTransitionSettings(transition)
+    const definition = getTransitionDefinition(settings.type)
+    const range = getTransitionRange(cut)
+    const maxDuration = getMaxTransitionDuration(cut.from, cut.to)
+    const shownDuration = transitionDuration ?? getTransitionDuration(cut)
+    const optionClass = (selected: boolean) => `h-7 px-2 text-xs ${selected ? 'border-[#F59E0B] bg-[#F59E0B]/10 text-[#F59E0B]' : ''}`
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="bg-[#F59E0B] rounded-full p-2">
+              <Zap className="h-3 w-3" />
+            </div>
+            <div>
+              <h4 className="font-medium">{definition.label}</h4>
+              <p className="text-sm text-white/60">
+                {formatTime(range.start)} - {formatTime(range.end)} • {cut.from.label ?? 'Clip'} into {cut.to.label ?? 'clip'}
+              </p>
+            </div>
+          </div>
+
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!canEditPrimary}
+            onClick={() => {
+              if (!committedEdl) return
+              applyEdit(removeTransition(committedEdl, transition.id), `Remove ${definition.label.toLowerCase()}`)
+              selectSegment(null)
+            }}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Remove
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-5 gap-2">
+          {TRANSITIONS.map(option => (
+            <Button
+              key={option.type}
+              size="sm"
+              variant="outline"
+              className={optionClass(option.type === settings.type)}
+              disabled={!canEditPrimary}
+              title={option.description}
+              onClick={() => handleTransitionChange(
+                cut,
+                { type: option.type, easing: option.easing },
+                `Change transition to ${option.label.toLowerCase()}`
+              )}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <span className="text-xs text-white/60 w-16">Duration</span>
+          <Slider
+            value={[shownDuration]}
+            min={MIN_TRANSITION_DURATION}
+            max={Math.max(MIN_TRANSITION_DURATION, maxDuration)}
+            step={0.05}
+            className="flex-1"
+            disabled={!canEditPrimary || maxDuration <= MIN_TRANSITION_DURATION}
+            onValueChange={(value) => setTransitionDuration(value[0])}
+            onValueCommit={(value) => {
+              setTransitionDuration(null)
+              if (committedEdl) applyEdit(updateTransition(committedEdl, transition.id, { duration: value[0] }), 'Change transition duration')
+            }}
+          />
+          <span className="text-xs text-white/60 w-12 text-right font-mono">{shownDuration.toFixed(2)}s</span>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <span className="text-xs text-white/60 w-16">Easing</span>
+          <div className="flex items-center space-x-1">
+            {TRANSITION_EASINGS.map(option => (
+              <Button
+                key={option.easing}
+                size="sm"
+                variant="outline"
+                className={optionClass(option.easing === settings.easing)}
+                disabled={!canEditPrimary}
+                onClick={() => handleTransitionChange(cut, { easing: option.easing }, `Ease transition: ${option.label.toLowerCase()}`)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {(settings.type === 'wipe' || settings.type === 'slide') && (
+          <div className="flex items-center space-x-3">
+            <span className="text-xs text-white/60 w-16">Direction</span>
+            <div className="flex items-center space-x-1">
+              {TRANSITION_DIRECTIONS.map(direction => {
+                const Icon = DIRECTION_ICONS[direction]
+                return (
+                  <Button
+                    key={direction}
+                    size="sm"
+                    variant="outline"
+                    className={`w-7 p-0 ${optionClass(direction === settings.direction)}`}
+                    disabled={!canEditPrimary}
+                    title={`Towards the ${direction === 'up' ? 'top' : direction === 'down' ? 'bottom' : direction}`}
+                    onClick={() => handleTransitionChange(cut, { direction }, `${definition.label} ${direction}`)}
+                  >
+                    <Icon className="h-3 w-3" />
+                  </Button>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
+        {settings.type === 'dip' && (
+          <div className="flex items-center space-x-3">
+            <span className="text-xs text-white/60 w-16">Color</span>
+            <div className="flex items-center space-x-2">
+              {DIP_COLORS.map(color => (
+                <button
+                  key={color}
+                  className={`w-6 h-6 rounded border ${settings.color.toUpperCase() === color ? 'border-[#F59E0B] ring-1 ring-[#F59E0B]' : 'border-white/20'}`}
+                  style={{ backgroundColor: color }}
+                  disabled={!canEditPrimary}
+                  title={color === '#000000' ? 'Dip to black' : 'Dip to white'}
+                  onClick={() => handleTransitionChange(cut, { color }, `Dip to ${color === '#000000' ? 'black' : 'white'}`)}
+                />
+              ))}
+              <input
+                type="color"
+                value={settings.color}
+                disabled={!canEditPrimary}
+                className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer"
+                title="Pick another color"
+                onChange={(e) => handleTransitionChange(cut, { color: e.target.value }, 'Change dip color')}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  // Shown while a dragged edge is held by a snap point
+  const snapLine = trimDrag?.snappedTo ?? (clipDrag?.moved ? clipDrag.snappedTo : null) ?? null
+
+  const renderClip = (clip: Clip, track: Track) => (
+    <div
+      key={clip.id}
+      className={`absolute top-1 bottom-1 border rounded overflow-hidden select-none ${CLIP_STYLES[track.kind]} ${
+        selectedSegment === clip.id ? 'ring-2 ring-white/50' : ''
+      } ${clipDrag?.clipId === clip.id && clipDrag.moved ? 'opacity-80 z-30' : ''} ${
+        canEditTrack(track.id) ? 'cursor-grab' : 'cursor-pointer'
+      }`}
+      style={{
+        left: `${toPercent(clip.start)}%`,
+        width: `${toWidth(getClipEnd(clip) - clip.start)}%`
+      }}
+      onPointerDown={(e) => handleClipPointerDown(e, clip)}
+      onClick={(e) => e.stopPropagation()}
+      title={`${clip.label ?? 'Clip'} (${formatTime(clip.sourceIn)} - ${formatTime(clip.sourceOut)} of source)`}
+    >
+      <span className="block px-2 text-[10px] leading-4 text-white/80 truncate">{clip.label}</span>
+
+      {/* Trim handles */}
+      {canEditTrack(track.id) && (['start', 'end'] as const).map(edge => (
+        <div
+          key={edge}
+          className={`absolute top-0 bottom-0 w-1.5 cursor-ew-resize bg-white/30 hover:bg-white/60 ${
+            edge === 'start' ? 'left-0' : 'right-0'
+          }`}
+          onPointerDown={(e) => handleTrimStart(e, clip, edge)}
+          onPointerMove={handleTrimMove}
+          onPointerUp={handleTrimEnd}
+          onPointerCancel={() => setTrimDrag(null)}
+          onClick={(e) => e.stopPropagation()}
+        />
+      ))}
+    </div>
+  )
+
+  const renderTrack = (track: Track) => {
+    const isPrimary = track.id === primaryTrack?.id
+    const viewEnd = view.start + view.duration
+    const trackClips = edl
+      ? getTrackClips(edl, track.id).filter(clip => getClipEnd(clip) >= view.start && clip.start <= viewEnd)
+      : []
+    const removable = committedEdl ? removeTrack(committedEdl, track.id) !== committedEdl : false
+
+    return (
+      <div key={track.id} className="flex items-stretch space-x-2">
+        <TrackHeader
+          track={track}
+          active={edl ? isTrackActive(edl, track.id) : true}
+          exportOnly={!isPrimary}
+          onChange={canEdit ? (changes, label) => handleTrackChange(track, changes, label) : undefined}
+          onRemove={canEdit && removable ? () => handleRemoveTrack(track) : undefined}
+        />
+
+        <div
+          data-track-id={track.id}
+          className={`relative flex-1 bg-black/30 rounded-lg cursor-pointer overflow-hidden ${track.locked ? 'opacity-60' : ''}`}
+          style={{ height: getTrackHeight(track) }}
+          onClick={handleTimelineClick}
+        >
+          {isPrimary && clips.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center text-xs text-white/40">
+              No clips on the timeline
+            </div>
+          )}
+
+          {trackClips.map(clip => renderClip(clip, track))}
+
+          {isPrimary && (
+            <>
+              {/* Transitions, and a button on every bare cut to add one */}
+              {cuts.filter(cut => cut.time >= view.start && cut.time <= viewEnd).map(cut => {
+                const transition = cut.transition
+                if (!transition) {
+                  return canEditPrimary && (
+                    <button
+                      key={`cut-${cut.to.id}`}
+                      className="absolute top-0 z-10 -translate-x-1/2 w-4 h-4 rounded-full bg-black/70 border border-white/40 text-white/80 flex items-center justify-center opacity-40 hover:opacity-100 transition-opacity"
+                      style={{ left: `${toPercent(cut.time)}%` }}
+                      title="Add a transition"
+                      onPointerDown={(e) => e.stopPropagation()}
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleAddTransition(cut)
+                      }}
+                    >
+                      <Plus className="h-3 w-3" />
+                    </button>
+                  )
+                }
+
+                const range = getTransitionRange(cut)
+                return (
+                  <div
+                    key={transition.id}
+                    className={`absolute bottom-0 h-3 z-10 bg-[#F59E0B]/40 border-x border-[#F59E0B] rounded-sm flex items-center justify-center cursor-pointer ${
+                      selectedSegment === transition.id ? 'ring-2 ring-white/50' : ''
+                    }`}
+                    style={{ left: `${toPercent(range.start)}%`, width: `${toWidth(range.end - range.start)}%` }}
+                    title={`${getTransitionDefinition(transition.type).label} (${getTransitionDuration(cut).toFixed(2)}s)`}
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setTransitionDuration(null)
+                      selectSegment(selectedSegment === transition.id ? null : transition.id, range)
+                    }}
+                  >
+                    <Zap className="h-2 w-2 text-[#F59E0B]" />
+                  </div>
+                )
+              })}
+
+              {/* Proposed cuts */}
+              {proposedCuts.map((range, index) => (
+                <div
+                  key={`proposed-${index}`}
+                  className="absolute top-0 bottom-0 bg-red-500/30 border-x border-red-500/70 z-10 pointer-events-none"
+                  style={{ left: `${toPercent(range.start)}%`, width: `${toWidth(range.end - range.start)}%` }}
+                />
+              ))}
+
+              {/* Highlighted ranges */}
+              {highlightRanges.map((range, index) => (
+                <div
+                  key={`highlight-${index}`}
+                  className="absolute top-0 bottom-0 bg-[#F59E0B]/20 border-x border-[#F59E0B]/70 z-10 pointer-events-none"
+                  style={{ left: `${toPercent(range.start)}%`, width: `${toWidth(range.end - range.start)}%` }}
+                />
+              ))}
+            </>
+          )}
+
+          {snapLine !== null && (
+            <div
+              className="absolute top-0 bottom-0 w-px bg-white z-30 pointer-events-none"
+              style={{ left: `${toPercent(snapLine)}%` }}
+            />
+          )}
+
+          {/* Current time indicator */}
+          <div 
+            className="absolute top-0 bottom-0 w-0.5 bg-[#F59E0B] z-20 shadow-lg pointer-events-none"
+            style={{ left: `${getCurrentPosition()}%` }}
+          />
+        </div>
+      </div>
+    )
+  }
+
   return (
     <Card className="bg-white/5 border-white/10">
       <CardContent className="p-6">
@@ -163,11 +972,23 @@ export function VideoTimeline({
               {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
             </Button>
             
-            <Button size="sm" variant="outline" className="w-8 h-8 p-0">
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-8 h-8 p-0"
+              title="Previous segment (Shift: previous frame)"
+              onClick={(e) => handleSkip(-1, e)}
+            >
               <SkipBack className="h-3 w-3" />
             </Button>
             
-            <Button size="sm" variant="outline" className="w-8 h-8 p-0">
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-8 h-8 p-0"
+              title="Next segment (Shift: next frame)"
+              onClick={(e) => handleSkip(1, e)}
+            >
               <SkipForward className="h-3 w-3" />
             </Button>
             
@@ -178,7 +999,7 @@ export function VideoTimeline({
                 max={100}
                 step={1}
                 className="w-20"
-                onValueChange={(value) => setVolume(value[0])}
+                onValueChange={(value) => onVolumeChange(value[0])}
               />
               <span className="text-xs text-white/60 w-8">{volume}%</span>
             </div>
@@ -195,113 +1016,311 @@ export function VideoTimeline({
               Waveform
             </Button>
             
-            <Button size="sm" variant="outline">
+            <div className="flex items-center">
+              <Button
+                size="sm"
+                variant="outline"
+                className="w-8 h-8 p-0 rounded-r-none"
+                title="Zoom out (Ctrl+wheel or pinch)"
+                disabled={!isZoomed}
+                onClick={() => zoomAt(1 / BUTTON_ZOOM_FACTOR, currentTime)}
+              >
+                <ZoomOut className="h-3 w-3" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="w-8 h-8 p-0 rounded-none border-x-0"
+                title="Show the whole project"
+                disabled={!isZoomed}
+                onClick={() => setZoomedView(null)}
+              >
+                <Maximize2 className="h-3 w-3" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="w-8 h-8 p-0 rounded-l-none"
+                title="Zoom in (Ctrl+wheel or pinch)"
+                disabled={duration === 0 || view.duration <= minViewDuration}
+                onClick={() => zoomAt(BUTTON_ZOOM_FACTOR, currentTime)}
+              >
+                <ZoomIn className="h-3 w-3" />
+              </Button>
+            </div>
+
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setSnapping(!snapping)}
+              className={snapping ? 'bg-[#6366F1]/20 text-[#6366F1]' : ''}
+              title="Snap dragged edges to the playhead, clip edges, markers and beats"
+            >
+              <Magnet className="h-4 w-4 mr-2" />
+              Snap
+            </Button>
+
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setRippleEdits(!rippleEdits)}
+              className={rippleEdits ? 'bg-[#6366F1]/20 text-[#6366F1]' : ''}
+              title="Ripple: trims and deletes close up the timeline instead of leaving gaps"
+            >
+              <ArrowLeftToLine className="h-4 w-4 mr-2" />
+              Ripple
+            </Button>
+
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!canEdit}
+              onClick={handleSplit}
+              title="Split the clip under the playhead"
+            >
               <Scissors className="h-4 w-4 mr-2" />
               Split
             </Button>
             
+            {(markIn !== null || markOut !== null) && (
+              <div className="flex items-center space-x-1">
+                <Badge variant="secondary" className="bg-[#6366F1]/20 text-[#6366F1] font-mono">
+                  {markIn !== null ? formatTime(markIn) : '--:--'} → {markOut !== null ? formatTime(markOut) : '--:--'}
+                </Badge>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!canEdit || !markedRange}
+                  onClick={handleDeleteMarked}
+                  title="Remove the marked range and close the gap"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+                {onClearMarks && (
+                  <Button size="sm" variant="ghost" className="w-8 h-8 p-0" title="Clear marks" onClick={onClearMarks}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            )}
+
             <span className="text-sm text-white/80 font-mono">
-              {formatTime(currentTime)} / {formatTime(duration)}
+              {formatTime(currentTime)} / {formatTime(editedDuration)}
             </span>
           </div>
         </div>
 
         {/* Timeline Visualization */}
-        <div className="space-y-4">
+        <div ref={viewportRef} className="space-y-4">
           {/* Waveform */}
           {showWaveform && (
-            <div className="h-16 bg-black/30 rounded-lg p-2 relative overflow-hidden">
-              <div className="flex items-end h-full space-x-px">
-                {waveformData.map((amplitude, index) => (
-                  <div
-                    key={index}
-                    className="bg-[#6366F1]/60 flex-1 transition-all duration-75"
-                    style={{ 
-                      height: `${amplitude * 100}%`,
-                      opacity: Math.abs(index - (currentTime / duration) * 200) < 10 ? 1 : 0.4
-                    }}
-                  />
-                ))}
+            <div className="flex items-stretch space-x-2">
+              <div className="w-36 shrink-0 flex items-center px-2 text-xs text-white/40">Waveform</div>
+              <div className="flex-1 h-16 bg-black/30 rounded-lg relative overflow-hidden">
+                <WaveformView
+                  waveform={waveform}
+                  isLoading={isWaveformLoading}
+                  error={waveformError}
+                  currentTime={currentTime}
+                  startTime={view.start}
+                  endTime={view.start + view.duration}
+                  mapToSource={mapToSource}
+                />
+                
+                {/* Current time indicator */}
+                <div 
+                  className="absolute top-0 bottom-0 w-0.5 bg-[#F59E0B] z-10"
+                  style={{ left: `${getCurrentPosition()}%` }}
+                />
               </div>
-              
-              {/* Current time indicator */}
-              <div 
-                className="absolute top-0 bottom-0 w-0.5 bg-[#F59E0B] z-10"
-                style={{ left: `${getCurrentPosition()}%` }}
-              />
             </div>
           )}
 
-          {/* Main Timeline */}
-          <div 
-            ref={timelineRef}
-            className="relative h-12 bg-black/30 rounded-lg cursor-pointer overflow-hidden"
-            onClick={handleTimelineClick}
-          >
-            {/* Timeline segments */}
-            {timelineSegments.map((segment) => (
-              <div
-                key={segment.id}
-                className={`absolute top-1 bottom-1 ${segment.color}/30 border-l-2 border-r-2 ${segment.color} rounded transition-all duration-200 hover:scale-y-110 cursor-pointer ${
-                  selectedSegment === segment.id ? 'ring-2 ring-white/50' : ''
-                }`}
-                style={{
-                  left: `${getSegmentLeft(segment)}%`,
-                  width: `${getSegmentWidth(segment)}%`
-                }}
-                onClick={(e) => {
-                  e.stopPropagation()
-                  setSelectedSegment(selectedSegment === segment.id ? null : segment.id)
-                }}
-                title={`${segment.label} (${Math.round(segment.confidence * 100)}% confidence)`}
-              >
-                <div className="flex items-center justify-center h-full">
-                  <div className={`${segment.color} rounded-full p-1`}>
-                    {getSegmentIcon(segment.type)}
+          {/* Analysis lane */}
+          <div className="flex items-stretch space-x-2">
+            <div className="w-36 shrink-0 flex items-center px-2 text-xs text-white/40">Analysis</div>
+            <div
+              className="relative flex-1 h-8 bg-black/30 rounded-lg cursor-pointer overflow-hidden"
+              onClick={handleTimelineClick}
+            >
+              {segments.length === 0 && (
+                <div className="absolute inset-0 flex items-center justify-center text-xs text-white/40">
+                  {statusMessage ?? 'No segments detected yet'}
+                </div>
+              )}
+
+              {/* Timeline segments */}
+              {segments.map((segment) => (
+                <div
+                  key={segment.id}
+                  className={`absolute top-1 bottom-1 ${segment.color}/30 border-l-2 border-r-2 ${segment.color} rounded transition-all duration-200 hover:scale-y-110 cursor-pointer ${
+                    selectedSegment === segment.id ? 'ring-2 ring-white/50' : ''
+                  }`}
+                  style={{
+                    left: `${getSegmentLeft(segment)}%`,
+                    width: `${getSegmentWidth(segment)}%`
+                  }}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    selectSegment(selectedSegment === segment.id ? null : segment.id)
+                  }}
+                  title={`${segment.label} (${Math.round(segment.confidence * 100)}% confidence)`}
+                >
+                  <div className="flex items-center justify-center h-full">
+                    <div className={`${segment.color} rounded-full p-1`}>
+                      {getSegmentIcon(segment.type)}
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))}
+              ))}
 
-            {/* Current time indicator */}
-            <div 
-              className="absolute top-0 bottom-0 w-0.5 bg-[#F59E0B] z-20 shadow-lg"
-              style={{ left: `${getCurrentPosition()}%` }}
-            >
-              <div className="absolute -top-1 -left-1 w-3 h-3 bg-[#F59E0B] rounded-full shadow-lg" />
+              <div 
+                className="absolute top-0 bottom-0 w-0.5 bg-[#F59E0B] z-20"
+                style={{ left: `${getCurrentPosition()}%` }}
+              />
             </div>
+          </div>
 
-            {/* Time markers */}
-            <div className="absolute bottom-0 left-0 right-0 h-2">
-              {Array.from({ length: Math.floor(duration / 10) + 1 }, (_, i) => (
+          {/* Ruler */}
+          <div className="flex items-stretch space-x-2">
+            <div className="w-36 shrink-0" />
+            <div
+              ref={timelineRef}
+              className="relative flex-1 h-6 text-[10px] text-white/60 cursor-pointer overflow-hidden select-none"
+              onClick={handleTimelineClick}
+            >
+              {markedRange && (
+                <div
+                  className="absolute top-0 bottom-0 bg-[#6366F1]/20 pointer-events-none"
+                  style={{ left: `${toPercent(markedRange.start)}%`, width: `${toWidth(markedRange.end - markedRange.start)}%` }}
+                />
+              )}
+              {markIn !== null && (
+                <div
+                  className="absolute top-0 bottom-0 w-1 border-l-2 border-y-2 border-[#6366F1] pointer-events-none"
+                  style={{ left: `${toPercent(markIn)}%` }}
+                  title={`In ${formatTime(markIn)}`}
+                />
+              )}
+              {markOut !== null && (
                 <div
-                  key={i}
-                  className="absolute bottom-0 w-px h-2 bg-white/20"
-                  style={{ left: `${(i * 10 / duration) * 100}%` }}
+                  className="absolute top-0 bottom-0 w-1 -ml-1 border-r-2 border-y-2 border-[#6366F1] pointer-events-none"
+                  style={{ left: `${toPercent(markOut)}%` }}
+                  title={`Out ${formatTime(markOut)}`}
                 />
+              )}
+
+              {markers.filter(marker => marker.time >= view.start && marker.time <= view.start + view.duration).map(marker => (
+                <div
+                  key={marker.id}
+                  className="absolute top-0 bottom-0 z-10 cursor-pointer"
+                  style={{ left: `${toPercent(marker.time)}%` }}
+                  title={`${marker.chapter ? 'Chapter' : 'Marker'}: ${marker.name} (${formatTime(marker.time)})`}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onTimeChange(marker.time)
+                  }}
+                >
+                  <div className={`absolute top-0 bottom-0 w-px ${marker.chapter ? 'opacity-100' : 'opacity-60'}`} style={{ backgroundColor: marker.color }} />
+                  <div
+                    className={`absolute top-0 left-0 h-2.5 ${marker.chapter ? 'w-3' : 'w-2'} rounded-r-sm`}
+                    style={{ backgroundColor: marker.color }}
+                  />
+                </div>
+              ))}
+
+              {ruler.ticks.map(tick => (
+                <div
+                  key={tick.time}
+                  className={`absolute bottom-0 w-px ${tick.major ? 'h-3 bg-white/40' : 'h-1.5 bg-white/20'}`}
+                  style={{ left: `${toPercent(tick.time)}%` }}
+                >
+                  {tick.major && (
+                    <span className="absolute bottom-3 left-1 whitespace-nowrap font-mono">
+                      {formatRulerTime(tick.time, ruler.step, frameRate)}
+                    </span>
+                  )}
+                </div>
               ))}
+
+              <div
+                className="absolute top-0 bottom-0 w-0.5 bg-[#F59E0B] z-20 pointer-events-none"
+                style={{ left: `${getCurrentPosition()}%` }}
+              >
+                <div className="absolute bottom-0 -left-1 w-2.5 h-2.5 bg-[#F59E0B] rounded-full" />
+              </div>
             </div>
           </div>
 
-          {/* Time scale */}
-          <div className="relative h-4 text-xs text-white/60">
-            {Array.from({ length: Math.floor(duration / 30) + 1 }, (_, i) => (
-              <span
-                key={i}
-                className="absolute"
-                style={{ left: `${(i * 30 / duration) * 100}%` }}
-              >
-                {formatTime(i * 30)}
-              </span>
-            ))}
+          {/* Tracks */}
+          <div className="space-y-1">
+            {mediaTracks.map(renderTrack)}
           </div>
+
+          {isZoomed && (
+            <div className="flex items-center space-x-2">
+              <div className="w-36 shrink-0" />
+              <Slider
+                value={[view.start]}
+                max={duration - view.duration}
+                step={view.duration / 100}
+                className="flex-1"
+                onValueChange={(value) => showView({ ...view, start: value[0] })}
+              />
+            </div>
+          )}
+
+          {canEdit && (
+            <div className="flex items-center space-x-1">
+              {NEW_TRACKS.map(({ kind, label }) => (
+                <Button
+                  key={kind}
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 px-2 text-xs text-white/60"
+                  onClick={() => handleAddTrack(kind)}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  {label} Track
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <SubtitleLane
+            cues={subtitles}
+            duration={duration}
+            currentTime={currentTime}
+            onTimeChange={onTimeChange}
+            onCuesChange={subtitleTrack?.locked ? undefined : onSubtitlesChange}
+            onGenerate={onGenerateSubtitles}
+            onImportError={onSubtitleImportError}
+            viewStart={view.start}
+            viewDuration={view.duration}
+            snap={(time) => snapTime(time) ?? time}
+            height={subtitleTrack ? getTrackHeight(subtitleTrack) : undefined}
+            muted={subtitleTrack?.muted}
+            trackHeader={subtitleTrack && edl && (
+              <TrackHeader
+                track={subtitleTrack}
+                active={isTrackActive(edl, subtitleTrack.id)}
+                onChange={canEdit ? (changes, label) => handleTrackChange(subtitleTrack, changes, label) : undefined}
+              />
+            )}
+          />
         </div>
 
         {/* Segment Details */}
         {selectedSegment && (
           <div className="mt-4 p-3 bg-white/5 rounded-lg border border-white/10">
             {(() => {
-              const segment = timelineSegments.find(s => s.id === selectedSegment)
+              const cut = cuts.find(c => c.transition?.id === selectedSegment)
+              if (cut) return renderTransitionDetails(cut)
+
+              const clip = clips.find(c => c.id === selectedSegment)
+              if (clip) return renderClipDetails(clip)
+
+              const segment = segments.find(s => s.id === selectedSegment)
               if (!segment) return null
               
               return (
@@ -322,10 +1341,22 @@ export function VideoTimeline({
                     <Badge variant="secondary" className="bg-green-500/20 text-green-400">
                       {Math.round(segment.confidence * 100)}% confidence
                     </Badge>
-                    <Button size="sm" variant="outline">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!canEditPrimary}
+                      onClick={() => handleEditSegment(segment)}
+                      title="Cut this segment into its own clip"
+                    >
                       Edit
                     </Button>
-                    <Button size="sm" variant="outline">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!canEditPrimary}
+                      onClick={() => handleDeleteSegment(segment)}
+                      title={rippleEdits ? 'Remove this segment and close the gap' : 'Remove this segment and leave a gap'}
+                    >
                       Delete
                     </Button>
                   </div>
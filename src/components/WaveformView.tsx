@@ -0,0 +1,104 @@
+import { useEffect, useRef, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { selectWaveformLevel, type Waveform } from '../lib/waveform'
+
+interface WaveformViewProps {
+  waveform?: Waveform | null
+  isLoading?: boolean
+  error?: string | null
+  currentTime: number
+  startTime: number
+  endTime: number
+  // Maps timeline time to source time when the timeline is an edit of the source; null inside gaps
+  mapToSource?: (time: number) => number | null
+}
+
+const PLAYED_COLOR = 'rgba(99, 102, 241, 0.9)'
+const UNPLAYED_COLOR = 'rgba(99, 102, 241, 0.35)'
+
+export function WaveformView({
+  waveform,
+  isLoading,
+  error,
+  currentTime,
+  startTime,
+  endTime,
+  mapToSource = (time) => time
+}: WaveformViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [width, setWidth] = useState(0)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const observer = new ResizeObserver(entries => {
+      setWidth(Math.floor(entries[0].contentRect.width))
+    })
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context || width === 0) return
+
+    const pixelRatio = window.devicePixelRatio || 1
+    const height = canvas.clientHeight
+    canvas.width = width * pixelRatio
+    canvas.height = height * pixelRatio
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+    context.clearRect(0, 0, width, height)
+
+    const visibleSeconds = endTime - startTime
+    if (!waveform || visibleSeconds <= 0) return
+
+    const level = selectWaveformLevel(waveform, visibleSeconds, width)
+    const bucketsPerSecond = waveform.sampleRate / level.bucketSize
+    const playedX = ((currentTime - startTime) / visibleSeconds) * width
+    const pixelSeconds = visibleSeconds / width
+
+    for (let x = 0; x < width; x++) {
+      const sourceStart = mapToSource(startTime + x * pixelSeconds)
+      if (sourceStart === null) continue
+
+      const from = Math.floor(sourceStart * bucketsPerSecond)
+      const to = Math.max(from + 1, Math.floor((sourceStart + pixelSeconds) * bucketsPerSecond))
+      if (from >= level.peaks.length) continue
+
+      let peak = 0
+      let rms = 0
+      for (let i = from; i < Math.min(to, level.peaks.length); i++) {
+        peak = Math.max(peak, level.peaks[i])
+        rms = Math.max(rms, level.rms[i])
+      }
+
+      context.fillStyle = x < playedX ? PLAYED_COLOR : UNPLAYED_COLOR
+      const peakHeight = Math.min(1, peak) * height
+      context.globalAlpha = 0.5
+      context.fillRect(x, height - peakHeight, 1, peakHeight)
+      const rmsHeight = Math.min(1, rms * 2) * height
+      context.globalAlpha = 1
+      context.fillRect(x, height - rmsHeight, 1, rmsHeight)
+    }
+  }, [waveform, width, currentTime, startTime, endTime, mapToSource])
+
+  return (
+    <div className="relative h-full w-full">
+      <canvas ref={canvasRef} className="block h-full w-full" />
+      {(isLoading || error || !waveform) && (
+        <div className="absolute inset-0 flex items-center justify-center text-xs text-white/40">
+          {isLoading ? (
+            <span className="flex items-center space-x-2">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              <span>Decoding audio...</span>
+            </span>
+          ) : (
+            error ?? 'No audio loaded'
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
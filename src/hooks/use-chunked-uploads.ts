@@ -0,0 +1,227 @@
+import { useEffect, useRef, useState } from 'react'
+import { toast } from '@/hooks/use-toast'
+import { loadUploads, removeUploadedParts, saveUpload, uploadPart } from '@/lib/upload-store'
+import {
+  completePart,
+  createUploadSession,
+  getNextPart,
+  getRetryDelay,
+  keepJoinedMedia,
+  matchesUpload,
+  restartUpload,
+  pauseInterruptedUpload,
+  MAX_CONCURRENT_UPLOADS,
+  MAX_UPLOAD_ATTEMPTS,
+  type UploadSession
+} from '@/lib/uploads'
+
+interface ChunkedUploadOptions {
+  concurrency?: number
+  onUploadChange?: (session: UploadSession) => void
+}
+
+type StopReason = 'pause' | 'cancel'
+
+interface RunningUpload {
+  controller: AbortController
+  reason?: StopReason
+}
+
+const getErrorMessage = (error: unknown) => {
+  return error instanceof Error ? error.message : String(error)
+}
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer)
+    reject(new DOMException('Upload stopped', 'AbortError'))
+  }
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort)
+    resolve()
+  }, ms)
+  signal.addEventListener('abort', onAbort, { once: true })
+})
+
+export function useChunkedUploads(
+  userId: string | undefined,
+  { concurrency = MAX_CONCURRENT_UPLOADS, onUploadChange }: ChunkedUploadOptions = {}
+) {
+  const [uploads, setUploads] = useState<UploadSession[]>([])
+  // Files picked in this session; after a reload the user has to choose the file again
+  const files = useRef(new Map<string, File>())
+  const controllers = useRef(new Map<string, RunningUpload>())
+  const onUploadChangeRef = useRef(onUploadChange)
+  onUploadChangeRef.current = onUploadChange
+
+  const commit = (session: UploadSession, { persist = true } = {}) => {
+    setUploads(prev => prev.some(u => u.id === session.id)
+      ? prev.map(u => u.id === session.id ? session : u)
+      : [...prev, session])
+    onUploadChangeRef.current?.(session)
+    // Saving after every part is what lets a later visit carry on from there
+    if (persist && userId) {
+      saveUpload(userId, session).catch(error => console.error('Failed to save upload:', error))
+    }
+  }
+
+  useEffect(() => {
+    if (!userId) return
+
+    let cancelled = false
+    loadUploads(userId)
+      .then(stored => {
+        if (cancelled) return
+
+        const resumed = stored.map(pauseInterruptedUpload)
+        setUploads(prev => {
+          const storedIds = new Set(resumed.map(upload => upload.id))
+          return [...resumed, ...prev.filter(upload => !storedIds.has(upload.id))]
+        })
+      })
+      .catch(error => console.error('Failed to load uploads:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  const runUpload = async (started: UploadSession, file: File) => {
+    const run: RunningUpload = { controller: new AbortController() }
+    controllers.current.set(started.id, run)
+    const { signal } = run.controller
+
+    let session: UploadSession = { ...started, status: 'uploading', partProgress: 0, retryAt: undefined }
+    commit(session)
+
+    try {
+      for (let index = getNextPart(session); index !== -1; index = getNextPart(session)) {
+        try {
+          const part = await uploadPart(session, file, index, {
+            signal,
+            onProgress: (progress) => {
+              session = { ...session, partProgress: progress }
+              commit(session, { persist: false })
+            }
+          })
+          if (signal.aborted) throw new DOMException('Upload stopped', 'AbortError')
+
+          session = completePart(session, index, part)
+          commit(session)
+        } catch (error) {
+          if (signal.aborted) throw error
+
+          // The part is sent again after a pause that doubles with each failure in a row
+          const attempts = session.attempts + 1
+          session = { ...session, attempts, partProgress: 0, error: getErrorMessage(error) }
+          if (attempts >= MAX_UPLOAD_ATTEMPTS) throw error
+
+          const delay = getRetryDelay(attempts)
+          session = { ...session, retryAt: Date.now() + delay }
+          commit(session)
+          await wait(delay, signal)
+          session = { ...session, retryAt: undefined }
+        }
+      }
+
+      // Files too large to store whole are kept joined here, so nothing has to download and join the parts
+      if (session.parts.length > 1) {
+        const urls = session.parts.flatMap(part => part ? [part.url] : [])
+        await keepJoinedMedia(urls, file).catch(error => {
+          console.error('Failed to keep the joined video:', error)
+          toast({
+            title: "Joined Copy Not Kept",
+            description: `${session.fileName} is stored in parts and this browser couldn't keep it joined, so it will be downloaded and joined again each time it is opened.`,
+            variant: "destructive"
+          })
+        })
+      }
+      session = { ...session, status: 'completed', partProgress: 0, finishedAt: Date.now() }
+    } catch (error) {
+      if (signal.aborted) {
+        session = { ...session, status: run.reason === 'pause' ? 'paused' : 'cancelled', partProgress: 0, retryAt: undefined }
+      } else {
+        console.error('Upload failed:', error)
+        session = { ...session, status: 'failed', partProgress: 0, retryAt: undefined, error: getErrorMessage(error) }
+      }
+    } finally {
+      controllers.current.delete(started.id)
+    }
+
+    if (session.status === 'cancelled') {
+      removeUploadedParts(session).catch(error => console.error('Failed to remove uploaded parts:', error))
+      session = { ...session, parts: session.parts.map(() => null) }
+    }
+    if (session.status === 'completed') files.current.delete(session.id)
+    commit(session)
+  }
+
+  const runUploadRef = useRef(runUpload)
+  runUploadRef.current = runUpload
+
+  // Start queued uploads, oldest first, while there are free slots
+  useEffect(() => {
+    const slots = concurrency - controllers.current.size
+    if (slots <= 0) return
+
+    uploads
+      .filter(upload => upload.status === 'queued' && !controllers.current.has(upload.id))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .flatMap(upload => {
+        const file = files.current.get(upload.id)
+        return file ? [{ upload, file }] : []
+      })
+      .slice(0, slots)
+      .forEach(({ upload, file }) => runUploadRef.current(upload, file))
+  }, [uploads, concurrency])
+
+  const start = (projectId: string, file: File, basePath: string, { sourceId }: { sourceId?: string } = {}) => {
+    const session = createUploadSession(projectId, file, basePath, { sourceId })
+    files.current.set(session.id, file)
+    commit(session)
+    return session
+  }
+
+  const stop = (uploadId: string, reason: StopReason) => {
+    const running = controllers.current.get(uploadId)
+    if (!running) return false
+
+    running.reason = reason
+    running.controller.abort()
+    return true
+  }
+
+  const pause = (uploadId: string) => {
+    if (stop(uploadId, 'pause')) return
+
+    const session = uploads.find(u => u.id === uploadId)
+    if (session?.status === 'queued') commit({ ...session, status: 'paused' })
+  }
+
+  const cancel = (uploadId: string) => {
+    if (stop(uploadId, 'cancel')) return
+
+    const session = uploads.find(u => u.id === uploadId)
+    if (session?.status === 'queued' || session?.status === 'paused' || session?.status === 'failed') {
+      removeUploadedParts(session).catch(error => console.error('Failed to remove uploaded parts:', error))
+      commit({ ...session, status: 'cancelled', parts: session.parts.map(() => null), retryAt: undefined })
+    }
+  }
+
+  // Carries on from the last part that went through; a file chosen again must be the one that started it
+  const resume = (uploadId: string, file?: File) => {
+    const session = uploads.find(u => u.id === uploadId)
+    if (!session || controllers.current.has(uploadId) || session.status === 'completed' || session.status === 'queued') return
+
+    const source = file ?? files.current.get(uploadId)
+    if (!source) throw new Error(`Choose ${session.fileName} again to continue uploading it`)
+    if (!matchesUpload(session, source)) throw new Error(`That isn't the file this upload started with (${session.fileName})`)
+
+    files.current.set(uploadId, source)
+    commit(session.status === 'cancelled' ? restartUpload(session) : { ...session, status: 'queued', attempts: 0, error: undefined })
+  }
+
+  const hasFile = (uploadId: string) => files.current.has(uploadId)
+
+  return { uploads, start, pause, resume, cancel, hasFile }
+}
@@ -0,0 +1,183 @@
+import { useEffect, useRef, useState } from 'react'
+import { loadJobs, saveJob } from '@/lib/job-store'
+import {
+  cancelQueuedJob,
+  createJob,
+  resumeJob,
+  retryJob,
+  updateStage,
+  MAX_CONCURRENT_JOBS,
+  type JobStageType,
+  type ProcessingJob
+} from '@/lib/jobs'
+
+export interface StageContext {
+  job: ProcessingJob
+  projectId: string
+  signal: AbortSignal
+  onProgress: (progress: number) => void
+}
+
+// A handler may report that its stage didn't apply (e.g. the feature is switched off)
+export type StageHandler = (context: StageContext) => Promise<'skipped' | void>
+
+interface JobQueueOptions {
+  // Hold off starting jobs until whatever the handlers depend on has loaded
+  paused?: boolean
+  concurrency?: number
+  onJobChange?: (job: ProcessingJob) => void
+}
+
+const getErrorMessage = (error: unknown) => {
+  return error instanceof Error ? error.message : String(error)
+}
+
+export function useJobQueue(
+  userId: string | undefined,
+  handlers: Record<JobStageType, StageHandler>,
+  { paused = false, concurrency = MAX_CONCURRENT_JOBS, onJobChange }: JobQueueOptions = {}
+) {
+  const [jobs, setJobs] = useState<ProcessingJob[]>([])
+  const [loadedUserId, setLoadedUserId] = useState<string>()
+  const controllers = useRef(new Map<string, AbortController>())
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+  const onJobChangeRef = useRef(onJobChange)
+  onJobChangeRef.current = onJobChange
+
+  const commit = (job: ProcessingJob, { persist = true } = {}) => {
+    setJobs(prev => prev.some(j => j.id === job.id)
+      ? prev.map(j => j.id === job.id ? job : j)
+      : [...prev, job])
+    onJobChangeRef.current?.(job)
+    // Progress ticks stay local; a resumed stage starts over anyway
+    if (persist && userId) {
+      saveJob(userId, job).catch(error => console.error('Failed to save processing job:', error))
+    }
+  }
+
+  useEffect(() => {
+    if (!userId) return
+
+    let cancelled = false
+    loadJobs(userId)
+      .then(stored => {
+        if (cancelled) return
+
+        const resumed = stored.map(resumeJob)
+        setJobs(prev => {
+          const storedIds = new Set(resumed.map(job => job.id))
+          return [...resumed, ...prev.filter(job => !storedIds.has(job.id))]
+        })
+      })
+      .catch(error => console.error('Failed to load processing jobs:', error))
+      .finally(() => {
+        if (!cancelled) setLoadedUserId(userId)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  const runJob = async (queued: ProcessingJob) => {
+    const controller = new AbortController()
+    controllers.current.set(queued.id, controller)
+
+    let job: ProcessingJob = { ...queued, status: 'running', startedAt: queued.startedAt ?? Date.now() }
+    commit(job)
+
+    try {
+      for (let index = 0; index < job.stages.length; index++) {
+        const stage = job.stages[index]
+        if (stage.status === 'completed' || stage.status === 'skipped') continue
+
+        job = updateStage(job, index, { status: 'running', progress: 0, startedAt: Date.now(), finishedAt: undefined, error: undefined })
+        commit(job)
+
+        const result = await handlersRef.current[stage.type]({
+          job,
+          projectId: job.projectId,
+          signal: controller.signal,
+          onProgress: (progress) => {
+            if (controller.signal.aborted) return
+            job = updateStage(job, index, { progress: Math.max(0, Math.min(1, progress)) })
+            commit(job, { persist: false })
+          }
+        })
+        if (controller.signal.aborted) throw new DOMException('Job cancelled', 'AbortError')
+
+        job = updateStage(job, index, {
+          status: result === 'skipped' ? 'skipped' : 'completed',
+          progress: 1,
+          finishedAt: Date.now()
+        })
+        commit(job)
+      }
+
+      job = { ...job, status: 'completed', finishedAt: Date.now() }
+    } catch (error) {
+      const index = job.stages.findIndex(stage => stage.status === 'running')
+      const finishedAt = Date.now()
+
+      if (controller.signal.aborted) {
+        job = { ...updateStage(job, index, { status: 'cancelled', finishedAt }), status: 'cancelled', finishedAt }
+      } else {
+        console.error('Processing job failed:', error)
+        const message = getErrorMessage(error)
+        job = {
+          ...updateStage(job, index, { status: 'failed', error: message, finishedAt }),
+          status: 'failed',
+          error: message,
+          finishedAt
+        }
+      }
+    } finally {
+      controllers.current.delete(queued.id)
+    }
+
+    commit(job)
+  }
+  const runJobRef = useRef(runJob)
+  runJobRef.current = runJob
+
+  // Start queued jobs, oldest first, while there are free slots
+  useEffect(() => {
+    if (paused || loadedUserId !== userId) return
+
+    const slots = concurrency - controllers.current.size
+    if (slots <= 0) return
+
+    jobs
+      .filter(job => job.status === 'queued' && !controllers.current.has(job.id))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .slice(0, slots)
+      .forEach(job => runJobRef.current(job))
+  }, [jobs, paused, concurrency, loadedUserId, userId])
+
+  const enqueue = (projectId: string, stageTypes?: JobStageType[]) => {
+    const job = createJob(projectId, stageTypes)
+    commit(job)
+    return job
+  }
+
+  const cancel = (jobId: string) => {
+    const running = controllers.current.get(jobId)
+    if (running) {
+      running.abort()
+      return
+    }
+
+    const job = jobs.find(j => j.id === jobId)
+    if (job?.status === 'queued') commit(cancelQueuedJob(job))
+  }
+
+  const retry = (jobId: string) => {
+    const job = jobs.find(j => j.id === jobId)
+    if (job && (job.status === 'failed' || job.status === 'cancelled')) {
+      commit(retryJob(job))
+    }
+  }
+
+  return { jobs, enqueue, cancel, retry }
+}
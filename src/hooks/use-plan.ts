@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react'
+import { loadPlanId } from '@/lib/plan-store'
+import { getPlan, type PlanId } from '@/lib/plans'
+
+// The signed-in user's plan, which sets limits such as the largest file they can upload
+export function usePlan(userId: string | undefined) {
+  const [planId, setPlanId] = useState<PlanId>()
+
+  useEffect(() => {
+    if (!userId) return
+
+    let cancelled = false
+    loadPlanId(userId)
+      .then(stored => {
+        if (!cancelled) setPlanId(stored)
+      })
+      .catch(error => console.error('Failed to load plan:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  return getPlan(planId)
+}
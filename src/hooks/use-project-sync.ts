@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react'
+import { toast } from '@/hooks/use-toast'
+import { loadProjects, saveProject, type VideoProject } from '@/lib/project-store'
+
+// Edits arrive in bursts: wait for a pause before writing, but never hold a change back longer than the maximum
+const SAVE_DELAY = 1000
+const MAX_SAVE_DELAY = 5000
+// A save that failed is tried again after this, and after every change in the meantime
+const RETRY_DELAY = 10_000
+
+// Processing progress ticks every second or so; it is only worth a write alongside some other change
+const hasUnsavedChanges = (synced: VideoProject | undefined, project: VideoProject) => {
+  if (!synced) return true
+
+  const keys = new Set([...Object.keys(synced), ...Object.keys(project)] as (keyof VideoProject)[])
+  return [...keys].some(key => key !== 'progress' && synced[key] !== project[key])
+}
+
+// Keeps the projects list in step with the database: loads it at sign-in, then writes local changes back
+export function useProjectSync(
+  userId: string | undefined,
+  projects: VideoProject[],
+  setProjects: Dispatch<SetStateAction<VideoProject[]>>
+) {
+  const [loadedUserId, setLoadedUserId] = useState<string>()
+  // The copy of each project last sent to (or read from) the database
+  const syncedRef = useRef(new Map<string, VideoProject>())
+  const projectsRef = useRef(projects)
+  projectsRef.current = projects
+  const saveTimerRef = useRef<number | undefined>(undefined)
+  // When the oldest change still waiting to be written was made
+  const pendingSinceRef = useRef<number | undefined>(undefined)
+
+  useEffect(() => {
+    if (!userId) return
+
+    let cancelled = false
+    loadProjects(userId)
+      .then(stored => {
+        if (cancelled) return
+
+        // An upload can't outlive the page that started it
+        const loaded = stored.map(project =>
+          project.status === 'uploading' && !project.mediaUrl
+            ? { ...project, status: 'error' as const }
+            : project
+        )
+        loaded.forEach(project => syncedRef.current.set(project.id, project))
+
+        setProjects(prev => {
+          // Anything created since sign-in hasn't reached the database yet
+          const storedIds = new Set(loaded.map(project => project.id))
+          return [...prev.filter(project => !storedIds.has(project.id)), ...loaded]
+        })
+      })
+      .catch(error => {
+        console.error('Failed to load projects:', error)
+        toast({
+          title: "Couldn't Load Projects",
+          description: "Your library could not be loaded. Changes will still be saved.",
+          variant: "destructive"
+        })
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedUserId(userId)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, setProjects])
+
+  // Writes every project that differs from the copy last synced
+  const flush = () => {
+    window.clearTimeout(saveTimerRef.current)
+    saveTimerRef.current = undefined
+    pendingSinceRef.current = undefined
+    if (!userId) return
+
+    const changed = projectsRef.current.filter(project => hasUnsavedChanges(syncedRef.current.get(project.id), project))
+    changed.forEach(project => {
+      const previous = syncedRef.current.get(project.id)
+      syncedRef.current.set(project.id, project)
+      saveProject(userId, project, previous).catch(error => {
+        console.error('Failed to save project:', error)
+        toast({
+          title: "Save Failed",
+          description: `Changes to ${project.name} could not be saved. They will be tried again shortly.`,
+          variant: "destructive"
+        })
+        // Keep the local copy; without a synced copy the next save writes all of it again
+        if (syncedRef.current.get(project.id) === project) syncedRef.current.delete(project.id)
+        if (saveTimerRef.current === undefined) {
+          saveTimerRef.current = window.setTimeout(() => flushRef.current(), RETRY_DELAY)
+        }
+      })
+    })
+  }
+  const flushRef = useRef(flush)
+  flushRef.current = flush
+
+  useEffect(() => {
+    if (!userId || !projects.some(project => hasUnsavedChanges(syncedRef.current.get(project.id), project))) return
+
+    const pendingSince = pendingSinceRef.current ?? Date.now()
+    pendingSinceRef.current = pendingSince
+    window.clearTimeout(saveTimerRef.current)
+    saveTimerRef.current = window.setTimeout(
+      () => flushRef.current(),
+      Math.max(0, Math.min(SAVE_DELAY, pendingSince + MAX_SAVE_DELAY - Date.now()))
+    )
+  }, [projects, userId])
+
+  // Changes still waiting for the delay are written before the page goes away
+  useEffect(() => {
+    const flushPending = () => flushRef.current()
+    window.addEventListener('beforeunload', flushPending)
+    window.addEventListener('pagehide', flushPending)
+    return () => {
+      window.removeEventListener('beforeunload', flushPending)
+      window.removeEventListener('pagehide', flushPending)
+    }
+  }, [])
+
+  useEffect(() => {
+    return () => window.clearTimeout(saveTimerRef.current)
+  }, [])
+
+  return { isLoading: Boolean(userId) && loadedUserId !== userId }
+}
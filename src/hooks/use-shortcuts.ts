@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from 'react'
+import { loadShortcutBindings, saveShortcutBindings } from '@/lib/shortcut-store'
+import {
+  getKeyCombo,
+  getShortcutAction,
+  withDefaultShortcuts,
+  type ShortcutAction,
+  type ShortcutBindings
+} from '@/lib/shortcuts'
+
+type ShortcutHandlers = Partial<Record<ShortcutAction, (event: KeyboardEvent) => void>>
+
+const isTyping = (target: EventTarget | null) => {
+  return target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+}
+
+// The user's bindings, saved with their account so they follow them between browsers
+export function useShortcutBindings(userId: string | undefined) {
+  const [bindings, setBindings] = useState<ShortcutBindings>(() => withDefaultShortcuts(undefined))
+
+  useEffect(() => {
+    if (!userId) return
+
+    let cancelled = false
+    loadShortcutBindings(userId)
+      .then(stored => {
+        if (!cancelled) setBindings(withDefaultShortcuts(stored))
+      })
+      .catch(error => console.error('Failed to load shortcuts:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  const updateBindings = (next: ShortcutBindings) => {
+    setBindings(next)
+    if (userId) {
+      saveShortcutBindings(userId, next).catch(error => console.error('Failed to save shortcuts:', error))
+    }
+  }
+
+  return { bindings, updateBindings }
+}
+
+// Runs the handler bound to each key press, unless the user is typing or `enabled` is off
+export function useShortcuts(bindings: ShortcutBindings, handlers: ShortcutHandlers, { enabled = true } = {}) {
+  const bindingsRef = useRef(bindings)
+  bindingsRef.current = bindings
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || isTyping(event.target)) return
+
+      const combo = getKeyCombo(event)
+      const action = combo ? getShortcutAction(bindingsRef.current, combo) : undefined
+      const handler = action ? handlersRef.current[action] : undefined
+      if (!handler) return
+
+      event.preventDefault()
+      handler(event)
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [enabled])
+}
@@ -0,0 +1,42 @@
+import { useEffect, useRef, useState } from 'react'
+import { loadFeedback, saveFeedback } from '@/lib/feedback-store'
+import { recordFeedback, type SuggestionFeedback } from '@/lib/suggestion-feedback'
+
+// The signed-in user's accept/reject counts per suggestion type
+export function useSuggestionFeedback(userId: string | undefined) {
+  const [feedback, setFeedback] = useState<SuggestionFeedback>({})
+  const [loadedUserId, setLoadedUserId] = useState<string>()
+  const feedbackRef = useRef(feedback)
+  feedbackRef.current = feedback
+
+  useEffect(() => {
+    if (!userId) return
+
+    let cancelled = false
+    loadFeedback(userId)
+      .then(stored => {
+        if (!cancelled) setFeedback(stored)
+      })
+      .catch(error => console.error('Failed to load suggestion feedback:', error))
+      .finally(() => {
+        if (!cancelled) setLoadedUserId(userId)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  const recordDecision = (type: string, accepted: boolean) => {
+    const next = recordFeedback(feedbackRef.current, type, accepted)
+    feedbackRef.current = next
+    setFeedback(next)
+
+    // Writing before the stored counts arrive would overwrite them
+    if (userId && loadedUserId === userId) {
+      saveFeedback(userId, type, next[type]).catch(error => console.error('Failed to save suggestion feedback:', error))
+    }
+  }
+
+  return { feedback, recordDecision }
+}
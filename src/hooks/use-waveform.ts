@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react'
+import type { Waveform } from '@/lib/waveform'
+import { loadWaveform } from '@/lib/waveform-loader'
+
+export function useWaveform(projectId?: string, mediaUrl?: string) {
+  const [waveform, setWaveform] = useState<Waveform | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setWaveform(null)
+    setError(null)
+    if (!projectId || !mediaUrl) return
+
+    let cancelled = false
+    setIsLoading(true)
+
+    loadWaveform(projectId, mediaUrl)
+      .then(result => {
+        if (!cancelled) setWaveform(result)
+      })
+      .catch(err => {
+        console.error('Failed to extract waveform:', err)
+        if (!cancelled) setError('No decodable audio track')
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [projectId, mediaUrl])
+
+  return { waveform, isLoading, error }
+}
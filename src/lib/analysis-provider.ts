@@ -0,0 +1,104 @@
+import type { ProcessingQuality } from './scene-detection'
+import type { TimelineSegment, TimeRange } from './timeline'
+import type { Transcript } from './transcript'
+import type { TranscriptSidecar } from './transcription'
+import { blinkAnalysisProvider } from './blink-analysis'
+import { offlineAnalysisProvider } from './offline-analysis'
+
+export type AnalysisProviderId = 'blink' | 'offline'
+export type AnalysisKind = 'audio' | 'color' | 'motion'
+
+export type FindingKind =
+  | 'no_audio'
+  | 'clipping'
+  | 'background_noise'
+  | 'quiet_audio'
+  | 'loud_audio'
+  | 'inconsistent_volume'
+  | 'underexposed'
+  | 'overexposed'
+  | 'low_contrast'
+  | 'color_cast'
+  | 'low_saturation'
+  | 'camera_shake'
+  | 'fast_motion'
+
+export type FindingSeverity = 'info' | 'warning' | 'problem'
+
+export interface AnalysisFinding {
+  kind: FindingKind
+  message: string
+  severity: FindingSeverity
+  confidence: number // 0..1
+  range?: TimeRange // source seconds; absent when the finding covers the whole video
+}
+
+export interface AnalysisRequest {
+  projectId: string
+  mediaUrl: string
+  duration: number
+  quality: ProcessingQuality
+  signal?: AbortSignal
+  onProgress?: (progress: number) => void
+}
+
+export interface AudioAnalysis {
+  hasAudio: boolean
+  loudnessDb: number // average level of the non-silent parts, in dBFS
+  peakDb: number
+  noiseFloorDb: number
+  loudnessRangeDb: number // spread between quiet and loud passages
+  clippingRatio: number // share of the audio at full scale
+  silenceRatio: number
+  confidence: number
+  findings: AnalysisFinding[]
+}
+
+export interface ColorAnalysis {
+  brightness: number // 0..1 average luma
+  contrast: number // 0..1 luma standard deviation
+  saturation: number // 0..1
+  warmth: number // -1 (blue) .. 1 (red)
+  shadowClipping: number // share of pixels crushed to black
+  highlightClipping: number // share of pixels blown to white
+  sampleCount: number
+  confidence: number
+  findings: AnalysisFinding[]
+}
+
+export interface MotionAnalysis {
+  averageMotion: number // 0..1 mean frame difference, scene cuts excluded
+  stability: number // 0..1, 1 being a locked-off camera
+  sampleCount: number
+  confidence: number
+  findings: AnalysisFinding[]
+}
+
+// What the enhance stage stores on a project
+export interface ProjectAnalysis {
+  providerId: AnalysisProviderId
+  audio?: AudioAnalysis
+  color?: ColorAnalysis
+  motion?: MotionAnalysis
+  analyzedAt: string
+}
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId
+  name: string
+  detectScenes(request: AnalysisRequest): Promise<TimelineSegment[]>
+  analyzeAudio(request: AnalysisRequest): Promise<AudioAnalysis>
+  analyzeColor(request: AnalysisRequest): Promise<ColorAnalysis>
+  analyzeMotion(request: AnalysisRequest): Promise<MotionAnalysis>
+  // A transcript file uploaded with the video is read instead of listening to the speech
+  transcribe(request: AnalysisRequest & { sidecar?: TranscriptSidecar }): Promise<Transcript>
+}
+
+export const ANALYSIS_PROVIDERS: Record<AnalysisProviderId, AnalysisProvider> = {
+  blink: blinkAnalysisProvider,
+  offline: offlineAnalysisProvider
+}
+
+export function getAnalysisProvider(id: AnalysisProviderId): AnalysisProvider {
+  return ANALYSIS_PROVIDERS[id]
+}
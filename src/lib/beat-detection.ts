@@ -0,0 +1,63 @@
+import type { Waveform } from './waveform'
+
+export interface BeatDetectionOptions {
+  minInterval: number // seconds between beats; 0.25 allows up to 240 BPM
+  sensitivity: number // how far above the local average a rise in energy has to be
+}
+
+export const DEFAULT_BEAT_OPTIONS: BeatDetectionOptions = {
+  minInterval: 0.25,
+  sensitivity: 1.5
+}
+
+// Onsets are looked for in windows about this long
+const FRAME_SECONDS = 0.01
+// The average a rise is compared against covers this much either side
+const AVERAGE_SECONDS = 0.5
+// Rises quieter than this (in RMS) are noise, not beats
+const MIN_FLUX = 0.0005
+
+// Finds beats as sudden rises in loudness, in source seconds. Good enough to snap edits to;
+// it doesn't try to infer a tempo.
+export function detectBeats(
+  waveform: Waveform,
+  { minInterval, sensitivity }: BeatDetectionOptions = DEFAULT_BEAT_OPTIONS
+): number[] {
+  const level = waveform.levels.find(l => l.bucketSize / waveform.sampleRate >= FRAME_SECONDS) ??
+    waveform.levels[waveform.levels.length - 1]
+  if (!level || level.rms.length < 2) return []
+
+  const bucketSeconds = level.bucketSize / waveform.sampleRate
+  const flux = new Float32Array(level.rms.length)
+  for (let i = 1; i < level.rms.length; i++) {
+    flux[i] = Math.max(0, level.rms[i] ** 2 - level.rms[i - 1] ** 2)
+  }
+
+  // A running sum keeps the local average cheap on hour-long audio
+  const radius = Math.max(1, Math.round(AVERAGE_SECONDS / bucketSeconds))
+  const sums = new Float64Array(flux.length + 1)
+  for (let i = 0; i < flux.length; i++) sums[i + 1] = sums[i] + flux[i]
+
+  const minBuckets = Math.max(1, Math.round(minInterval / bucketSeconds))
+  const beats: number[] = []
+  let lastBeat = -Infinity
+
+  for (let i = 1; i < flux.length - 1; i++) {
+    const from = Math.max(0, i - radius)
+    const to = Math.min(flux.length, i + radius + 1)
+    const average = (sums[to] - sums[from]) / (to - from)
+    const isPeak = flux[i] >= flux[i - 1] && flux[i] > flux[i + 1]
+    if (!isPeak || flux[i] < MIN_FLUX || flux[i] < average * sensitivity) continue
+
+    if (i - lastBeat < minBuckets) {
+      // Of two onsets too close together, keep the stronger
+      const previous = Math.round(beats[beats.length - 1] / bucketSeconds)
+      if (flux[i] <= flux[previous]) continue
+      beats.pop()
+    }
+    beats.push(i * bucketSeconds)
+    lastBeat = i
+  }
+
+  return beats
+}
@@ -0,0 +1,124 @@
+import { blink } from '../blink/client'
+import { offlineAnalysisProvider } from './offline-analysis'
+import { getTranscriptionProvider } from './transcription'
+import type {
+  AnalysisFinding,
+  AnalysisKind,
+  AnalysisProvider,
+  AnalysisRequest,
+  FindingKind,
+  FindingSeverity
+} from './analysis-provider'
+
+const SEVERITIES: FindingSeverity[] = ['info', 'warning', 'problem']
+
+const FINDING_KINDS: Record<AnalysisKind, FindingKind[]> = {
+  audio: ['clipping', 'background_noise', 'quiet_audio', 'loud_audio', 'inconsistent_volume'],
+  color: ['underexposed', 'overexposed', 'low_contrast', 'color_cast', 'low_saturation'],
+  motion: ['camera_shake', 'fast_motion']
+}
+
+const findingsSchema = (kinds: FindingKind[]) => ({
+  type: 'object',
+  properties: {
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: kinds },
+          message: { type: 'string' },
+          severity: { type: 'string', enum: SEVERITIES },
+          confidence: { type: 'number' },
+          start: { type: 'number' },
+          end: { type: 'number' }
+        },
+        required: ['kind', 'message', 'severity', 'confidence']
+      }
+    }
+  },
+  required: ['findings']
+})
+
+// Model output is untrusted: drop anything outside the schema and keep ranges inside the video
+const sanitizeFindings = (value: unknown, kinds: FindingKind[], duration: number): AnalysisFinding[] => {
+  const findings = (value as { findings?: unknown[] } | null)?.findings
+  if (!Array.isArray(findings)) throw new Error('The AI review returned no findings')
+
+  return findings.flatMap((item) => {
+    const finding = item as Record<string, unknown>
+    if (!kinds.includes(finding.kind as FindingKind) || typeof finding.message !== 'string') return []
+
+    const start = Number(finding.start)
+    const end = Number(finding.end)
+    const hasRange = Number.isFinite(start) && Number.isFinite(end) && end > start
+    return [{
+      kind: finding.kind as FindingKind,
+      message: finding.message,
+      severity: SEVERITIES.includes(finding.severity as FindingSeverity) ? finding.severity as FindingSeverity : 'info',
+      confidence: Math.max(0, Math.min(1, Number(finding.confidence) || 0)),
+      ...(hasRange ? { range: { start: Math.max(0, start), end: Math.min(duration, end) } } : {})
+    }]
+  })
+}
+
+// The model can't watch the video, so it reviews the measurements the local pass takes
+const reviewMeasurements = async (
+  subject: AnalysisKind,
+  measurements: object,
+  { duration, signal }: AnalysisRequest
+) => {
+  const kinds = FINDING_KINDS[subject]
+  const { object } = await blink.ai.generateObject({
+    prompt: [
+      `You are a video editor reviewing automated ${subject} measurements of a ${Math.round(duration)} second video.`,
+      'List only the problems worth fixing before publishing, each with a short actionable message.',
+      'Use start and end (in seconds) when a problem is limited to part of the video.',
+      'Rate confidence from 0 to 1. Return an empty list when nothing needs fixing.',
+      `Measurements: ${JSON.stringify(measurements)}`
+    ].join('\n'),
+    schema: findingsSchema(kinds),
+    signal
+  })
+  return sanitizeFindings(object, kinds, duration)
+}
+
+// Local measuring covers most of the time, the review the rest
+const withProgress = (onProgress: AnalysisRequest['onProgress'], share: number) => {
+  return (progress: number) => onProgress?.(progress * share)
+}
+
+export const blinkAnalysisProvider: AnalysisProvider = {
+  id: 'blink',
+  name: 'Blink AI',
+
+  // Cuts are found from sampled frames either way; there is no video model to send them to
+  detectScenes: (request) => offlineAnalysisProvider.detectScenes(request),
+
+  analyzeAudio: async (request) => {
+    const measured = await offlineAnalysisProvider.analyzeAudio({ ...request, onProgress: withProgress(request.onProgress, 0.7) })
+    if (!measured.hasAudio) return measured
+
+    const findings = await reviewMeasurements('audio', measured, request)
+    request.onProgress?.(1)
+    return { ...measured, findings }
+  },
+
+  analyzeColor: async (request) => {
+    const measured = await offlineAnalysisProvider.analyzeColor({ ...request, onProgress: withProgress(request.onProgress, 0.7) })
+    const findings = await reviewMeasurements('color', measured, request)
+    request.onProgress?.(1)
+    return { ...measured, findings }
+  },
+
+  analyzeMotion: async (request) => {
+    const measured = await offlineAnalysisProvider.analyzeMotion({ ...request, onProgress: withProgress(request.onProgress, 0.7) })
+    const findings = await reviewMeasurements('motion', measured, request)
+    request.onProgress?.(1)
+    return { ...measured, findings }
+  },
+
+  transcribe: (request) => {
+    return getTranscriptionProvider(request.sidecar ? 'sidecar' : 'blink').transcribe(request)
+  }
+}
@@ -0,0 +1,57 @@
+import { blink } from '../blink/client'
+import { decodeMonoAudio } from './waveform-loader'
+import { labelSpeakers } from './speaker-diarization'
+import { createSegment, createTranscript, estimateWordTimes, groupWords, type TranscriptSegment, type TranscriptWord } from './transcript'
+import type { TranscriptionProvider } from './transcription'
+import { WAVEFORM_SAMPLE_RATE } from './waveform'
+
+const isRemoteUrl = (url: string) => /^https?:/i.test(url)
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+
+// The speech service doesn't name speakers, so voices are told apart from the audio here. A video whose
+// audio the browser can't decode keeps its transcript, just without speakers.
+const withSpeakers = async (segments: TranscriptSegment[], mediaUrl: string, signal?: AbortSignal) => {
+  try {
+    const response = await fetch(mediaUrl, { signal })
+    if (!response.ok) throw new Error(`Failed to fetch media (${response.status})`)
+    return labelSpeakers(segments, await decodeMonoAudio(await response.arrayBuffer()), WAVEFORM_SAMPLE_RATE)
+  } catch (error) {
+    signal?.throwIfAborted()
+    console.error('Could not tell the speakers apart:', error)
+    return segments
+  }
+}
+
+// Whisper-style verbose output gives timed words and segments; speakers are labelled from the audio
+export const blinkTranscriptionProvider: TranscriptionProvider = {
+  id: 'blink',
+  name: 'Blink AI',
+
+  transcribe: async ({ mediaUrl, signal, onProgress }) => {
+    // Uploaded media can be fetched by the API itself; local files have to be sent along
+    const audio = isRemoteUrl(mediaUrl)
+      ? mediaUrl
+      : await (await fetch(mediaUrl, { signal })).arrayBuffer()
+    onProgress?.(0.1)
+
+    const result = await blink.ai.transcribeAudio({ audio, response_format: 'verbose_json', signal })
+    const words: TranscriptWord[] = (result.words ?? [])
+      .map(word => ({ text: word.word.trim(), start: word.start, end: word.end }))
+      .filter(word => word.text)
+
+    onProgress?.(0.7)
+
+    // Older responses only time whole segments, and some have no segments at all
+    const segments = result.segments?.length ? result.segments.map(segment => {
+      const confidence = clamp01(Math.exp(segment.avg_logprob))
+      const timed = words.filter(word => word.start >= segment.start - 0.01 && word.start < segment.end)
+      const segmentWords = timed.length > 0 ? timed : estimateWordTimes(segment.text.trim(), segment.start, segment.end)
+      return createSegment(segmentWords.map(word => ({ ...word, confidence })))
+    }).filter(segment => segment.words.length > 0) : groupWords(words)
+
+    const labelled = await withSpeakers(segments, mediaUrl, signal)
+    onProgress?.(1)
+    return createTranscript('blink', labelled, result.language)
+  }
+}
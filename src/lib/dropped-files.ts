@@ -0,0 +1,38 @@
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name, undefined, { numeric: true })
+
+const readFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject))
+
+// A directory reader hands its listing over in batches until one comes back empty
+const readDirectory = async (entry: FileSystemDirectoryEntry) => {
+  const reader = entry.createReader()
+  const children: FileSystemEntry[] = []
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) break
+    children.push(...batch)
+  }
+  return children.sort(byName)
+}
+
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  // Skips .DS_Store and other hidden files that come along with folders
+  if (entry.name.startsWith('.')) return []
+  if (entry.isFile) return [await readFile(entry as FileSystemFileEntry)]
+  if (!entry.isDirectory) return []
+
+  const children = await readDirectory(entry as FileSystemDirectoryEntry)
+  const nested = await Promise.all(children.map(readEntry))
+  return nested.flat()
+}
+
+// Every file in a drop, walking into dropped folders, in name order
+export async function getDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  // Entries have to be taken before the first await; the drop's data is gone after that
+  const entries = Array.from(dataTransfer.items ?? [])
+    .map(item => item.kind === 'file' ? item.webkitGetAsEntry() : null)
+    .filter((entry): entry is FileSystemEntry => entry !== null)
+  if (entries.length === 0) return Array.from(dataTransfer.files).sort(byName)
+
+  const nested = await Promise.all(entries.sort(byName).map(readEntry))
+  return nested.flat()
+}
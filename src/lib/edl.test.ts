@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addTransition,
+  createEdl,
+  deleteClip,
+  getClipEnd,
+  getTrackClips,
+  moveClip,
+  rippleDeleteRange,
+  splitClip,
+  trimClip,
+  updateTrack,
+  type Clip,
+  type EditDecisionList
+} from './edl'
+
+const SOURCE = { id: 'source-1', name: 'interview.mp4', duration: 60 }
+
+const clip = (id: string, trackId: string, start: number, sourceIn: number, sourceOut: number): Clip => ({
+  id,
+  trackId,
+  sourceId: SOURCE.id,
+  start,
+  sourceIn,
+  sourceOut,
+  effects: []
+})
+
+// V1: a 0-10, b 10-20, c 20-30. A1: music 5-25, sting 26-28
+const createFixture = (): EditDecisionList => ({
+  ...createEdl(SOURCE),
+  clips: [
+    clip('a', 'V1', 0, 0, 10),
+    clip('b', 'V1', 10, 10, 20),
+    clip('c', 'V1', 20, 20, 30),
+    clip('music', 'A1', 5, 0, 20),
+    clip('sting', 'A1', 26, 40, 42)
+  ]
+})
+
+const spans = (edl: EditDecisionList, trackId: string) => {
+  return getTrackClips(edl, trackId).map(c => [c.start, getClipEnd(c), c.sourceIn])
+}
+
+describe('splitClip', () => {
+  it('splits a clip into two pieces that continue the same media', () => {
+    const edl = splitClip(createFixture(), 'b', 14)
+
+    expect(spans(edl, 'V1')).toEqual([[0, 10, 0], [10, 14, 10], [14, 20, 14], [20, 30, 20]])
+    expect(getTrackClips(edl, 'V1')[1].id).toBe('b')
+  })
+
+  it('hands the outgoing transition to the second piece', () => {
+    const withTransition = addTransition(createFixture(), { type: 'crossfade', fromClipId: 'b', toClipId: 'c', duration: 1 })
+    const edl = splitClip(withTransition, 'b', 14)
+
+    const tail = getTrackClips(edl, 'V1')[2]
+    expect(edl.transitions).toHaveLength(1)
+    expect(edl.transitions[0]).toMatchObject({ fromClipId: tail.id, toClipId: 'c' })
+  })
+
+  it('leaves the list alone when a piece would be too short or the track is locked', () => {
+    const fixture = createFixture()
+
+    expect(splitClip(fixture, 'b', 10)).toBe(fixture)
+    const locked = updateTrack(fixture, 'V1', { locked: true })
+    expect(splitClip(locked, 'b', 14)).toBe(locked)
+  })
+})
+
+describe('trimClip', () => {
+  it('stops at the neighbouring clips without ripple', () => {
+    const edl = trimClip(createFixture(), 'b', 'end', 25)
+
+    expect(spans(edl, 'V1')).toEqual([[0, 10, 0], [10, 20, 10], [20, 30, 20]])
+    expect(spans(trimClip(createFixture(), 'b', 'start', 12), 'V1')[1]).toEqual([12, 20, 12])
+  })
+
+  it('moves later clips on every unlocked track with ripple', () => {
+    const edl = trimClip(createFixture(), 'b', 'end', 18, { ripple: true })
+
+    expect(spans(edl, 'V1')).toEqual([[0, 10, 0], [10, 18, 10], [18, 28, 20]])
+    expect(spans(edl, 'A1')).toEqual([[5, 25, 0], [24, 26, 40]])
+  })
+
+  it('never reaches past the start of the source', () => {
+    const edl = trimClip(createFixture(), 'a', 'start', -5)
+
+    expect(edl.clips.find(c => c.id === 'a')).toMatchObject({ start: 0, sourceIn: 0 })
+  })
+})
+
+describe('ripple delete', () => {
+  it('cuts clips on other tracks that straddle the deleted clip', () => {
+    const edl = deleteClip(createFixture(), 'b', { ripple: true })
+
+    expect(spans(edl, 'V1')).toEqual([[0, 10, 0], [10, 20, 20]])
+    // The music loses the ten seconds under b, and nothing after it overlaps
+    expect(spans(edl, 'A1')).toEqual([[5, 10, 0], [10, 15, 15], [16, 18, 40]])
+  })
+
+  it('leaves locked tracks where they are', () => {
+    const locked = updateTrack(createFixture(), 'A1', { locked: true })
+    const edl = deleteClip(locked, 'b', { ripple: true })
+
+    expect(spans(edl, 'V1')).toEqual([[0, 10, 0], [10, 20, 20]])
+    expect(spans(edl, 'A1')).toEqual(spans(locked, 'A1'))
+  })
+
+  it('only removes the clip without ripple', () => {
+    const edl = deleteClip(createFixture(), 'b')
+
+    expect(spans(edl, 'V1')).toEqual([[0, 10, 0], [20, 30, 20]])
+    expect(spans(edl, 'A1')).toEqual(spans(createFixture(), 'A1'))
+  })
+
+  it('keeps the outgoing transition of a clip the range splits', () => {
+    const withTransition = addTransition(createFixture(), { type: 'crossfade', fromClipId: 'b', toClipId: 'c', duration: 1 })
+    const edl = rippleDeleteRange(withTransition, { start: 12, end: 15 })
+
+    const tail = getTrackClips(edl, 'V1')[2]
+    expect(spans(edl, 'V1')).toEqual([[0, 10, 0], [10, 12, 10], [12, 17, 15], [17, 27, 20]])
+    expect(edl.transitions).toHaveLength(1)
+    expect(edl.transitions[0]).toMatchObject({ fromClipId: tail.id, toClipId: 'c' })
+  })
+})
+
+describe('moveClip', () => {
+  it('moves a clip to a free spot on a compatible track', () => {
+    const edl = moveClip(createFixture(), 'sting', 30, 'A1')
+
+    expect(edl.clips.find(c => c.id === 'sting')).toMatchObject({ trackId: 'A1', start: 30 })
+  })
+
+  it('moves a clip across tracks of kinds that can hold it', () => {
+    const edl = moveClip(createFixture(), 'c', 40, 'T1')
+
+    expect(edl.clips.find(c => c.id === 'c')).toMatchObject({ trackId: 'T1', start: 40 })
+  })
+
+  it('refuses moves that overlap, cross into an incompatible or locked track', () => {
+    const fixture = createFixture()
+
+    expect(moveClip(fixture, 'sting', 10, 'A1')).toBe(fixture)
+    expect(moveClip(fixture, 'c', 40, 'A1')).toBe(fixture)
+    expect(moveClip(fixture, 'c', 40, 'S1')).toBe(fixture)
+    const locked = updateTrack(fixture, 'T1', { locked: true })
+    expect(moveClip(locked, 'c', 40, 'T1')).toBe(locked)
+  })
+
+  it('drops transitions the move pulls apart', () => {
+    const withTransition = addTransition(createFixture(), { type: 'crossfade', fromClipId: 'b', toClipId: 'c', duration: 1 })
+
+    expect(moveClip(withTransition, 'c', 40).transitions).toEqual([])
+  })
+})
@@ -0,0 +1,603 @@
+import { mergeRanges, type TimeRange } from './timeline'
+
+// Non-destructive edit model. Everything here is plain serializable data plus pure
+// operations that return a new list; nothing touches React or the DOM.
+
+export type TrackKind = 'video' | 'audio' | 'overlay' | 'subtitle'
+
+export interface SourceMedia {
+  id: string
+  name: string
+  duration: number
+  frameRate?: number
+  width?: number
+  height?: number
+}
+
+export interface ClipEffect {
+  id: string
+  type: string
+  params: Record<string, number | string | boolean>
+  suggestionId?: string // set when an AI suggestion added it, so it can be reverted
+}
+
+export interface Clip {
+  id: string
+  trackId: string
+  sourceId: string
+  start: number // position on the timeline, seconds
+  sourceIn: number // first source second used
+  sourceOut: number // source second the clip stops at (exclusive)
+  label?: string
+  effects: ClipEffect[]
+}
+
+export interface Track {
+  id: string
+  kind: TrackKind
+  name: string
+  muted: boolean
+  locked: boolean
+  solo?: boolean
+  height?: number // lane height in pixels
+}
+
+export interface Transition {
+  id: string
+  type: string
+  fromClipId: string
+  toClipId: string
+  duration: number
+  params?: Record<string, number | string | boolean>
+}
+
+export interface EditDecisionList {
+  version: 1
+  sources: SourceMedia[]
+  tracks: Track[]
+  clips: Clip[]
+  transitions: Transition[]
+}
+
+export type TrimEdge = 'start' | 'end'
+
+// Shortest clip an edit may leave behind
+export const MIN_CLIP_DURATION = 1 / 30
+
+// Lane heights the timeline steps through
+export const TRACK_HEIGHTS = [32, 48, 72]
+
+const EPSILON = 1e-6
+
+const TRACK_PREFIXES: Record<TrackKind, string> = {
+  video: 'V',
+  audio: 'A',
+  overlay: 'T',
+  subtitle: 'S'
+}
+
+const createTrack = (kind: TrackKind, number: number): Track => {
+  const id = `${TRACK_PREFIXES[kind]}${number}`
+  return { id, kind, name: id, muted: false, locked: false }
+}
+
+export function createId(prefix: string) {
+  return `${prefix}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+export function createEdl(source: SourceMedia): EditDecisionList {
+  const videoTrack = createTrack('video', 1)
+
+  return {
+    version: 1,
+    sources: [source],
+    tracks: [videoTrack, createTrack('audio', 1), createTrack('overlay', 1), createTrack('subtitle', 1)],
+    clips: [{
+      id: createId('clip'),
+      trackId: videoTrack.id,
+      sourceId: source.id,
+      start: 0,
+      sourceIn: 0,
+      sourceOut: source.duration,
+      label: source.name,
+      effects: []
+    }],
+    transitions: []
+  }
+}
+
+// --- Queries ---
+
+export function getClipDuration(clip: Clip) {
+  return clip.sourceOut - clip.sourceIn
+}
+
+export function getClipEnd(clip: Clip) {
+  return clip.start + getClipDuration(clip)
+}
+
+export function getEdlDuration(edl: EditDecisionList) {
+  return edl.clips.reduce((max, clip) => Math.max(max, getClipEnd(clip)), 0)
+}
+
+export function getTrackClips(edl: EditDecisionList, trackId: string) {
+  return edl.clips
+    .filter(clip => clip.trackId === trackId)
+    .sort((a, b) => a.start - b.start)
+}
+
+export function getClipAt(edl: EditDecisionList, trackId: string, time: number) {
+  return edl.clips.find(clip =>
+    clip.trackId === trackId && time >= clip.start - EPSILON && time < getClipEnd(clip) - EPSILON
+  )
+}
+
+// Where cuts fall: the start of the timeline and both ends of every clip on any track, in order
+export function getEditPoints(edl: EditDecisionList) {
+  return Array.from(new Set([0, ...edl.clips.flatMap(clip => [clip.start, getClipEnd(clip)])])).sort((a, b) => a - b)
+}
+
+export function getPrimaryVideoTrack(edl: EditDecisionList) {
+  return edl.tracks.find(track => track.kind === 'video')
+}
+
+export function getTrackHeight(track: Track) {
+  return track.height ?? (track.kind === 'subtitle' ? TRACK_HEIGHTS[0] : TRACK_HEIGHTS[1])
+}
+
+// Whether a track is heard: muted tracks never are, and once any track is soloed only soloed ones are.
+// The subtitle track's mute hides its captions and it takes no part in solo.
+export function isTrackActive(edl: EditDecisionList, trackId: string) {
+  const track = edl.tracks.find(t => t.id === trackId)
+  if (!track || track.muted) return false
+  if (track.kind === 'subtitle') return true
+
+  const soloing = edl.tracks.some(t => t.solo && t.kind !== 'subtitle')
+  return !soloing || Boolean(track.solo)
+}
+
+// Captions play unless the subtitle track is muted; lists without one always show them
+export function isSubtitleTrackActive(edl: EditDecisionList) {
+  const track = edl.tracks.find(t => t.kind === 'subtitle')
+  return !track || isTrackActive(edl, track.id)
+}
+
+// Clips move between tracks of the same kind, and between video and overlay tracks since both are pictures
+export function areTracksCompatible(a: TrackKind, b: TrackKind) {
+  const isVisual = (kind: TrackKind) => kind === 'video' || kind === 'overlay'
+  return a === b || (isVisual(a) && isVisual(b))
+}
+
+export function getSource(edl: EditDecisionList, sourceId: string) {
+  return edl.sources.find(source => source.id === sourceId)
+}
+
+// Resolves a timeline time to the clip on the primary video track and the matching source time
+export function locateTime(edl: EditDecisionList, time: number) {
+  const track = getPrimaryVideoTrack(edl)
+  const clip = track ? getClipAt(edl, track.id, time) : undefined
+  if (!clip) return null
+
+  return { clip, sourceTime: clip.sourceIn + (time - clip.start) }
+}
+
+// Where a stretch of source media currently appears on the timeline, if anywhere
+export function mapSourceRange(
+  edl: EditDecisionList,
+  sourceId: string,
+  range: TimeRange,
+  trackId = getPrimaryVideoTrack(edl)?.id
+): TimeRange[] {
+  const mapped: TimeRange[] = []
+
+  for (const clip of edl.clips) {
+    if (clip.trackId !== trackId || clip.sourceId !== sourceId) continue
+
+    const start = Math.max(range.start, clip.sourceIn)
+    const end = Math.min(range.end, clip.sourceOut)
+    if (end - start <= EPSILON) continue
+
+    mapped.push({
+      start: clip.start + (start - clip.sourceIn),
+      end: clip.start + (end - clip.sourceIn)
+    })
+  }
+
+  return mergeRanges(mapped)
+}
+
+// Timeline positions at which a source second is currently shown
+export function mapSourceTime(
+  edl: EditDecisionList,
+  sourceId: string,
+  time: number,
+  trackId = getPrimaryVideoTrack(edl)?.id
+): number[] {
+  return edl.clips
+    .filter(clip => clip.trackId === trackId && clip.sourceId === sourceId && time >= clip.sourceIn && time < clip.sourceOut)
+    .map(clip => clip.start + (time - clip.sourceIn))
+}
+
+// --- Operations ---
+
+const isTrackLocked = (edl: EditDecisionList, trackId: string) => {
+  return edl.tracks.find(track => track.id === trackId)?.locked ?? false
+}
+
+// Drops transitions whose clips no longer exist or no longer touch
+const pruneTransitions = (edl: EditDecisionList): EditDecisionList => {
+  const byId = new Map(edl.clips.map(clip => [clip.id, clip]))
+  const transitions = edl.transitions.filter(transition => {
+    const from = byId.get(transition.fromClipId)
+    const to = byId.get(transition.toClipId)
+    return from && to && from.trackId === to.trackId && Math.abs(getClipEnd(from) - to.start) < EPSILON
+  })
+
+  return transitions.length === edl.transitions.length ? edl : { ...edl, transitions }
+}
+
+const updateClips = (edl: EditDecisionList, clips: Clip[]) => {
+  return pruneTransitions({ ...edl, clips })
+}
+
+// Ripple edits keep every unlocked track in sync by shifting everything after the edit point
+const shiftClipsAfter = (edl: EditDecisionList, clips: Clip[], time: number, delta: number, excludeId?: string) => {
+  return clips.map(clip =>
+    clip.id !== excludeId && clip.start >= time - EPSILON && !isTrackLocked(edl, clip.trackId)
+      ? { ...clip, start: Math.max(0, clip.start + delta) }
+      : clip
+  )
+}
+
+export function splitClip(edl: EditDecisionList, clipId: string, time: number): EditDecisionList {
+  const clip = edl.clips.find(c => c.id === clipId)
+  if (!clip || isTrackLocked(edl, clip.trackId)) return edl
+
+  const offset = time - clip.start
+  if (offset < MIN_CLIP_DURATION || getClipDuration(clip) - offset < MIN_CLIP_DURATION) return edl
+
+  const splitPoint = clip.sourceIn + offset
+  const head: Clip = { ...clip, sourceOut: splitPoint }
+  const tail: Clip = { ...clip, id: createId('clip'), start: time, sourceIn: splitPoint }
+
+  // Outgoing transitions now belong to the tail
+  const transitions = edl.transitions.map(transition =>
+    transition.fromClipId === clip.id ? { ...transition, fromClipId: tail.id } : transition
+  )
+
+  return {
+    ...edl,
+    clips: edl.clips.flatMap(c => c.id === clip.id ? [head, tail] : [c]),
+    transitions
+  }
+}
+
+export function splitAtTime(edl: EditDecisionList, time: number): EditDecisionList {
+  return edl.tracks.reduce((current, track) => {
+    const clip = getClipAt(current, track.id, time)
+    return clip ? splitClip(current, clip.id, time) : current
+  }, edl)
+}
+
+export function trimClip(
+  edl: EditDecisionList,
+  clipId: string,
+  edge: TrimEdge,
+  time: number,
+  { ripple = false }: { ripple?: boolean } = {}
+): EditDecisionList {
+  const clip = edl.clips.find(c => c.id === clipId)
+  if (!clip || isTrackLocked(edl, clip.trackId)) return edl
+
+  const source = getSource(edl, clip.sourceId)
+  const neighbours = getTrackClips(edl, clip.trackId).filter(c => c.id !== clip.id)
+  const previousEnd = neighbours.filter(c => c.start < clip.start).reduce((max, c) => Math.max(max, getClipEnd(c)), 0)
+  const nextStart = neighbours.filter(c => c.start > clip.start).reduce((min, c) => Math.min(min, c.start), Infinity)
+
+  if (edge === 'start') {
+    // Can't reach before the source start, past the out point, or (without ripple) into the previous clip
+    const earliest = Math.max(clip.start - clip.sourceIn, ripple ? -Infinity : previousEnd)
+    const latest = getClipEnd(clip) - MIN_CLIP_DURATION
+    const newStart = Math.min(latest, Math.max(earliest, time))
+    const delta = newStart - clip.start
+    if (Math.abs(delta) < EPSILON) return edl
+
+    if (ripple) {
+      // The clip keeps its position and everything after it closes up (or opens) by the trimmed amount
+      const trimmed: Clip = { ...clip, sourceIn: clip.sourceIn + delta }
+      const clips = shiftClipsAfter(edl, edl.clips, getClipEnd(clip), -delta, clip.id)
+      return updateClips(edl, clips.map(c => c.id === clip.id ? trimmed : c))
+    }
+
+    const trimmed: Clip = { ...clip, start: newStart, sourceIn: clip.sourceIn + delta }
+    return updateClips(edl, edl.clips.map(c => c.id === clip.id ? trimmed : c))
+  }
+
+  const sourceLimit = source?.duration ?? clip.sourceOut
+  const latest = Math.min(
+    clip.start + (sourceLimit - clip.sourceIn),
+    ripple ? Infinity : nextStart
+  )
+  const earliest = clip.start + MIN_CLIP_DURATION
+  const newEnd = Math.min(latest, Math.max(earliest, time))
+  const delta = newEnd - getClipEnd(clip)
+  if (Math.abs(delta) < EPSILON) return edl
+
+  const trimmed: Clip = { ...clip, sourceOut: clip.sourceOut + delta }
+  const clips = ripple ? shiftClipsAfter(edl, edl.clips, getClipEnd(clip), delta, clip.id) : edl.clips
+
+  return updateClips(edl, clips.map(c => c.id === clip.id ? trimmed : c))
+}
+
+export function deleteClip(
+  edl: EditDecisionList,
+  clipId: string,
+  { ripple = false }: { ripple?: boolean } = {}
+): EditDecisionList {
+  const clip = edl.clips.find(c => c.id === clipId)
+  if (!clip || isTrackLocked(edl, clip.trackId)) return edl
+
+  // Rippling takes the clip's stretch of time out of every unlocked track, cutting clips that straddle it
+  if (ripple) return rippleDeleteRange(edl, { start: clip.start, end: getClipEnd(clip) })
+
+  return updateClips(edl, edl.clips.filter(c => c.id !== clipId))
+}
+
+// Splits wherever the given source seconds appear on the primary track, on every track
+export function splitAtSourceTimes(edl: EditDecisionList, sourceId: string, times: number[]): EditDecisionList {
+  return times.reduce(
+    (current, time) => mapSourceTime(current, sourceId, time).reduce(splitAtTime, current),
+    edl
+  )
+}
+
+// Undoes splits at the given source seconds: neighbours that continue the same media with the
+// same effects are joined back into one clip
+export function healThroughEdits(edl: EditDecisionList, sourceId: string, times: number[]): EditDecisionList {
+  let current = edl
+
+  for (const track of edl.tracks) {
+    if (track.locked) continue
+
+    const clips = getTrackClips(current, track.id)
+    for (let i = clips.length - 1; i > 0; i--) {
+      const head = clips[i - 1]
+      const tail = clips[i]
+      const isThroughEdit =
+        head.sourceId === sourceId &&
+        tail.sourceId === sourceId &&
+        Math.abs(getClipEnd(head) - tail.start) < EPSILON &&
+        Math.abs(head.sourceOut - tail.sourceIn) < EPSILON &&
+        times.some(time => Math.abs(time - head.sourceOut) < EPSILON) &&
+        JSON.stringify(head.effects) === JSON.stringify(tail.effects)
+      if (!isThroughEdit) continue
+
+      const joined: Clip = { ...head, sourceOut: tail.sourceOut }
+      clips[i - 1] = joined
+      current = {
+        ...current,
+        clips: current.clips.flatMap(c => c.id === tail.id ? [] : c.id === head.id ? [joined] : [c]),
+        // The join swallows the cut between them; the tail's outgoing transitions carry over
+        transitions: current.transitions
+          .filter(t => !(t.fromClipId === head.id && t.toClipId === tail.id))
+          .map(t => t.fromClipId === tail.id ? { ...t, fromClipId: head.id } : t)
+      }
+    }
+  }
+
+  return current
+}
+
+export function rippleDelete(edl: EditDecisionList, clipId: string) {
+  return deleteClip(edl, clipId, { ripple: true })
+}
+
+// Removes a stretch of timeline from every unlocked track and closes the gap
+export function rippleDeleteRange(edl: EditDecisionList, range: TimeRange): EditDecisionList {
+  const length = range.end - range.start
+  if (length <= EPSILON) return edl
+
+  // Clips split in two by the range hand their outgoing transition on to the piece after it
+  const tailIds: Record<string, string> = {}
+
+  const clips = edl.clips.flatMap((clip): Clip[] => {
+    if (isTrackLocked(edl, clip.trackId)) return [clip]
+
+    const clipEnd = getClipEnd(clip)
+    if (clipEnd <= range.start + EPSILON) return [clip]
+    if (clip.start >= range.end - EPSILON) return [{ ...clip, start: clip.start - length }]
+
+    const head: Clip | null = clip.start < range.start - EPSILON
+      ? { ...clip, sourceOut: clip.sourceIn + (range.start - clip.start) }
+      : null
+    const keptHead = head && getClipDuration(head) >= MIN_CLIP_DURATION ? head : null
+    const tail: Clip | null = clipEnd > range.end + EPSILON
+      ? {
+          ...clip,
+          id: keptHead ? createId('clip') : clip.id,
+          start: range.start,
+          sourceIn: clip.sourceIn + (range.end - clip.start)
+        }
+      : null
+    const keptTail = tail && getClipDuration(tail) >= MIN_CLIP_DURATION ? tail : null
+    if (keptHead && keptTail) tailIds[clip.id] = keptTail.id
+
+    return [keptHead, keptTail].filter((piece): piece is Clip => piece !== null)
+  })
+
+  const transitions = edl.transitions.map(transition =>
+    tailIds[transition.fromClipId] ? { ...transition, fromClipId: tailIds[transition.fromClipId] } : transition
+  )
+
+  return updateClips({ ...edl, transitions }, clips)
+}
+
+// Cuts the given stretches of source media out of the edit wherever they appear
+export function removeSourceRanges(edl: EditDecisionList, sourceId: string, ranges: TimeRange[]): EditDecisionList {
+  const timelineRanges = mergeRanges(ranges.flatMap(range => mapSourceRange(edl, sourceId, range)))
+
+  // Work backwards so earlier ranges keep their positions while later ones are removed
+  return [...timelineRanges]
+    .reverse()
+    .reduce((current, range) => rippleDeleteRange(current, range), edl)
+}
+
+export function moveClip(
+  edl: EditDecisionList,
+  clipId: string,
+  start: number,
+  trackId?: string
+): EditDecisionList {
+  const clip = edl.clips.find(c => c.id === clipId)
+  const targetTrackId = trackId ?? clip?.trackId
+  if (!clip || !targetTrackId) return edl
+  if (isTrackLocked(edl, clip.trackId) || isTrackLocked(edl, targetTrackId)) return edl
+
+  const fromTrack = edl.tracks.find(track => track.id === clip.trackId)
+  const toTrack = edl.tracks.find(track => track.id === targetTrackId)
+  if (!fromTrack || !toTrack || !areTracksCompatible(fromTrack.kind, toTrack.kind)) return edl
+
+  const moved: Clip = { ...clip, start: Math.max(0, start), trackId: targetTrackId }
+  const overlaps = edl.clips.some(c =>
+    c.id !== clip.id &&
+    c.trackId === targetTrackId &&
+    moved.start < getClipEnd(c) - EPSILON &&
+    getClipEnd(moved) > c.start + EPSILON
+  )
+  if (overlaps) return edl
+
+  return updateClips(edl, edl.clips.map(c => c.id === clip.id ? moved : c))
+}
+
+// --- Tracks ---
+
+// New tracks are numbered after the highest existing one of their kind, e.g. V3 after V1 and V2
+export function addTrack(edl: EditDecisionList, kind: TrackKind): EditDecisionList {
+  const prefix = TRACK_PREFIXES[kind]
+  const highest = edl.tracks
+    .filter(track => track.kind === kind && track.id.startsWith(prefix))
+    .reduce((max, track) => Math.max(max, Number(track.id.slice(prefix.length)) || 0), 0)
+
+  let number = highest + 1
+  while (edl.tracks.some(track => track.id === `${prefix}${number}`)) number++
+  return { ...edl, tracks: [...edl.tracks, createTrack(kind, number)] }
+}
+
+export function updateTrack(
+  edl: EditDecisionList,
+  trackId: string,
+  changes: Partial<Pick<Track, 'name' | 'muted' | 'locked' | 'solo' | 'height'>>
+): EditDecisionList {
+  if (!edl.tracks.some(track => track.id === trackId)) return edl
+  return { ...edl, tracks: edl.tracks.map(track => track.id === trackId ? { ...track, ...changes } : track) }
+}
+
+// Only empty tracks can go, never the primary video track everything is laid against, and never the
+// subtitle track, whose cues live in the project rather than as clips
+export function removeTrack(edl: EditDecisionList, trackId: string): EditDecisionList {
+  const track = edl.tracks.find(t => t.id === trackId)
+  if (!track || track.locked || track.kind === 'subtitle' || track.id === getPrimaryVideoTrack(edl)?.id) return edl
+  if (edl.clips.some(clip => clip.trackId === trackId)) return edl
+  return { ...edl, tracks: edl.tracks.filter(t => t.id !== trackId) }
+}
+
+// Brings in another source and lays all of it after the last clip on the primary video track
+export function appendSource(edl: EditDecisionList, source: SourceMedia): EditDecisionList {
+  const track = getPrimaryVideoTrack(edl)
+  if (!track || isTrackLocked(edl, track.id)) return edl
+
+  const clips = getTrackClips(edl, track.id)
+  const clip: Clip = {
+    id: createId('clip'),
+    trackId: track.id,
+    sourceId: source.id,
+    start: clips.length > 0 ? getClipEnd(clips[clips.length - 1]) : 0,
+    sourceIn: 0,
+    sourceOut: source.duration,
+    label: source.name,
+    effects: []
+  }
+
+  return {
+    ...edl,
+    sources: edl.sources.some(s => s.id === source.id) ? edl.sources : [...edl.sources, source],
+    clips: [...edl.clips, clip]
+  }
+}
+
+// Shifts which part of the source a clip shows without changing its position or length
+export function slipClip(edl: EditDecisionList, clipId: string, delta: number): EditDecisionList {
+  const clip = edl.clips.find(c => c.id === clipId)
+  if (!clip || isTrackLocked(edl, clip.trackId)) return edl
+
+  const sourceDuration = getSource(edl, clip.sourceId)?.duration ?? clip.sourceOut
+  const clamped = Math.min(sourceDuration - clip.sourceOut, Math.max(-clip.sourceIn, delta))
+  if (Math.abs(clamped) < EPSILON) return edl
+
+  const slipped: Clip = { ...clip, sourceIn: clip.sourceIn + clamped, sourceOut: clip.sourceOut + clamped }
+  return { ...edl, clips: edl.clips.map(c => c.id === clip.id ? slipped : c) }
+}
+
+export function addTransition(
+  edl: EditDecisionList,
+  transition: Omit<Transition, 'id'>
+): EditDecisionList {
+  const existing = edl.transitions.filter(t =>
+    !(t.fromClipId === transition.fromClipId && t.toClipId === transition.toClipId)
+  )
+  return pruneTransitions({ ...edl, transitions: [...existing, { ...transition, id: createId('transition') }] })
+}
+
+export function updateTransition(
+  edl: EditDecisionList,
+  transitionId: string,
+  changes: Partial<Pick<Transition, 'type' | 'duration' | 'params'>>
+): EditDecisionList {
+  return {
+    ...edl,
+    transitions: edl.transitions.map(t => t.id === transitionId ? { ...t, ...changes } : t)
+  }
+}
+
+export function removeTransition(edl: EditDecisionList, transitionId: string): EditDecisionList {
+  return { ...edl, transitions: edl.transitions.filter(t => t.id !== transitionId) }
+}
+
+export function addEffect(edl: EditDecisionList, clipId: string, effect: Omit<ClipEffect, 'id'>): EditDecisionList {
+  return {
+    ...edl,
+    clips: edl.clips.map(clip =>
+      clip.id === clipId ? { ...clip, effects: [...clip.effects, { ...effect, id: createId('effect') }] } : clip
+    )
+  }
+}
+
+export function removeEffect(edl: EditDecisionList, clipId: string, effectId: string): EditDecisionList {
+  return {
+    ...edl,
+    clips: edl.clips.map(clip =>
+      clip.id === clipId ? { ...clip, effects: clip.effects.filter(effect => effect.id !== effectId) } : clip
+    )
+  }
+}
+
+// --- Serialization ---
+
+export function serializeEdl(edl: EditDecisionList) {
+  return JSON.stringify(edl)
+}
+
+export function parseEdl(json: string): EditDecisionList {
+  const data = JSON.parse(json)
+  if (data?.version !== 1 || !Array.isArray(data.sources) || !Array.isArray(data.tracks) || !Array.isArray(data.clips)) {
+    throw new Error('Unsupported edit decision list format')
+  }
+
+  return {
+    version: 1,
+    sources: data.sources,
+    tracks: data.tracks,
+    clips: data.clips.map((clip: Clip) => ({ ...clip, effects: clip.effects ?? [] })),
+    transitions: data.transitions ?? []
+  }
+}
@@ -0,0 +1,94 @@
+import type { ClipEffect } from './edl'
+
+export type EffectType =
+  | 'declip'
+  | 'denoise'
+  | 'normalize'
+  | 'compressor'
+  | 'exposure'
+  | 'contrast'
+  | 'saturation'
+  | 'white_balance'
+  | 'stabilize'
+
+export const EFFECT_LABELS: Record<EffectType, string> = {
+  declip: 'Declipping',
+  denoise: 'Noise reduction',
+  normalize: 'Loudness normalization',
+  compressor: 'Volume leveling',
+  exposure: 'Exposure',
+  contrast: 'Contrast',
+  saturation: 'Saturation',
+  white_balance: 'White balance',
+  stabilize: 'Stabilization'
+}
+
+const getParam = (effect: ClipEffect, key: string, fallback: number) => {
+  const value = effect.params[key]
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(3)).toString()
+
+export function getEffectLabel(effect: ClipEffect) {
+  return EFFECT_LABELS[effect.type as EffectType] ?? effect.type
+}
+
+// FFmpeg filters for the export graph, in clip order; effect types we don't know are skipped
+export function getVideoFilters(effects: ClipEffect[]): string[] {
+  return effects.flatMap(effect => {
+    switch (effect.type as EffectType) {
+      case 'exposure':
+        return [`eq=brightness=${formatNumber(getParam(effect, 'brightness', 0))}`]
+      case 'contrast':
+        return [`eq=contrast=${formatNumber(getParam(effect, 'amount', 1))}`]
+      case 'saturation':
+        return [`eq=saturation=${formatNumber(getParam(effect, 'amount', 1))}`]
+      case 'white_balance': {
+        // Positive warmth pushes midtones towards red, negative towards blue
+        const warmth = getParam(effect, 'warmth', 0)
+        return [`colorbalance=rm=${formatNumber(warmth)}:bm=${formatNumber(-warmth)}`]
+      }
+      case 'stabilize':
+        return ['deshake']
+      default:
+        return []
+    }
+  })
+}
+
+export function getAudioFilters(effects: ClipEffect[]): string[] {
+  return effects.flatMap(effect => {
+    switch (effect.type as EffectType) {
+      case 'declip':
+        return ['adeclip']
+      case 'denoise':
+        return [`afftdn=nr=${formatNumber(getParam(effect, 'reductionDb', 12))}`]
+      case 'normalize':
+        return [`loudnorm=I=${formatNumber(getParam(effect, 'targetLufs', -16))}:TP=-1.5:LRA=11`]
+      case 'compressor': {
+        const threshold = 10 ** (getParam(effect, 'thresholdDb', -24) / 20)
+        return [`acompressor=threshold=${formatNumber(threshold)}:ratio=${formatNumber(getParam(effect, 'ratio', 3))}:attack=20:release=250`]
+      }
+      default:
+        return []
+    }
+  })
+}
+
+// A CSS approximation so the player can preview color fixes; audio and stabilization only show in the export
+export function getCssFilter(effects: ClipEffect[]): string | undefined {
+  const filters = effects.flatMap(effect => {
+    switch (effect.type as EffectType) {
+      case 'exposure':
+        return [`brightness(${formatNumber(1 + getParam(effect, 'brightness', 0) * 2)})`]
+      case 'contrast':
+        return [`contrast(${formatNumber(getParam(effect, 'amount', 1))})`]
+      case 'saturation':
+        return [`saturate(${formatNumber(getParam(effect, 'amount', 1))})`]
+      default:
+        return []
+    }
+  })
+  return filters.length > 0 ? filters.join(' ') : undefined
+}
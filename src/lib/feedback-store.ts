@@ -0,0 +1,34 @@
+import { blink } from '../blink/client'
+import type { FeedbackStats, SuggestionFeedback } from './suggestion-feedback'
+
+// One row per user and suggestion type
+interface FeedbackRecord {
+  id: string
+  userId: string
+  type: string
+  accepted: number
+  rejected: number
+  updatedAt: string
+}
+
+const feedbackTable = () => blink.db.table<FeedbackRecord>('suggestion_feedback')
+
+export async function loadFeedback(userId: string): Promise<SuggestionFeedback> {
+  const records = await feedbackTable().list({ where: { userId } })
+
+  return Object.fromEntries(records.map(record => [
+    record.type,
+    { accepted: Number(record.accepted), rejected: Number(record.rejected) }
+  ]))
+}
+
+export async function saveFeedback(userId: string, type: string, stats: FeedbackStats) {
+  await feedbackTable().upsert({
+    id: `${userId}:${type}`,
+    userId,
+    type,
+    accepted: stats.accepted,
+    rejected: stats.rejected,
+    updatedAt: new Date().toISOString()
+  })
+}
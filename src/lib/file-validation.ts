@@ -0,0 +1,104 @@
+import { canDecodeVideo, probeMedia, type MediaMetadata } from './media-probe'
+import { formatFileSize, type Plan } from './plans'
+
+export type VideoContainer = 'mp4' | 'mov' | 'avi' | 'mkv' | 'webm'
+
+export interface FileValidation {
+  valid: boolean
+  error?: string
+  container?: VideoContainer
+  media?: MediaMetadata
+}
+
+type SniffResult = { kind: 'video', container: VideoContainer } | { kind: 'other', description: string }
+
+const CONTAINER_NAMES: Record<VideoContainer, string> = {
+  mp4: 'MP4',
+  mov: 'MOV',
+  avi: 'AVI',
+  mkv: 'MKV',
+  webm: 'WebM'
+}
+
+const HEADER_LENGTH = 64
+
+const readAscii = (bytes: Uint8Array, start: number, length: number) => {
+  return String.fromCharCode(...bytes.subarray(start, start + length))
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[]) => {
+  return signature.every((byte, index) => bytes[index] === byte)
+}
+
+// Files people commonly drop by mistake, so the message can say what they picked instead
+const describeOtherFile = (bytes: Uint8Array): string | null => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return 'a PNG image'
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'a JPEG image'
+  if (readAscii(bytes, 0, 4) === 'GIF8') return 'a GIF image'
+  if (readAscii(bytes, 0, 4) === '%PDF') return 'a PDF document'
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return 'a ZIP archive'
+  if (readAscii(bytes, 0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return 'an MP3 audio file'
+  if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WAVE') return 'a WAV audio file'
+  if (readAscii(bytes, 0, 4) === 'fLaC') return 'a FLAC audio file'
+  if (readAscii(bytes, 0, 4) === 'OggS') return 'an Ogg file'
+  return null
+}
+
+// Identifies the container from its magic bytes; the MIME type browsers report can't be trusted for MOV, AVI or MKV
+export function sniffFileType(header: Uint8Array): SniffResult | null {
+  const boxType = readAscii(header, 4, 4)
+  if (boxType === 'ftyp') {
+    return { kind: 'video', container: readAscii(header, 8, 4) === 'qt  ' ? 'mov' : 'mp4' }
+  }
+  // QuickTime files older than the ftyp box start straight into their atoms
+  if (['moov', 'mdat', 'wide', 'free', 'skip'].includes(boxType)) return { kind: 'video', container: 'mov' }
+
+  if (readAscii(header, 0, 4) === 'RIFF' && readAscii(header, 8, 3) === 'AVI') return { kind: 'video', container: 'avi' }
+
+  if (startsWith(header, [0x1a, 0x45, 0xdf, 0xa3])) {
+    // The EBML header's DocType tells WebM apart from other Matroska files
+    return { kind: 'video', container: readAscii(header, 0, header.length).includes('webm') ? 'webm' : 'mkv' }
+  }
+
+  const description = describeOtherFile(header)
+  return description ? { kind: 'other', description } : null
+}
+
+export async function validateVideoFile(file: File, plan: Plan): Promise<FileValidation> {
+  if (file.size === 0) return { valid: false, error: 'The file is empty' }
+  if (file.size > plan.maxUploadSize) {
+    return {
+      valid: false,
+      error: `The file is ${formatFileSize(file.size)}, over the ${formatFileSize(plan.maxUploadSize)} limit of the ${plan.name} plan`
+    }
+  }
+
+  const header = new Uint8Array(await file.slice(0, HEADER_LENGTH).arrayBuffer())
+  const sniffed = sniffFileType(header)
+  if (!sniffed) return { valid: false, error: 'Not a supported video format (MP4, MOV, AVI, MKV or WebM)' }
+  if (sniffed.kind === 'other') return { valid: false, error: `This is ${sniffed.description}, not a video` }
+
+  const name = CONTAINER_NAMES[sniffed.container]
+  let media: MediaMetadata
+  try {
+    media = await probeMedia(file)
+  } catch (error) {
+    console.error('Failed to read video file:', error)
+    return { valid: false, error: `The ${name} file could not be read; it may be damaged` }
+  }
+
+  if (!media.videoCodec && (!media.width || !media.height)) {
+    return {
+      valid: false,
+      error: media.audioCodec
+        ? `The ${name} file only has audio in it`
+        : `No video track that can be decoded was found in the ${name} file`
+    }
+  }
+  if (!media.width || !media.height || !await canDecodeVideo(file)) {
+    const track = media.videoCodec ? `${media.videoCodec} video track` : 'video track'
+    return { valid: false, error: `The ${track} in the ${name} file could not be decoded` }
+  }
+
+  return { valid: true, container: sniffed.container, media }
+}
@@ -0,0 +1,80 @@
+export interface SampledFrame {
+  time: number
+  image: ImageData
+}
+
+export interface FrameSamplerOptions {
+  width?: number
+  height?: number
+  signal?: AbortSignal
+  onProgress?: (progress: number) => void
+}
+
+const waitForEvent = (target: HTMLVideoElement, event: 'seeked' | 'loadeddata', signal?: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent)
+      target.removeEventListener('error', onError)
+      signal?.removeEventListener('abort', onAbort)
+    }
+    const onEvent = () => {
+      cleanup()
+      resolve()
+    }
+    const onError = () => {
+      cleanup()
+      reject(new Error('Video could not be decoded'))
+    }
+    const onAbort = () => {
+      cleanup()
+      reject(new DOMException('Frame sampling aborted', 'AbortError'))
+    }
+
+    target.addEventListener(event, onEvent)
+    target.addEventListener('error', onError)
+    signal?.addEventListener('abort', onAbort)
+  })
+}
+
+// Seeks a detached video element through the given times and hands back small RGBA frames.
+// Frames are downscaled because every analysis we run works on coarse color and structure.
+export async function* sampleFrames(
+  mediaUrl: string,
+  times: number[],
+  { width = 64, height = 36, signal, onProgress }: FrameSamplerOptions = {}
+): AsyncGenerator<SampledFrame> {
+  const video = document.createElement('video')
+  video.muted = true
+  video.preload = 'auto'
+  video.crossOrigin = 'anonymous'
+  video.playsInline = true
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) {
+    throw new Error('Canvas 2D context is unavailable')
+  }
+
+  try {
+    const loaded = waitForEvent(video, 'loadeddata', signal)
+    video.src = mediaUrl
+    await loaded
+
+    for (let i = 0; i < times.length; i++) {
+      signal?.throwIfAborted()
+
+      const seeked = waitForEvent(video, 'seeked', signal)
+      video.currentTime = times[i]
+      await seeked
+
+      context.drawImage(video, 0, 0, width, height)
+      yield { time: times[i], image: context.getImageData(0, 0, width, height) }
+      onProgress?.((i + 1) / times.length)
+    }
+  } finally {
+    video.removeAttribute('src')
+    video.load()
+  }
+}
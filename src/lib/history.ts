@@ -0,0 +1,106 @@
+export interface HistoryEntry<T> {
+  id: string
+  label: string
+  timestamp: number
+  // Entries recorded with the same group collapse into one undo step
+  group?: string
+  state: T
+}
+
+// Every command records the state it produced, so undo, redo and jumps are plain index moves
+export interface History<T> {
+  entries: HistoryEntry<T>[]
+  index: number
+}
+
+export const HISTORY_LIMIT = 100
+
+const createEntry = <T>(label: string, state: T, group?: string): HistoryEntry<T> => ({
+  id: `history-${Math.random().toString(36).slice(2, 10)}`,
+  label,
+  timestamp: Date.now(),
+  group,
+  state
+})
+
+export function createHistory<T>(state: T, label = 'Opened project'): History<T> {
+  return { entries: [createEntry(label, state)], index: 0 }
+}
+
+export function getPresent<T>(history: History<T>) {
+  return history.entries[history.index].state
+}
+
+export function canUndo<T>(history: History<T>) {
+  return history.index > 0
+}
+
+export function canRedo<T>(history: History<T>) {
+  return history.index < history.entries.length - 1
+}
+
+export function recordHistory<T>(
+  history: History<T>,
+  label: string,
+  state: T,
+  { group }: { group?: string } = {}
+): History<T> {
+  const current = history.entries[history.index]
+
+  // Later steps of a compound operation fold into the entry the first step created
+  if (group && current.group === group && !canRedo(history)) {
+    const entries = [...history.entries]
+    entries[history.index] = { ...current, timestamp: Date.now(), state }
+    return { entries, index: history.index }
+  }
+
+  // Recording after an undo discards the redo branch
+  const entries = [...history.entries.slice(0, history.index + 1), createEntry(label, state, group)]
+    .slice(-HISTORY_LIMIT)
+  return { entries, index: entries.length - 1 }
+}
+
+export function jumpToHistory<T>(history: History<T>, index: number): History<T> {
+  const clamped = Math.max(0, Math.min(history.entries.length - 1, index))
+  return clamped === history.index ? history : { ...history, index: clamped }
+}
+
+export function undoHistory<T>(history: History<T>) {
+  return jumpToHistory(history, history.index - 1)
+}
+
+export function redoHistory<T>(history: History<T>) {
+  return jumpToHistory(history, history.index + 1)
+}
+
+// Applies a change to every recorded state, for data that arrives after editing began (e.g. probed media)
+export function mapHistoryStates<T>(history: History<T>, update: (state: T) => T): History<T> {
+  return {
+    ...history,
+    entries: history.entries.map(entry => ({ ...entry, state: update(entry.state) }))
+  }
+}
+
+// The top-level fields of a state that differ from the state before it. Storing history as a chain of
+// these keeps each undo step small, since an edit usually replaces a single field.
+export interface StateChanges {
+  set: Record<string, unknown>
+  unset: string[]
+}
+
+export function diffStates<T extends object>(previous: T | undefined, state: T): StateChanges {
+  const before = (previous ?? {}) as Record<string, unknown>
+  const after = state as Record<string, unknown>
+
+  return {
+    set: Object.fromEntries(Object.entries(after).filter(([key, value]) => value !== undefined && before[key] !== value)),
+    unset: Object.keys(before).filter(key => before[key] !== undefined && after[key] === undefined)
+  }
+}
+
+// Fields left unchanged are shared with the previous state, as they were before it was stored
+export function applyStateChanges<T extends object>(previous: T | undefined, { set, unset }: StateChanges): T {
+  const state: Record<string, unknown> = { ...previous, ...set }
+  unset.forEach(key => delete state[key])
+  return state as T
+}
@@ -0,0 +1,62 @@
+import { blink } from '../blink/client'
+import type { JobStage, JobStatus, ProcessingJob } from './jobs'
+
+// Stages are stored as a JSON text column
+interface JobRecord {
+  id: string
+  userId: string
+  projectId: string
+  status: JobStatus
+  stages: string
+  error: string | null
+  createdAt: number
+  startedAt: number | null
+  finishedAt: number | null
+  updatedAt: string
+}
+
+const jobsTable = () => blink.db.table<JobRecord>('processing_jobs')
+
+const toJobRecord = (userId: string, job: ProcessingJob): JobRecord => ({
+  id: job.id,
+  userId,
+  projectId: job.projectId,
+  status: job.status,
+  stages: JSON.stringify(job.stages),
+  error: job.error ?? null,
+  createdAt: job.createdAt,
+  startedAt: job.startedAt ?? null,
+  finishedAt: job.finishedAt ?? null,
+  updatedAt: new Date().toISOString()
+})
+
+const fromJobRecord = (record: JobRecord): ProcessingJob => ({
+  id: record.id,
+  projectId: record.projectId,
+  status: record.status,
+  stages: JSON.parse(record.stages) as JobStage[],
+  error: record.error ?? undefined,
+  createdAt: Number(record.createdAt),
+  startedAt: record.startedAt ? Number(record.startedAt) : undefined,
+  finishedAt: record.finishedAt ? Number(record.finishedAt) : undefined
+})
+
+export async function loadJobs(userId: string) {
+  const records = await jobsTable().list({
+    where: { userId },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  return records.flatMap(record => {
+    try {
+      return [fromJobRecord(record)]
+    } catch (error) {
+      console.error('Discarding unreadable processing job:', error)
+      return []
+    }
+  })
+}
+
+export async function saveJob(userId: string, job: ProcessingJob) {
+  await jobsTable().upsert(toJobRecord(userId, job))
+}
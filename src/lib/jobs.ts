@@ -0,0 +1,97 @@
+export type JobStageType = 'analyze' | 'scene_detect' | 'audio' | 'transcribe' | 'enhance' | 'transitions' | 'finalize'
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+export type StageStatus = 'pending' | 'running' | 'completed' | 'skipped' | 'failed' | 'cancelled'
+
+export interface JobStage {
+  type: JobStageType
+  label: string
+  status: StageStatus
+  progress: number // 0..1
+  startedAt?: number
+  finishedAt?: number
+  error?: string
+}
+
+export interface ProcessingJob {
+  id: string
+  projectId: string
+  status: JobStatus
+  stages: JobStage[]
+  createdAt: number
+  startedAt?: number
+  finishedAt?: number
+  error?: string
+}
+
+export const STAGE_LABELS: Record<JobStageType, string> = {
+  analyze: 'Analyzing video content',
+  scene_detect: 'Detecting scenes and cuts',
+  audio: 'Processing audio tracks',
+  transcribe: 'Transcribing speech',
+  enhance: 'Applying AI enhancements',
+  transitions: 'Generating transitions',
+  finalize: 'Finalizing output'
+}
+
+export const DEFAULT_STAGES: JobStageType[] = ['analyze', 'scene_detect', 'audio', 'transcribe', 'enhance', 'transitions', 'finalize']
+
+export const MAX_CONCURRENT_JOBS = 2
+
+export function createJob(projectId: string, stageTypes: JobStageType[] = DEFAULT_STAGES): ProcessingJob {
+  return {
+    id: `job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    projectId,
+    status: 'queued',
+    stages: stageTypes.map(type => ({ type, label: STAGE_LABELS[type], status: 'pending', progress: 0 })),
+    createdAt: Date.now()
+  }
+}
+
+export function updateStage(job: ProcessingJob, index: number, changes: Partial<JobStage>): ProcessingJob {
+  return {
+    ...job,
+    stages: job.stages.map((stage, i) => i === index ? { ...stage, ...changes } : stage)
+  }
+}
+
+export function getJobProgress(job: ProcessingJob) {
+  if (job.stages.length === 0) return 1
+
+  const done = job.stages.reduce((total, stage) =>
+    total + (stage.status === 'completed' || stage.status === 'skipped' ? 1 : stage.progress), 0)
+  return done / job.stages.length
+}
+
+export function getActiveStage(job: ProcessingJob) {
+  return job.stages.find(stage => stage.status === 'running' || stage.status === 'failed' || stage.status === 'cancelled')
+}
+
+export function isJobActive(job: ProcessingJob) {
+  return job.status === 'queued' || job.status === 'running'
+}
+
+// Finished stages are kept; everything from the first unfinished one runs again
+export function retryJob(job: ProcessingJob): ProcessingJob {
+  const firstUnfinished = job.stages.findIndex(stage => stage.status !== 'completed' && stage.status !== 'skipped')
+
+  return {
+    ...job,
+    status: 'queued',
+    finishedAt: undefined,
+    error: undefined,
+    stages: job.stages.map((stage, index) =>
+      firstUnfinished !== -1 && index >= firstUnfinished
+        ? { type: stage.type, label: stage.label, status: 'pending', progress: 0 }
+        : stage
+    )
+  }
+}
+
+// A job that was running when the page went away picks up at the stage it was on
+export function resumeJob(job: ProcessingJob): ProcessingJob {
+  return job.status === 'running' ? retryJob(job) : job
+}
+
+export function cancelQueuedJob(job: ProcessingJob): ProcessingJob {
+  return { ...job, status: 'cancelled', finishedAt: Date.now() }
+}
@@ -0,0 +1,120 @@
+import { formatSubtitles } from './subtitles'
+
+// Timed in timeline seconds, like subtitle cues
+export interface Marker {
+  id: string
+  time: number
+  name: string
+  color: string
+  chapter?: boolean // exported as the start of a chapter
+}
+
+export interface Chapter {
+  start: number
+  end: number
+  title: string
+}
+
+export const MARKER_COLORS = ['#F59E0B', '#6366F1', '#10B981', '#EF4444', '#3B82F6', '#EC4899']
+
+// YouTube only turns timestamps into chapters when the list follows these rules
+const YOUTUBE_MIN_CHAPTERS = 3
+const YOUTUBE_MIN_CHAPTER_LENGTH = 10
+
+export function createMarker(time: number, name: string, color = MARKER_COLORS[0]): Marker {
+  return {
+    id: `marker-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    time,
+    name,
+    color
+  }
+}
+
+export function sortMarkers(markers: Marker[]) {
+  return [...markers].sort((a, b) => a.time - b.time)
+}
+
+export function updateMarker(markers: Marker[], markerId: string, changes: Partial<Omit<Marker, 'id'>>) {
+  return markers.map(marker => marker.id === markerId ? { ...marker, ...changes } : marker)
+}
+
+export function deleteMarker(markers: Marker[], markerId: string) {
+  return markers.filter(marker => marker.id !== markerId)
+}
+
+// The next marker after the time, or the last one before it; markers within `tolerance` count as being at the time
+export function getAdjacentMarker(markers: Marker[], time: number, direction: 1 | -1, tolerance = 0) {
+  const sorted = sortMarkers(markers)
+  return direction > 0
+    ? sorted.find(marker => marker.time > time + tolerance)
+    : sorted.reverse().find(marker => marker.time < time - tolerance)
+}
+
+// Each chapter runs to the next one. The first always starts at zero, so anything before the first
+// chapter marker becomes an intro; markers past the end of the edit are left out.
+export function getChapters(markers: Marker[], duration: number): Chapter[] {
+  const starts = sortMarkers(markers.filter(marker => marker.chapter && marker.time < duration))
+  if (starts.length === 0) return []
+
+  const titled = starts[0].time > 0
+    ? [{ time: 0, name: 'Intro' }, ...starts]
+    : [{ ...starts[0], time: 0 }, ...starts.slice(1)]
+
+  return titled.map((marker, index) => ({
+    start: marker.time,
+    end: titled[index + 1]?.time ?? duration,
+    title: marker.name.trim() || `Chapter ${index + 1}`
+  }))
+}
+
+// Reasons YouTube would ignore these chapters, if any
+export function getYouTubeChapterIssues(chapters: Chapter[]) {
+  const issues: string[] = []
+  if (chapters.length < YOUTUBE_MIN_CHAPTERS) {
+    issues.push(`YouTube needs at least ${YOUTUBE_MIN_CHAPTERS} chapters`)
+  }
+  const short = chapters.filter(chapter => chapter.end - chapter.start < YOUTUBE_MIN_CHAPTER_LENGTH)
+  if (short.length > 0) {
+    issues.push(`${short.map(chapter => `"${chapter.title}"`).join(', ')} ${short.length === 1 ? 'is' : 'are'} shorter than ${YOUTUBE_MIN_CHAPTER_LENGTH} seconds`)
+  }
+  return issues
+}
+
+const formatClockTime = (time: number, withHours: boolean) => {
+  const total = Math.floor(time)
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor(total / 60) % 60
+  const secs = (total % 60).toString().padStart(2, '0')
+  return withHours ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`
+}
+
+// Lines to paste into a YouTube description, e.g. "0:00 Intro"
+export function formatYouTubeChapters(chapters: Chapter[]) {
+  const withHours = chapters.some(chapter => chapter.start >= 3600)
+  return chapters.map(chapter => `${formatClockTime(chapter.start, withHours)} ${chapter.title}`).join('\n')
+}
+
+// A WebVTT file of kind "chapters": one cue per chapter, titled by its text
+export function formatChapterVtt(chapters: Chapter[]) {
+  return formatSubtitles(chapters.map((chapter, index) => ({
+    id: `chapter-${index + 1}`,
+    start: chapter.start,
+    end: chapter.end,
+    text: chapter.title
+  })), 'vtt')
+}
+
+// FFmpeg's metadata file format, which the MP4 muxer writes out as chapter atoms
+export function formatChapterMetadata(chapters: Chapter[]) {
+  const escape = (value: string) => value.replace(/[=;#\\\n]/g, match => `\\${match}`)
+  return [
+    ';FFMETADATA1',
+    ...chapters.flatMap(chapter => [
+      '[CHAPTER]',
+      'TIMEBASE=1/1000',
+      `START=${Math.round(chapter.start * 1000)}`,
+      `END=${Math.round(chapter.end * 1000)}`,
+      `title=${escape(chapter.title)}`
+    ])
+  ].join('\n') + '\n'
+}
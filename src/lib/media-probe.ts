@@ -0,0 +1,655 @@
+export interface MediaMetadata {
+  container: 'mp4' | 'mov' | 'webm' | 'matroska' | 'avi' | 'unknown'
+  duration: number // seconds
+  width: number
+  height: number
+  frameRate?: number
+  videoCodec?: string
+  audioCodec?: string
+  bitrate?: number // bits per second, averaged over the whole file
+  rotation: number // degrees, clockwise
+  audioChannels?: number
+  audioChannelLayout?: string
+  audioSampleRate?: number
+}
+
+type ProbeResult = Partial<MediaMetadata>
+
+const MP4_CODECS: Record<string, string> = {
+  avc1: 'h264',
+  avc3: 'h264',
+  hvc1: 'hevc',
+  hev1: 'hevc',
+  vp09: 'vp9',
+  av01: 'av1',
+  mp4v: 'mpeg4',
+  apcn: 'prores',
+  apch: 'prores',
+  apcs: 'prores',
+  ap4h: 'prores',
+  mp4a: 'aac',
+  'ac-3': 'ac3',
+  'ec-3': 'eac3',
+  Opus: 'opus',
+  fLaC: 'flac',
+  '.mp3': 'mp3',
+  sowt: 'pcm',
+  twos: 'pcm',
+  lpcm: 'pcm'
+}
+
+const MATROSKA_CODECS: Record<string, string> = {
+  'V_MPEG4/ISO/AVC': 'h264',
+  'V_MPEGH/ISO/HEVC': 'hevc',
+  V_VP8: 'vp8',
+  V_VP9: 'vp9',
+  V_AV1: 'av1',
+  A_OPUS: 'opus',
+  A_VORBIS: 'vorbis',
+  A_AAC: 'aac',
+  A_AC3: 'ac3',
+  A_EAC3: 'eac3',
+  A_FLAC: 'flac',
+  'A_MPEG/L3': 'mp3',
+  A_PCM: 'pcm'
+}
+
+// AVI names video codecs by FourCC and audio codecs by WAVE format tag
+const AVI_VIDEO_CODECS: Record<string, string> = {
+  h264: 'h264',
+  avc1: 'h264',
+  x264: 'h264',
+  xvid: 'mpeg4',
+  divx: 'mpeg4',
+  dx50: 'mpeg4',
+  fmp4: 'mpeg4',
+  mjpg: 'mjpeg',
+  hevc: 'hevc',
+  h265: 'hevc'
+}
+
+const AVI_AUDIO_CODECS: Record<number, string> = {
+  0x0001: 'pcm',
+  0x0055: 'mp3',
+  0x00ff: 'aac',
+  0x2000: 'ac3'
+}
+
+const CHANNEL_LAYOUTS: Record<number, string> = {
+  1: 'mono',
+  2: 'stereo',
+  3: '2.1',
+  4: 'quad',
+  6: '5.1',
+  8: '7.1'
+}
+
+// Tracks and Info almost always sit in the first few kilobytes of a Matroska file
+const EBML_READ_LIMIT = 2 * 1024 * 1024
+// The hdrl list with the stream headers comes before any frames
+const AVI_HEADER_READ_LIMIT = 256 * 1024
+// Long enough for a slow disk, short enough that a file the browser stalls on doesn't hold up validation
+const VIDEO_PROBE_TIMEOUT = 10_000
+
+const readBytes = async (file: Blob, start: number, end: number) => {
+  return new DataView(await file.slice(start, Math.min(end, file.size)).arrayBuffer())
+}
+
+const readFourCC = (view: DataView, offset: number) => {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  )
+}
+
+// --- ISO base media (MP4 / MOV) ---
+
+interface Box {
+  type: string
+  start: number // first byte of the payload
+  end: number
+}
+
+const readBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = []
+  let offset = start
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset)
+    const type = readFourCC(view, offset + 4)
+    let headerSize = 8
+
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8))
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < headerSize) break
+
+    boxes.push({ type, start: offset + headerSize, end: Math.min(offset + size, end) })
+    offset += size
+  }
+
+  return boxes
+}
+
+const findBox = (view: DataView, parent: Box, type: string) => {
+  return readBoxes(view, parent.start, parent.end).find(box => box.type === type)
+}
+
+// moov can sit at either end of the file, so walk the top level without reading mdat
+const findTopLevelBox = async (file: Blob, type: string): Promise<{ offset: number; size: number } | null> => {
+  let offset = 0
+
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, offset + 16)
+    let size = header.getUint32(0)
+    const boxType = readFourCC(header, 4)
+    let headerSize = 8
+
+    if (size === 1) {
+      size = Number(header.getBigUint64(8))
+      headerSize = 16
+    } else if (size === 0) {
+      size = file.size - offset
+    }
+    if (size < headerSize) return null
+
+    if (boxType === type) {
+      return { offset, size }
+    }
+    offset += size
+  }
+
+  return null
+}
+
+const parseIsoTrack = (view: DataView, trak: Box, result: ProbeResult) => {
+  const mdia = findBox(view, trak, 'mdia')
+  if (!mdia) return
+
+  const hdlr = findBox(view, mdia, 'hdlr')
+  const handler = hdlr ? readFourCC(view, hdlr.start + 8) : ''
+  if (handler !== 'vide' && handler !== 'soun') return
+
+  const mdhd = findBox(view, mdia, 'mdhd')
+  let trackSeconds = 0
+  if (mdhd) {
+    const version = view.getUint8(mdhd.start)
+    const timescale = view.getUint32(mdhd.start + (version === 1 ? 20 : 12))
+    const duration = version === 1
+      ? Number(view.getBigUint64(mdhd.start + 24))
+      : view.getUint32(mdhd.start + 16)
+    trackSeconds = timescale > 0 ? duration / timescale : 0
+  }
+
+  const stbl = (() => {
+    const minf = findBox(view, mdia, 'minf')
+    return minf ? findBox(view, minf, 'stbl') : undefined
+  })()
+  const stsd = stbl ? findBox(view, stbl, 'stsd') : undefined
+  // stsd: version/flags (4), entry count (4), then the first sample entry
+  const entryStart = stsd ? stsd.start + 8 : -1
+  const format = stsd ? readFourCC(view, entryStart + 4) : ''
+
+  if (handler === 'vide' && !result.videoCodec) {
+    result.videoCodec = MP4_CODECS[format] ?? format.trim()
+
+    const tkhd = findBox(view, trak, 'tkhd')
+    if (tkhd) {
+      const version = view.getUint8(tkhd.start)
+      const matrixStart = tkhd.start + (version === 1 ? 52 : 40)
+      const a = view.getInt32(matrixStart) / 65536
+      const b = view.getInt32(matrixStart + 4) / 65536
+      result.rotation = (Math.round(Math.atan2(b, a) * 180 / Math.PI) + 360) % 360
+      result.width = Math.round(view.getUint32(matrixStart + 36) / 65536)
+      result.height = Math.round(view.getUint32(matrixStart + 40) / 65536)
+    }
+
+    // Fall back to the coded size in the sample entry when tkhd carries none
+    if (stsd && (!result.width || !result.height)) {
+      result.width = view.getUint16(entryStart + 32)
+      result.height = view.getUint16(entryStart + 34)
+    }
+
+    const stts = stbl ? findBox(view, stbl, 'stts') : undefined
+    if (stts && trackSeconds > 0) {
+      const entryCount = view.getUint32(stts.start + 4)
+      let sampleCount = 0
+      for (let i = 0; i < entryCount; i++) {
+        sampleCount += view.getUint32(stts.start + 8 + i * 8)
+      }
+      result.frameRate = Math.round((sampleCount / trackSeconds) * 1000) / 1000
+    }
+  }
+
+  if (handler === 'soun' && !result.audioCodec) {
+    result.audioCodec = MP4_CODECS[format] ?? format.trim()
+    if (stsd) {
+      result.audioChannels = view.getUint16(entryStart + 24)
+      result.audioSampleRate = view.getUint32(entryStart + 32) / 65536
+    }
+  }
+
+  if (!result.duration && trackSeconds > 0) {
+    result.duration = trackSeconds
+  }
+}
+
+const probeIsoBmff = async (file: Blob): Promise<ProbeResult> => {
+  const result: ProbeResult = { rotation: 0 }
+
+  const ftyp = await findTopLevelBox(file, 'ftyp')
+  if (ftyp) {
+    const header = await readBytes(file, ftyp.offset, ftyp.offset + 12)
+    result.container = readFourCC(header, 8) === 'qt  ' ? 'mov' : 'mp4'
+  } else {
+    result.container = 'mov'
+  }
+
+  const moovLocation = await findTopLevelBox(file, 'moov')
+  if (!moovLocation) return result
+
+  const view = await readBytes(file, moovLocation.offset, moovLocation.offset + moovLocation.size)
+  const moov = readBoxes(view, 0, view.byteLength).find(box => box.type === 'moov')
+  if (!moov) return result
+
+  const mvhd = findBox(view, moov, 'mvhd')
+  if (mvhd) {
+    const version = view.getUint8(mvhd.start)
+    const timescale = view.getUint32(mvhd.start + (version === 1 ? 20 : 12))
+    const duration = version === 1
+      ? Number(view.getBigUint64(mvhd.start + 24))
+      : view.getUint32(mvhd.start + 16)
+    if (timescale > 0) {
+      result.duration = duration / timescale
+    }
+  }
+
+  readBoxes(view, moov.start, moov.end)
+    .filter(box => box.type === 'trak')
+    .forEach(trak => parseIsoTrack(view, trak, result))
+
+  return result
+}
+
+// --- Matroska / WebM (EBML) ---
+
+const EBML_IDS = {
+  header: 0x1a45dfa3,
+  docType: 0x4282,
+  segment: 0x18538067,
+  info: 0x1549a966,
+  timecodeScale: 0x2ad7b1,
+  duration: 0x4489,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  trackType: 0x83,
+  codecId: 0x86,
+  defaultDuration: 0x23e383,
+  video: 0xe0,
+  pixelWidth: 0xb0,
+  pixelHeight: 0xba,
+  audio: 0xe1,
+  channels: 0x9f,
+  samplingFrequency: 0xb5,
+  cluster: 0x1f43b675
+}
+
+const EBML_MASTER_IDS = new Set([
+  EBML_IDS.header,
+  EBML_IDS.segment,
+  EBML_IDS.info,
+  EBML_IDS.tracks,
+  EBML_IDS.trackEntry,
+  EBML_IDS.video,
+  EBML_IDS.audio
+])
+
+const readVint = (view: DataView, offset: number, keepMarker: boolean) => {
+  const first = view.getUint8(offset)
+  let length = 1
+  let mask = 0x80
+  while (length <= 8 && !(first & mask)) {
+    mask >>= 1
+    length++
+  }
+  if (length > 8) {
+    throw new Error(`Invalid EBML variable-length integer at byte ${offset}`)
+  }
+
+  let value = keepMarker ? first : first & (mask - 1)
+  let allOnes = (first & (mask - 1)) === mask - 1
+  for (let i = 1; i < length; i++) {
+    const byte = view.getUint8(offset + i)
+    value = value * 256 + byte
+    allOnes = allOnes && byte === 0xff
+  }
+
+  // An all-ones size means "unknown", which live-recorded WebM uses for Segment and Cluster
+  return { value: !keepMarker && allOnes ? Infinity : value, length }
+}
+
+const readEbmlUint = (view: DataView, start: number, end: number) => {
+  let value = 0
+  for (let i = start; i < end; i++) {
+    value = value * 256 + view.getUint8(i)
+  }
+  return value
+}
+
+const readEbmlFloat = (view: DataView, start: number, end: number) => {
+  return end - start === 4 ? view.getFloat32(start) : view.getFloat64(start)
+}
+
+const readEbmlString = (view: DataView, start: number, end: number) => {
+  let text = ''
+  for (let i = start; i < end; i++) {
+    const code = view.getUint8(i)
+    if (code === 0) break
+    text += String.fromCharCode(code)
+  }
+  return text
+}
+
+const probeMatroska = async (file: Blob): Promise<ProbeResult> => {
+  const view = await readBytes(file, 0, EBML_READ_LIMIT)
+  const result: ProbeResult = { rotation: 0, container: 'matroska' }
+  let timecodeScale = 1_000_000
+  let rawDuration: number | undefined
+  let track: { type?: number; codec?: string; defaultDuration?: number; width?: number; height?: number; channels?: number; sampleRate?: number } = {}
+
+  const commitTrack = () => {
+    if (track.type === 1 && !result.videoCodec) {
+      result.videoCodec = track.codec ? MATROSKA_CODECS[track.codec] ?? track.codec : undefined
+      result.width = track.width
+      result.height = track.height
+      if (track.defaultDuration) {
+        result.frameRate = Math.round((1e9 / track.defaultDuration) * 1000) / 1000
+      }
+    } else if (track.type === 2 && !result.audioCodec) {
+      result.audioCodec = track.codec ? MATROSKA_CODECS[track.codec] ?? track.codec : undefined
+      result.audioChannels = track.channels
+      result.audioSampleRate = track.sampleRate
+    }
+    track = {}
+  }
+
+  const walk = (start: number, end: number): boolean => {
+    let offset = start
+    while (offset < end && offset < view.byteLength - 2) {
+      const id = readVint(view, offset, true)
+      const size = readVint(view, offset + id.length, false)
+      const dataStart = offset + id.length + size.length
+      const dataEnd = Math.min(dataStart + size.value, end, view.byteLength)
+
+      // Everything we need precedes the media data
+      if (id.value === EBML_IDS.cluster) return false
+
+      if (EBML_MASTER_IDS.has(id.value)) {
+        const keepGoing = walk(dataStart, dataEnd)
+        if (id.value === EBML_IDS.trackEntry) commitTrack()
+        if (!keepGoing) return false
+      } else {
+        switch (id.value) {
+          case EBML_IDS.docType:
+            result.container = readEbmlString(view, dataStart, dataEnd) === 'webm' ? 'webm' : 'matroska'
+            break
+          case EBML_IDS.timecodeScale:
+            timecodeScale = readEbmlUint(view, dataStart, dataEnd)
+            break
+          case EBML_IDS.duration:
+            rawDuration = readEbmlFloat(view, dataStart, dataEnd)
+            break
+          case EBML_IDS.trackType:
+            track.type = readEbmlUint(view, dataStart, dataEnd)
+            break
+          case EBML_IDS.codecId:
+            track.codec = readEbmlString(view, dataStart, dataEnd)
+            break
+          case EBML_IDS.defaultDuration:
+            track.defaultDuration = readEbmlUint(view, dataStart, dataEnd)
+            break
+          case EBML_IDS.pixelWidth:
+            track.width = readEbmlUint(view, dataStart, dataEnd)
+            break
+          case EBML_IDS.pixelHeight:
+            track.height = readEbmlUint(view, dataStart, dataEnd)
+            break
+          case EBML_IDS.channels:
+            track.channels = readEbmlUint(view, dataStart, dataEnd)
+            break
+          case EBML_IDS.samplingFrequency:
+            track.sampleRate = readEbmlFloat(view, dataStart, dataEnd)
+            break
+        }
+      }
+
+      if (!Number.isFinite(size.value)) return true
+      offset = dataStart + size.value
+    }
+    return true
+  }
+
+  walk(0, view.byteLength)
+
+  if (rawDuration !== undefined) {
+    result.duration = (rawDuration * timecodeScale) / 1e9
+  }
+
+  return result
+}
+
+// --- AVI (RIFF) ---
+
+const findChunks = (view: DataView, type: string) => {
+  const offsets: number[] = []
+  for (let offset = 12; offset + 8 <= view.byteLength; offset++) {
+    if (readFourCC(view, offset) === type) offsets.push(offset + 8)
+  }
+  return offsets
+}
+
+const probeAvi = async (file: Blob): Promise<ProbeResult> => {
+  const view = await readBytes(file, 0, AVI_HEADER_READ_LIMIT)
+  const result: ProbeResult = { rotation: 0, container: 'avi' }
+
+  const [avih] = findChunks(view, 'avih')
+  if (avih !== undefined && avih + 40 <= view.byteLength) {
+    const microSecondsPerFrame = view.getUint32(avih, true)
+    const totalFrames = view.getUint32(avih + 16, true)
+    if (microSecondsPerFrame > 0) {
+      result.frameRate = Math.round((1e6 / microSecondsPerFrame) * 1000) / 1000
+      result.duration = (totalFrames * microSecondsPerFrame) / 1e6
+    }
+    result.width = view.getUint32(avih + 32, true) || undefined
+    result.height = view.getUint32(avih + 36, true) || undefined
+  }
+
+  // Each stream header is followed by a format chunk describing its codec
+  const formats = findChunks(view, 'strf')
+  for (const strh of findChunks(view, 'strh')) {
+    if (strh + 8 > view.byteLength) continue
+
+    const streamType = readFourCC(view, strh)
+    const handler = readFourCC(view, strh + 4).trim().toLowerCase()
+    if (streamType === 'vids' && !result.videoCodec) {
+      result.videoCodec = AVI_VIDEO_CODECS[handler] ?? (handler || undefined)
+    } else if (streamType === 'auds' && !result.audioCodec) {
+      const strf = formats.find(offset => offset > strh)
+      if (strf === undefined || strf + 8 > view.byteLength) continue
+      const formatTag = view.getUint16(strf, true)
+      result.audioCodec = AVI_AUDIO_CODECS[formatTag] ?? `0x${formatTag.toString(16)}`
+      result.audioChannels = view.getUint16(strf + 2, true)
+      result.audioSampleRate = view.getUint32(strf + 4, true)
+    }
+  }
+
+  return result
+}
+
+// --- Fallback: let the browser decode the header ---
+
+const probeWithVideoElement = (file: Blob): Promise<ProbeResult> => {
+  const url = URL.createObjectURL(file)
+  const video = document.createElement('video')
+  video.preload = 'metadata'
+  video.muted = true
+
+  return new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const cleanUp = () => {
+      clearTimeout(timer)
+      video.onloadedmetadata = null
+      video.ondurationchange = null
+      video.onseeked = null
+      video.onerror = null
+      video.removeAttribute('src')
+      video.load()
+      URL.revokeObjectURL(url)
+    }
+
+    const finish = (result: ProbeResult) => {
+      cleanUp()
+      resolve(result)
+    }
+
+    const fail = (message: string) => {
+      cleanUp()
+      reject(new Error(message))
+    }
+
+    // How far the browser can seek is the next best thing when the file never states its duration
+    const getSeekableEnd = () => {
+      return video.seekable.length > 0 ? video.seekable.end(video.seekable.length - 1) : 0
+    }
+
+    const readVideo = (): ProbeResult => {
+      const seekableEnd = getSeekableEnd()
+      return {
+        duration: Number.isFinite(video.duration)
+          ? video.duration
+          : Number.isFinite(seekableEnd) && seekableEnd > 0 ? seekableEnd : undefined,
+        width: video.videoWidth || undefined,
+        height: video.videoHeight || undefined
+      }
+    }
+
+    const finishWithDuration = () => {
+      const result = readVideo()
+      if (result.duration) {
+        finish(result)
+      } else {
+        fail('The video does not report its duration')
+      }
+    }
+
+    timer = setTimeout(() => fail('Timed out reading the video metadata'), VIDEO_PROBE_TIMEOUT)
+
+    video.onloadedmetadata = () => {
+      if (video.duration === Infinity) {
+        // MediaRecorder output has no duration until the browser has seen the end
+        video.ondurationchange = () => {
+          if (Number.isFinite(video.duration)) finish(readVideo())
+        }
+        video.onseeked = finishWithDuration
+        clearTimeout(timer)
+        timer = setTimeout(finishWithDuration, VIDEO_PROBE_TIMEOUT)
+        video.currentTime = Number.MAX_SAFE_INTEGER
+        return
+      }
+      finish(readVideo())
+    }
+    video.onerror = () => finish({})
+    video.src = url
+  })
+}
+
+// The container can list a video track in a codec the browser has no decoder for; only decoding a frame tells
+export function canDecodeVideo(file: Blob): Promise<boolean> {
+  const url = URL.createObjectURL(file)
+  const video = document.createElement('video')
+  video.preload = 'auto'
+  video.muted = true
+
+  return new Promise(resolve => {
+    const finish = (decodable: boolean) => {
+      clearTimeout(timer)
+      video.onloadeddata = null
+      video.onerror = null
+      video.removeAttribute('src')
+      video.load()
+      URL.revokeObjectURL(url)
+      resolve(decodable)
+    }
+
+    // A frame that never arrives is as good as one that can't be decoded
+    const timer = setTimeout(() => finish(false), VIDEO_PROBE_TIMEOUT)
+    video.onloadeddata = () => finish(video.videoWidth > 0 && video.videoHeight > 0)
+    video.onerror = () => finish(false)
+    video.src = url
+  })
+}
+
+const isIsoBmff = (header: DataView) => {
+  return header.byteLength >= 8 && ['ftyp', 'moov', 'mdat', 'wide', 'free', 'skip'].includes(readFourCC(header, 4))
+}
+
+const isAvi = (header: DataView) => {
+  return header.byteLength >= 12 && readFourCC(header, 0) === 'RIFF' && readFourCC(header, 8).startsWith('AVI')
+}
+
+const isEbml = (header: DataView) => {
+  return header.byteLength >= 4 && header.getUint32(0) === EBML_IDS.header
+}
+
+export function getChannelLayout(channels?: number) {
+  if (!channels) return undefined
+  return CHANNEL_LAYOUTS[channels] ?? `${channels} channels`
+}
+
+export async function probeMedia(file: File): Promise<MediaMetadata> {
+  let parsed: ProbeResult = {}
+
+  try {
+    const header = await readBytes(file, 0, 16)
+    if (isIsoBmff(header)) {
+      parsed = await probeIsoBmff(file)
+    } else if (isEbml(header)) {
+      parsed = await probeMatroska(file)
+    } else if (isAvi(header)) {
+      parsed = await probeAvi(file)
+    }
+  } catch (error) {
+    console.warn('Container parsing failed, falling back to the video element:', error)
+  }
+
+  if (!parsed.duration || !parsed.width || !parsed.height) {
+    const fallback = await probeWithVideoElement(file)
+    parsed = {
+      ...fallback,
+      ...Object.fromEntries(Object.entries(parsed).filter(([, value]) => value !== undefined && value !== 0))
+    }
+  }
+
+  const duration = parsed.duration ?? 0
+
+  return {
+    container: parsed.container ?? 'unknown',
+    duration,
+    width: parsed.width ?? 0,
+    height: parsed.height ?? 0,
+    frameRate: parsed.frameRate,
+    videoCodec: parsed.videoCodec,
+    audioCodec: parsed.audioCodec,
+    bitrate: duration > 0 ? Math.round((file.size * 8) / duration) : undefined,
+    rotation: parsed.rotation ?? 0,
+    audioChannels: parsed.audioChannels,
+    audioChannelLayout: getChannelLayout(parsed.audioChannels),
+    audioSampleRate: parsed.audioSampleRate
+  }
+}
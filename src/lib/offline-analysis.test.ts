@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { AnalysisRequest } from './analysis-provider'
+import { sampleFrames, type SampledFrame } from './frame-sampler'
+import { offlineAnalysisProvider } from './offline-analysis'
+import { buildWaveformLevels, WAVEFORM_SAMPLE_RATE } from './waveform'
+import { loadWaveform } from './waveform-loader'
+
+vi.mock('./waveform-loader', () => ({ loadWaveform: vi.fn() }))
+vi.mock('./frame-sampler', () => ({ sampleFrames: vi.fn() }))
+
+const WIDTH = 32
+const HEIGHT = 18
+const DURATION = 60
+
+const request: AnalysisRequest = { projectId: 'project-1', mediaUrl: 'https://example.com/video.mp4', duration: DURATION, quality: 'fast' }
+
+// Seconds of audio, each sample given by its time
+const useAudio = (seconds: number, sample: (time: number) => number) => {
+  const samples = Float32Array.from({ length: seconds * WAVEFORM_SAMPLE_RATE }, (_, i) => sample(i / WAVEFORM_SAMPLE_RATE))
+  vi.mocked(loadWaveform).mockResolvedValue({
+    sampleRate: WAVEFORM_SAMPLE_RATE,
+    duration: seconds,
+    levels: buildWaveformLevels(samples)
+  })
+}
+
+const tone = (amplitude: number) => (time: number) => amplitude * Math.sin(2 * Math.PI * 220 * time)
+
+// Two seconds of sound, then one of near silence, like sentences with pauses between them
+const speech = (amplitude: number) => (time: number) => time % 3 < 2 ? tone(amplitude)(time) : 1e-4
+
+// Frames at the requested times, each pixel given by its position, the frame's index and time
+const useFrames = (pixel: (x: number, y: number, index: number, time: number) => [number, number, number]) => {
+  vi.mocked(sampleFrames).mockImplementation(async function* (_url: string, times: number[]) {
+    for (const [index, time] of times.entries()) {
+      const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4)
+      for (let y = 0; y < HEIGHT; y++) {
+        for (let x = 0; x < WIDTH; x++) {
+          const offset = (y * WIDTH + x) * 4
+          data.set([...pixel(x, y, index, time), 255], offset)
+        }
+      }
+      yield { time, image: { width: WIDTH, height: HEIGHT, data } as ImageData } satisfies SampledFrame
+    }
+  })
+}
+
+// A picture with enough detail for the camera's movement to be measured
+const texture = (x: number, y: number) => 128 + 90 * Math.sin(x * 0.7) * Math.cos(y * 0.5)
+
+const gray = (value: number): [number, number, number] => [value, value, value]
+
+const getKinds = (findings: { kind: string }[]) => findings.map(finding => finding.kind)
+
+beforeEach(() => {
+  vi.mocked(loadWaveform).mockReset()
+  vi.mocked(sampleFrames).mockReset()
+})
+
+describe('offline audio analysis', () => {
+  it('finds nothing to fix in clean, well-leveled speech', async () => {
+    useAudio(DURATION, speech(0.3))
+    const audio = await offlineAnalysisProvider.analyzeAudio(request)
+
+    expect(audio.hasAudio).toBe(true)
+    expect(audio.findings).toEqual([])
+    expect(audio.loudnessDb).toBeCloseTo(-13.5, 0)
+  })
+
+  it('reports a silent track', async () => {
+    useAudio(DURATION, () => 0)
+    const audio = await offlineAnalysisProvider.analyzeAudio(request)
+
+    expect(audio.findings).toEqual([expect.objectContaining({ kind: 'no_audio', severity: 'warning' })])
+  })
+
+  it('reports a missing audio track without failing', async () => {
+    vi.mocked(loadWaveform).mockRejectedValue(new Error('No audio'))
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    const audio = await offlineAnalysisProvider.analyzeAudio(request)
+
+    expect(audio.hasAudio).toBe(false)
+    expect(audio.findings).toEqual([expect.objectContaining({ kind: 'no_audio', severity: 'info' })])
+  })
+
+  it('flags quiet audio', async () => {
+    useAudio(DURATION, speech(0.02))
+    const audio = await offlineAnalysisProvider.analyzeAudio(request)
+
+    expect(audio.findings).toEqual([expect.objectContaining({ kind: 'quiet_audio', severity: 'problem' })])
+  })
+
+  it('flags clipping and where it happens', async () => {
+    // Full-scale square wave between 20 and 25 seconds
+    useAudio(DURATION, time => time >= 20 && time < 25 ? Math.sign(tone(1)(time)) : speech(0.3)(time))
+    const audio = await offlineAnalysisProvider.analyzeAudio(request)
+    const clipping = audio.findings.find(finding => finding.kind === 'clipping')
+
+    expect(clipping?.range?.start).toBeCloseTo(20, 0)
+    expect(clipping?.range?.end).toBeCloseTo(25, 0)
+  })
+
+  it('flags background noise close to the main audio', async () => {
+    useAudio(DURATION, time => speech(0.3)(time) + tone(0.05)(time * 1.37))
+    const audio = await offlineAnalysisProvider.analyzeAudio(request)
+
+    expect(getKinds(audio.findings)).toContain('background_noise')
+  })
+
+  it('flags volume that swings between passages', async () => {
+    useAudio(DURATION, time => speech(time < DURATION / 2 ? 0.5 : 0.02)(time))
+    const audio = await offlineAnalysisProvider.analyzeAudio(request)
+
+    expect(getKinds(audio.findings)).toContain('inconsistent_volume')
+  })
+
+  it('gives the same answer every time', async () => {
+    useAudio(DURATION, time => speech(0.1)(time) + tone(0.02)(time * 1.37))
+    const first = await offlineAnalysisProvider.analyzeAudio(request)
+    const second = await offlineAnalysisProvider.analyzeAudio(request)
+
+    expect(second).toEqual(first)
+  })
+})
+
+describe('offline color analysis', () => {
+  it('finds nothing to fix in balanced footage', async () => {
+    useFrames((x, y) => [texture(x, y), texture(x, y) * 0.8, texture(x, y) * 0.95])
+    const color = await offlineAnalysisProvider.analyzeColor(request)
+
+    expect(color.findings).toEqual([])
+    expect(color.sampleCount).toBe(8)
+  })
+
+  it('describes footage that is dark throughout for the whole video', async () => {
+    useFrames(() => gray(25))
+    const color = await offlineAnalysisProvider.analyzeColor(request)
+    const dark = color.findings.find(finding => finding.kind === 'underexposed')
+
+    expect(dark).toMatchObject({ severity: 'problem' })
+    expect(dark?.range).toBeUndefined()
+    expect(getKinds(color.findings)).toContain('low_contrast')
+  })
+
+  it('limits a finding to the stretch it was seen in', async () => {
+    // The second half of the video is dark
+    useFrames((x, y, _index, time) => gray(time < DURATION / 2 ? texture(x, y) : texture(x, y) * 0.2))
+    const color = await offlineAnalysisProvider.analyzeColor(request)
+    const dark = color.findings.find(finding => finding.kind === 'underexposed')
+
+    expect(dark?.range).toEqual({ start: DURATION / 2, end: DURATION })
+  })
+
+  it('flags a color cast in the direction it leans', async () => {
+    useFrames((x, y) => [Math.min(255, texture(x, y) + 60), texture(x, y), texture(x, y) * 0.4])
+    const color = await offlineAnalysisProvider.analyzeColor(request)
+    const cast = color.findings.find(finding => finding.kind === 'color_cast')
+
+    expect(cast?.message).toContain('warm orange')
+  })
+
+  it('fails when no frames could be read', async () => {
+    vi.mocked(sampleFrames).mockImplementation(async function* () {})
+
+    await expect(offlineAnalysisProvider.analyzeColor(request)).rejects.toThrow('No frames could be read from the video')
+  })
+})
+
+describe('offline motion analysis', () => {
+  it('finds a locked-off camera steady', async () => {
+    useFrames((x, y) => gray(texture(x, y)))
+    const motion = await offlineAnalysisProvider.analyzeMotion(request)
+
+    expect(motion.findings).toEqual([])
+    expect(motion.stability).toBe(1)
+  })
+
+  it('tells shake, which keeps changing direction, from a steady pan', async () => {
+    useFrames((x, y, index) => gray(texture(x + index % 2, y)))
+    const shaky = await offlineAnalysisProvider.analyzeMotion(request)
+
+    useFrames((x, y, index) => gray(texture(x + index, y)))
+    const pan = await offlineAnalysisProvider.analyzeMotion(request)
+
+    expect(shaky.findings).toEqual([expect.objectContaining({ kind: 'camera_shake', severity: 'problem' })])
+    expect(shaky.stability).toBeLessThan(0.5)
+    expect(getKinds(pan.findings)).not.toContain('camera_shake')
+  })
+})
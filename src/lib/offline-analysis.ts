@@ -0,0 +1,466 @@
+import { sampleFrames } from './frame-sampler'
+import { detectScenes, SCENE_SAMPLE_RATES, type ProcessingQuality } from './scene-detection'
+import { sidecarTranscriptionProvider } from './sidecar-transcription'
+import { detectSilence, DEFAULT_SILENCE_OPTIONS } from './silence-detection'
+import { getRangesDuration, mergeRanges, type TimeRange } from './timeline'
+import type { Waveform } from './waveform'
+import { loadWaveform } from './waveform-loader'
+import type {
+  AnalysisFinding,
+  AnalysisProvider,
+  AudioAnalysis,
+  ColorAnalysis,
+  FindingKind,
+  FindingSeverity,
+  MotionAnalysis
+} from './analysis-provider'
+
+// Loudness statistics are taken over windows about the length of a spoken word
+const LOUDNESS_WINDOW_SECONDS = 0.4
+const CLIP_LEVEL = 0.98
+const COLOR_SAMPLES: Record<ProcessingQuality, number> = { fast: 8, balanced: 16, high: 32 }
+const MAX_MOTION_SAMPLES = 300
+// A frame difference this large is a cut rather than movement
+const CUT_DIFFERENCE = 0.25
+const SHIFT_SEARCH_PIXELS = 2
+
+interface FrameStats {
+  brightness: number
+  contrast: number
+  saturation: number
+  warmth: number
+  shadows: number
+  highlights: number
+}
+
+interface MotionStep {
+  time: number
+  difference: number
+  shift: { x: number, y: number } | null // null across a cut
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value))
+
+const toDb = (level: number) => 20 * Math.log10(Math.max(level, 1e-5))
+
+const average = (values: number[]) => {
+  return values.length === 0 ? 0 : values.reduce((total, value) => total + value, 0) / values.length
+}
+
+const percentile = (values: number[], fraction: number) => {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))]
+}
+
+// How far a measurement is past its threshold, mapped onto 0.5..0.95
+const scoreConfidence = (value: number, threshold: number, saturation: number) => {
+  return 0.5 + 0.45 * clamp01((value - threshold) / (saturation - threshold))
+}
+
+const formatTimestamp = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+const getEvenSampleTimes = (duration: number, count: number) => {
+  return Array.from({ length: count }, (_, i) => ((i + 0.5) * duration) / count)
+}
+
+const getSpan = (ranges: TimeRange[]): TimeRange => ({ start: ranges[0].start, end: ranges[ranges.length - 1].end })
+
+// Turns the stretches where a problem was seen into one finding, worded for the whole video when it is everywhere
+const describeStretches = (
+  kind: FindingKind,
+  ranges: TimeRange[],
+  duration: number,
+  { everywhere, somewhere, severity, confidence }: {
+    everywhere: string
+    somewhere: string
+    severity: FindingSeverity
+    confidence: number
+  }
+): AnalysisFinding | null => {
+  if (ranges.length === 0) return null
+
+  if (getRangesDuration(ranges) >= duration * 0.9) {
+    return { kind, message: everywhere, severity, confidence }
+  }
+
+  const span = getSpan(ranges)
+  const where = ranges.length === 1
+    ? `between ${formatTimestamp(span.start)} and ${formatTimestamp(span.end)}`
+    : `in ${ranges.length} stretches between ${formatTimestamp(span.start)} and ${formatTimestamp(span.end)}`
+  return { kind, message: `${somewhere} ${where}`, severity, confidence, range: span }
+}
+
+const NO_AUDIO: AudioAnalysis = {
+  hasAudio: false,
+  loudnessDb: toDb(0),
+  peakDb: toDb(0),
+  noiseFloorDb: toDb(0),
+  loudnessRangeDb: 0,
+  clippingRatio: 0,
+  silenceRatio: 1,
+  confidence: 1,
+  findings: [{ kind: 'no_audio', message: 'The video has no decodable audio track', severity: 'info', confidence: 1 }]
+}
+
+const measureAudio = (waveform: Waveform): AudioAnalysis => {
+  const level = waveform.levels[0]
+  const bucketSeconds = level.bucketSize / waveform.sampleRate
+  const windowBuckets = Math.max(1, Math.round(LOUDNESS_WINDOW_SECONDS / bucketSeconds))
+
+  const windows: number[] = []
+  for (let start = 0; start < level.rms.length; start += windowBuckets) {
+    const end = Math.min(start + windowBuckets, level.rms.length)
+    let sumSquares = 0
+    for (let i = start; i < end; i++) sumSquares += level.rms[i] ** 2
+    windows.push(toDb(Math.sqrt(sumSquares / (end - start))))
+  }
+
+  const active = windows.filter(db => db > DEFAULT_SILENCE_OPTIONS.thresholdDb)
+  if (active.length === 0) {
+    return {
+      ...NO_AUDIO,
+      hasAudio: true,
+      findings: [{ kind: 'no_audio', message: 'The audio track is silent', severity: 'warning', confidence: 0.9 }]
+    }
+  }
+
+  let peak = 0
+  let clippedBuckets = 0
+  const clipped: TimeRange[] = []
+  for (let i = 0; i < level.peaks.length; i++) {
+    if (level.peaks[i] > peak) peak = level.peaks[i]
+    if (level.peaks[i] < CLIP_LEVEL) continue
+
+    clippedBuckets++
+    const time = i * bucketSeconds
+    const last = clipped[clipped.length - 1]
+    // Clips within half a second of each other are one event
+    if (last && time - last.end < 0.5) {
+      last.end = time + bucketSeconds
+    } else {
+      clipped.push({ start: time, end: time + bucketSeconds })
+    }
+  }
+
+  // Average power of the non-silent windows, back in dBFS
+  const loudnessDb = toDb(Math.sqrt(average(active.map(db => 10 ** (db / 10)))))
+  const noiseFloorDb = percentile(windows, 0.1)
+  const loudnessRangeDb = percentile(active, 0.95) - percentile(active, 0.1)
+  const clippingRatio = clippedBuckets / Math.max(1, level.peaks.length)
+  const silenceRatio = clamp01(getRangesDuration(detectSilence(waveform, DEFAULT_SILENCE_OPTIONS)) / waveform.duration)
+  const findings: AnalysisFinding[] = []
+
+  if (clipped.length > 0 && clippingRatio > 0.0005) {
+    const span = getSpan(clipped)
+    findings.push({
+      kind: 'clipping',
+      message: `Audio clips in ${clipped.length} ${clipped.length === 1 ? 'place' : 'places'} between ${formatTimestamp(span.start)} and ${formatTimestamp(span.end)}`,
+      severity: clippingRatio > 0.005 ? 'problem' : 'warning',
+      confidence: scoreConfidence(clippingRatio, 0.0005, 0.01),
+      range: span
+    })
+  }
+
+  const speechToNoise = loudnessDb - noiseFloorDb
+  if (noiseFloorDb > -50 && speechToNoise < 30) {
+    findings.push({
+      kind: 'background_noise',
+      message: `Background noise sits at ${Math.round(noiseFloorDb)} dBFS, only ${Math.round(speechToNoise)} dB under the main audio`,
+      severity: speechToNoise < 15 ? 'problem' : 'warning',
+      confidence: scoreConfidence(noiseFloorDb, -50, -35)
+    })
+  }
+
+  if (loudnessDb < -28) {
+    findings.push({
+      kind: 'quiet_audio',
+      message: `Audio averages ${Math.round(loudnessDb)} dBFS; normalizing would make it easier to hear`,
+      severity: loudnessDb < -35 ? 'problem' : 'warning',
+      confidence: scoreConfidence(-loudnessDb, 28, 40)
+    })
+  } else if (loudnessDb > -9) {
+    findings.push({
+      kind: 'loud_audio',
+      message: `Audio averages ${Math.round(loudnessDb)} dBFS and leaves little headroom`,
+      severity: 'warning',
+      confidence: scoreConfidence(loudnessDb, -9, -3)
+    })
+  }
+
+  if (loudnessRangeDb > 15) {
+    findings.push({
+      kind: 'inconsistent_volume',
+      message: `Volume swings by ${Math.round(loudnessRangeDb)} dB between passages`,
+      severity: loudnessRangeDb > 22 ? 'problem' : 'warning',
+      confidence: scoreConfidence(loudnessRangeDb, 15, 28)
+    })
+  }
+
+  return {
+    hasAudio: true,
+    loudnessDb,
+    peakDb: toDb(peak),
+    noiseFloorDb,
+    loudnessRangeDb,
+    clippingRatio,
+    silenceRatio,
+    // Around a minute of sound is enough for stable statistics
+    confidence: 0.5 + 0.45 * clamp01(active.length / 150),
+    findings
+  }
+}
+
+const measureFrame = (image: ImageData): FrameStats => {
+  const pixelCount = image.width * image.height
+  let lumaSum = 0
+  let lumaSquares = 0
+  let saturationSum = 0
+  let warmthSum = 0
+  let shadows = 0
+  let highlights = 0
+
+  for (let i = 0; i < image.data.length; i += 4) {
+    const r = image.data[i]
+    const g = image.data[i + 1]
+    const b = image.data[i + 2]
+    const luma = (0.299 * r + 0.587 * g + 0.114 * b) / 255
+    const max = Math.max(r, g, b)
+    const min = Math.min(r, g, b)
+
+    lumaSum += luma
+    lumaSquares += luma * luma
+    saturationSum += max === 0 ? 0 : (max - min) / max
+    warmthSum += (r - b) / 255
+    if (luma < 0.06) shadows++
+    if (luma > 0.94) highlights++
+  }
+
+  const brightness = lumaSum / pixelCount
+  return {
+    brightness,
+    contrast: Math.sqrt(Math.max(0, lumaSquares / pixelCount - brightness * brightness)),
+    saturation: saturationSum / pixelCount,
+    warmth: warmthSum / pixelCount,
+    shadows: shadows / pixelCount,
+    highlights: highlights / pixelCount
+  }
+}
+
+const summarizeColor = (frames: FrameStats[], duration: number): ColorAnalysis => {
+  const slot = duration / Math.max(1, frames.length)
+  const rangesWhere = (test: (frame: FrameStats) => boolean) => mergeRanges(
+    frames.flatMap((frame, i) => test(frame) ? [{ start: i * slot, end: (i + 1) * slot }] : [])
+  )
+
+  const brightness = average(frames.map(frame => frame.brightness))
+  const contrast = average(frames.map(frame => frame.contrast))
+  const saturation = average(frames.map(frame => frame.saturation))
+  const warmth = average(frames.map(frame => frame.warmth))
+  const findings: AnalysisFinding[] = []
+
+  const dark = describeStretches('underexposed', rangesWhere(frame => frame.brightness < 0.22), duration, {
+    everywhere: `Footage is dark throughout (${Math.round(brightness * 100)}% brightness)`,
+    somewhere: 'Footage is underexposed',
+    severity: brightness < 0.15 ? 'problem' : 'warning',
+    confidence: scoreConfidence(0.22 - Math.min(...frames.map(frame => frame.brightness)), 0, 0.15)
+  })
+  if (dark) findings.push(dark)
+
+  const bright = describeStretches('overexposed', rangesWhere(frame => frame.highlights > 0.15 || frame.brightness > 0.8), duration, {
+    everywhere: 'Highlights are blown out throughout the video',
+    somewhere: 'Highlights are blown out',
+    severity: 'warning',
+    confidence: scoreConfidence(Math.max(...frames.map(frame => frame.highlights)), 0.15, 0.4)
+  })
+  if (bright) findings.push(bright)
+
+  if (contrast < 0.12) {
+    findings.push({
+      kind: 'low_contrast',
+      message: 'Footage looks flat; a contrast curve would add depth',
+      severity: contrast < 0.08 ? 'problem' : 'warning',
+      confidence: scoreConfidence(0.12 - contrast, 0, 0.08)
+    })
+  }
+
+  if (Math.abs(warmth) > 0.08) {
+    findings.push({
+      kind: 'color_cast',
+      message: `Footage has a ${warmth > 0 ? 'warm orange' : 'cool blue'} cast; white balance correction would neutralize it`,
+      severity: Math.abs(warmth) > 0.15 ? 'problem' : 'warning',
+      confidence: scoreConfidence(Math.abs(warmth), 0.08, 0.2)
+    })
+  }
+
+  // Near-black footage reads as unsaturated too, so only flag it when there is a picture to speak of
+  if (saturation < 0.12 && brightness > 0.1) {
+    findings.push({
+      kind: 'low_saturation',
+      message: 'Colors look washed out; a saturation boost would help',
+      severity: 'info',
+      confidence: scoreConfidence(0.12 - saturation, 0, 0.1)
+    })
+  }
+
+  return {
+    brightness,
+    contrast,
+    saturation,
+    warmth,
+    shadowClipping: average(frames.map(frame => frame.shadows)),
+    highlightClipping: average(frames.map(frame => frame.highlights)),
+    sampleCount: frames.length,
+    confidence: 0.5 + 0.45 * clamp01(frames.length / 32),
+    findings
+  }
+}
+
+const getLuma = (image: ImageData) => {
+  const luma = new Float32Array(image.width * image.height)
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * image.data[i * 4] + 0.587 * image.data[i * 4 + 1] + 0.114 * image.data[i * 4 + 2]
+  }
+  return luma
+}
+
+// Mean absolute luma difference when `b` is offset by (dx, dy), over the overlapping area
+const shiftedDifference = (a: Float32Array, b: Float32Array, width: number, height: number, dx: number, dy: number) => {
+  let total = 0
+  let count = 0
+  for (let y = Math.max(0, -dy); y < Math.min(height, height - dy); y++) {
+    for (let x = Math.max(0, -dx); x < Math.min(width, width - dx); x++) {
+      total += Math.abs(a[y * width + x] - b[(y + dy) * width + x + dx])
+      count++
+    }
+  }
+  return total / Math.max(1, count) / 255
+}
+
+// Global camera movement between two frames, found by block matching the whole frame
+const estimateShift = (a: Float32Array, b: Float32Array, width: number, height: number) => {
+  let best = { x: 0, y: 0, difference: Infinity }
+  for (let dy = -SHIFT_SEARCH_PIXELS; dy <= SHIFT_SEARCH_PIXELS; dy++) {
+    for (let dx = -SHIFT_SEARCH_PIXELS; dx <= SHIFT_SEARCH_PIXELS; dx++) {
+      const difference = shiftedDifference(a, b, width, height, dx, dy)
+      if (difference < best.difference) best = { x: dx, y: dy, difference }
+    }
+  }
+  return best
+}
+
+const collectStretches = (flags: TimeRange[], minLength: number) => {
+  return mergeRanges(flags).filter(range => range.end - range.start >= minLength)
+}
+
+const summarizeMotion = (steps: MotionStep[], interval: number, duration: number): MotionAnalysis => {
+  const moving = steps.filter(step => step.shift)
+  const jitters: Array<{ time: number, jitter: number }> = []
+
+  // A pan moves the frame steadily; shake keeps changing direction
+  for (let i = 1; i < steps.length; i++) {
+    const previous = steps[i - 1].shift
+    const current = steps[i].shift
+    if (!previous || !current) continue
+    jitters.push({ time: steps[i].time, jitter: Math.hypot(current.x - previous.x, current.y - previous.y) })
+  }
+
+  const meanJitter = average(jitters.map(entry => entry.jitter))
+  const averageMotion = average(moving.map(step => step.difference))
+  const shaky = collectStretches(
+    jitters.filter(entry => entry.jitter > 1).map(entry => ({ start: entry.time - interval, end: entry.time })),
+    1.5
+  )
+  const fast = collectStretches(
+    moving.filter(step => step.difference > 0.12).map(step => ({ start: step.time - interval, end: step.time })),
+    1
+  )
+  const findings: AnalysisFinding[] = []
+
+  const shake = describeStretches('camera_shake', shaky, duration, {
+    everywhere: 'The camera is shaky throughout; stabilization would steady it',
+    somewhere: 'Camera shake',
+    severity: getRangesDuration(shaky) > duration * 0.25 ? 'problem' : 'warning',
+    confidence: scoreConfidence(average(jitters.filter(entry => entry.jitter > 1).map(entry => entry.jitter)), 1, 2.5)
+  })
+  if (shake) findings.push(shake)
+
+  const blur = describeStretches('fast_motion', fast, duration, {
+    everywhere: 'Fast motion throughout may smear at low export bitrates',
+    somewhere: 'Fast motion that may smear at low bitrates',
+    severity: 'info',
+    confidence: scoreConfidence(Math.max(0, ...moving.map(step => step.difference)), 0.12, CUT_DIFFERENCE)
+  })
+  if (blur) findings.push(blur)
+
+  return {
+    averageMotion,
+    stability: 1 - clamp01(meanJitter / 2),
+    sampleCount: steps.length + 1,
+    confidence: 0.5 + 0.45 * clamp01(jitters.length / 120),
+    findings
+  }
+}
+
+export const offlineAnalysisProvider: AnalysisProvider = {
+  id: 'offline',
+  name: 'Offline',
+
+  detectScenes: ({ mediaUrl, duration, quality, signal, onProgress }) => {
+    return detectScenes(mediaUrl, duration, { quality, signal, onProgress })
+  },
+
+  analyzeAudio: async ({ projectId, mediaUrl, signal, onProgress }) => {
+    let waveform: Waveform
+    try {
+      waveform = await loadWaveform(projectId, mediaUrl)
+    } catch (error) {
+      console.error('No decodable audio track:', error)
+      return NO_AUDIO
+    }
+    signal?.throwIfAborted()
+    onProgress?.(1)
+    return measureAudio(waveform)
+  },
+
+  analyzeColor: async ({ mediaUrl, duration, quality, signal, onProgress }) => {
+    const frames: FrameStats[] = []
+    for await (const frame of sampleFrames(mediaUrl, getEvenSampleTimes(duration, COLOR_SAMPLES[quality]), { signal, onProgress })) {
+      frames.push(measureFrame(frame.image))
+    }
+    if (frames.length === 0) throw new Error('No frames could be read from the video')
+    return summarizeColor(frames, duration)
+  },
+
+  analyzeMotion: async ({ mediaUrl, duration, quality, signal, onProgress }) => {
+    const count = Math.max(3, Math.min(MAX_MOTION_SAMPLES, Math.floor(duration * SCENE_SAMPLE_RATES[quality])))
+    const interval = duration / count
+    const steps: MotionStep[] = []
+    let previous: Float32Array | null = null
+
+    for await (const frame of sampleFrames(mediaUrl, getEvenSampleTimes(duration, count), { signal, onProgress })) {
+      const luma = getLuma(frame.image)
+      if (previous) {
+        const difference = shiftedDifference(previous, luma, frame.image.width, frame.image.height, 0, 0)
+        steps.push({
+          time: frame.time,
+          difference,
+          shift: difference > CUT_DIFFERENCE ? null : estimateShift(previous, luma, frame.image.width, frame.image.height)
+        })
+      }
+      previous = luma
+    }
+
+    return summarizeMotion(steps, interval, duration)
+  },
+
+  // Without a speech model the only transcript there can be is one uploaded with the video
+  transcribe: async (request) => {
+    if (!request.sidecar) throw new Error('Offline transcription needs a transcript file uploaded with the video')
+    return sidecarTranscriptionProvider.transcribe(request)
+  }
+}
@@ -0,0 +1,16 @@
+import { blink } from '../blink/client'
+import type { PlanId } from './plans'
+
+// Written by billing; the editor only reads which plan a user is on
+interface PlanRecord {
+  id: string // the user id
+  plan: PlanId
+  updatedAt: string
+}
+
+const plansTable = () => blink.db.table<PlanRecord>('user_plans')
+
+export async function loadPlanId(userId: string) {
+  const record = await plansTable().get(userId)
+  return record?.plan
+}
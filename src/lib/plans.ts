@@ -0,0 +1,28 @@
+export type PlanId = 'free' | 'pro' | 'team'
+
+export interface Plan {
+  id: PlanId
+  name: string
+  maxUploadSize: number // bytes per file
+}
+
+const MB = 1024 * 1024
+const GB = 1024 * MB
+
+export const PLANS: Record<PlanId, Plan> = {
+  free: { id: 'free', name: 'Free', maxUploadSize: 500 * MB },
+  pro: { id: 'pro', name: 'Pro', maxUploadSize: 4 * GB },
+  team: { id: 'team', name: 'Team', maxUploadSize: 20 * GB }
+}
+
+export const DEFAULT_PLAN_ID: PlanId = 'free'
+
+// Unknown ids, e.g. from a plan that has since been retired, fall back to the default
+export function getPlan(id?: string | null) {
+  return PLANS[id as PlanId] ?? PLANS[DEFAULT_PLAN_ID]
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes >= GB) return `${Number((bytes / GB).toFixed(1))}GB`
+  return `${Number((bytes / MB).toFixed(1))}MB`
+}
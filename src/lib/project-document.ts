@@ -0,0 +1,82 @@
+import type { AnalysisProviderId } from './analysis-provider'
+import type { EditDecisionList } from './edl'
+import type { ProcessingQuality } from './scene-detection'
+import { createHistory, type History } from './history'
+import type { Marker } from './markers'
+import type { SubtitleCue, SubtitleFormat } from './subtitles'
+import type { SuggestionStatus } from './suggestions'
+
+export interface AISettings {
+  sceneDetection: boolean
+  smartTransitions: boolean
+  audioEnhancement: boolean
+  colorCorrection: boolean
+  quality: ProcessingQuality
+  provider: AnalysisProviderId
+}
+
+export interface ExportSettings {
+  format: string
+  resolution: string
+  quality: number
+  bitrate: number
+  fps: number
+  codec: string
+  audioQuality: number
+  includeSubtitles: boolean
+  subtitleMode: 'sidecar' | 'burn_in' // a separate caption file, or captions drawn into the picture
+  subtitleFormat: SubtitleFormat
+  includeChapters: boolean // chapter markers written into MP4 and MOV files, plus a WebVTT chapters file
+  watermark: boolean
+}
+
+// Everything about a project the user can edit, and therefore undo
+export interface ProjectDocument {
+  edl?: EditDecisionList
+  aiSettings: AISettings
+  exportPreset: string
+  exportSettings: ExportSettings
+  // Keyed by suggestion id; suggestions without an entry are still open
+  suggestionStates: Record<string, SuggestionStatus>
+  subtitles: SubtitleCue[]
+  markers: Marker[]
+}
+
+export type ProjectHistory = History<ProjectDocument>
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  sceneDetection: true,
+  smartTransitions: true,
+  audioEnhancement: true,
+  colorCorrection: false,
+  quality: 'high',
+  provider: 'blink'
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'mp4',
+  resolution: '1920x1080',
+  quality: 80,
+  bitrate: 8000,
+  fps: 30,
+  codec: 'h264',
+  audioQuality: 192,
+  includeSubtitles: false,
+  subtitleMode: 'sidecar',
+  subtitleFormat: 'srt',
+  includeChapters: true,
+  watermark: false
+}
+
+export const DEFAULT_PROJECT_DOCUMENT: ProjectDocument = {
+  aiSettings: DEFAULT_AI_SETTINGS,
+  exportPreset: 'youtube',
+  exportSettings: DEFAULT_EXPORT_SETTINGS,
+  suggestionStates: {},
+  subtitles: [],
+  markers: []
+}
+
+export function createProjectHistory(document: ProjectDocument = DEFAULT_PROJECT_DOCUMENT): ProjectHistory {
+  return createHistory(document)
+}
@@ -0,0 +1,236 @@
+import { blink } from '../blink/client'
+import type { ProjectAnalysis } from './analysis-provider'
+import { applyStateChanges, diffStates, HISTORY_LIMIT, type HistoryEntry, type StateChanges } from './history'
+import type { MediaMetadata } from './media-probe'
+import type { ProjectDocument, ProjectHistory } from './project-document'
+import type { AISuggestion } from './suggestions'
+import type { TimelineSegment } from './timeline'
+import type { Transcript } from './transcript'
+import type { TranscriptSidecar } from './transcription'
+
+// A file added to the edit as a clip, keyed by its source id in the EDL
+export interface ClipMedia {
+  name: string
+  mediaUrl?: string
+  mediaParts?: string[]
+  media?: MediaMetadata
+}
+
+export interface VideoProject {
+  id: string
+  name: string
+  status: 'uploading' | 'processing' | 'completed' | 'error'
+  progress: number
+  createdAt?: string
+  duration?: string
+  size?: string
+  mediaUrl?: string
+  mediaParts?: string[] // set instead of mediaUrl when the video was too large to store as one file
+  media?: MediaMetadata
+  clipMedia?: Record<string, ClipMedia>
+  scenes?: TimelineSegment[]
+  analysis?: ProjectAnalysis
+  transcript?: Transcript
+  transcriptSidecar?: TranscriptSidecar
+  history?: ProjectHistory
+  aiSuggestions?: AISuggestion[]
+}
+
+// Structured fields are stored as JSON text columns
+interface ProjectRecord {
+  id: string
+  userId: string
+  name: string
+  status: VideoProject['status']
+  progress: number
+  duration: string | null
+  size: string | null
+  mediaUrl: string | null
+  mediaParts: string | null
+  media: string | null
+  clipMedia: string | null
+  scenes: string | null
+  analysis: string | null
+  transcript: string | null
+  transcriptSidecar: string | null
+  aiSuggestions: string | null
+  historyEntryId: string | null // the undo step the project is at
+  createdAt: string
+  updatedAt: string
+}
+
+// One row per undo step, holding only the document fields that changed since the step before it; the
+// first step holds the whole document. Recording an edit then writes one small row, not the whole history.
+interface HistoryEntryRecord {
+  id: string
+  userId: string
+  projectId: string
+  entryId: string
+  previousEntryId: string | null
+  label: string
+  group: string | null
+  timestamp: number
+  changes: string
+}
+
+type ProjectHistoryEntry = HistoryEntry<ProjectDocument>
+
+const projectsTable = () => blink.db.table<ProjectRecord>('projects')
+const historyTable = () => blink.db.table<HistoryEntryRecord>('project_history')
+
+const toJson = (value: unknown) => {
+  return value === undefined ? null : JSON.stringify(value)
+}
+
+const fromJson = <T>(value: string | null | undefined): T | undefined => {
+  if (!value) return undefined
+
+  try {
+    return JSON.parse(value) as T
+  } catch (error) {
+    console.error('Discarding unreadable project field:', error)
+    return undefined
+  }
+}
+
+const toProjectRecord = (userId: string, project: VideoProject): ProjectRecord => {
+  const now = new Date().toISOString()
+  return {
+    id: project.id,
+    userId,
+    name: project.name,
+    status: project.status,
+    progress: project.progress,
+    duration: project.duration ?? null,
+    size: project.size ?? null,
+    mediaUrl: project.mediaUrl ?? null,
+    mediaParts: toJson(project.mediaParts),
+    media: toJson(project.media),
+    clipMedia: toJson(project.clipMedia),
+    scenes: toJson(project.scenes),
+    analysis: toJson(project.analysis),
+    transcript: toJson(project.transcript),
+    transcriptSidecar: toJson(project.transcriptSidecar),
+    aiSuggestions: toJson(project.aiSuggestions),
+    historyEntryId: project.history?.entries[project.history.index].id ?? null,
+    createdAt: project.createdAt ?? now,
+    updatedAt: now
+  }
+}
+
+const toHistoryEntryRecord = (
+  userId: string,
+  projectId: string,
+  entry: ProjectHistoryEntry,
+  previous: ProjectHistoryEntry | undefined
+): HistoryEntryRecord => ({
+  id: `${projectId}:${entry.id}`,
+  userId,
+  projectId,
+  entryId: entry.id,
+  previousEntryId: previous?.id ?? null,
+  label: entry.label,
+  group: entry.group ?? null,
+  timestamp: entry.timestamp,
+  changes: JSON.stringify(diffStates(previous?.state, entry.state))
+})
+
+// Replays the chain of steps from the first one. Should an interrupted save have left two steps after the
+// same one, the later of them is the branch the project went on with.
+const fromHistoryEntryRecords = (records: HistoryEntryRecord[], presentId: string | null): ProjectHistory | undefined => {
+  const following = new Map<string | null, HistoryEntryRecord>()
+  records.forEach(record => {
+    const previousId = record.previousEntryId || null
+    const other = following.get(previousId)
+    if (!other || Number(other.timestamp) < Number(record.timestamp)) following.set(previousId, record)
+  })
+
+  const entries: ProjectHistoryEntry[] = []
+  let record = following.get(null)
+  while (record && entries.length < HISTORY_LIMIT) {
+    entries.push({
+      id: record.entryId,
+      label: record.label,
+      timestamp: Number(record.timestamp),
+      group: record.group ?? undefined,
+      state: applyStateChanges(entries[entries.length - 1]?.state, JSON.parse(record.changes) as StateChanges)
+    })
+    record = following.get(record.entryId)
+  }
+  if (entries.length === 0) return undefined
+
+  const index = entries.findIndex(entry => entry.id === presentId)
+  return { entries, index: index >= 0 ? index : entries.length - 1 }
+}
+
+const readHistory = (record: ProjectRecord, entryRecords: HistoryEntryRecord[]) => {
+  try {
+    return fromHistoryEntryRecords(entryRecords, record.historyEntryId)
+  } catch (error) {
+    console.error('Discarding unreadable project history:', error)
+    return undefined
+  }
+}
+
+// Writes the steps that are new or changed since `previous` was saved, and removes the ones that are gone:
+// steps trimmed off the front, and redo steps discarded by a new edit
+const saveHistory = async (userId: string, projectId: string, history: ProjectHistory, previous?: ProjectHistory) => {
+  const saved = new Map(previous?.entries.map((entry, index) => [entry.id, { entry, previous: previous.entries[index - 1] }]))
+
+  const changed = history.entries.flatMap((entry, index) => {
+    const before = saved.get(entry.id)
+    const previousEntry = history.entries[index - 1]
+    return before && before.entry === entry && before.previous === previousEntry
+      ? []
+      : [toHistoryEntryRecord(userId, projectId, entry, previousEntry)]
+  })
+  const kept = new Set(history.entries.map(entry => entry.id))
+  const removed = [...saved.keys()].filter(id => !kept.has(id)).map(id => `${projectId}:${id}`)
+
+  if (changed.length > 0) await historyTable().upsertMany(changed)
+  if (removed.length > 0) await historyTable().deleteMany({ where: { id: { in: removed } } })
+}
+
+const fromProjectRecord = (record: ProjectRecord, entryRecords: HistoryEntryRecord[]): VideoProject => {
+  const history = readHistory(record, entryRecords)
+
+  return {
+    id: record.id,
+    name: record.name,
+    status: record.status,
+    progress: Number(record.progress),
+    createdAt: record.createdAt,
+    duration: record.duration ?? undefined,
+    size: record.size ?? undefined,
+    mediaUrl: record.mediaUrl ?? undefined,
+    mediaParts: fromJson(record.mediaParts),
+    media: fromJson(record.media),
+    clipMedia: fromJson(record.clipMedia),
+    scenes: fromJson(record.scenes),
+    analysis: fromJson(record.analysis),
+    transcript: fromJson(record.transcript),
+    transcriptSidecar: fromJson(record.transcriptSidecar),
+    aiSuggestions: fromJson(record.aiSuggestions),
+    history
+  }
+}
+
+export async function loadProjects(userId: string) {
+  const [records, entryRecords] = await Promise.all([
+    projectsTable().list({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    }),
+    historyTable().list({ where: { userId } })
+  ])
+
+  return records.map(record => fromProjectRecord(record, entryRecords.filter(entry => entry.projectId === record.id)))
+}
+
+// `previous` is the copy last saved or loaded, so only the history steps recorded since then are written
+export async function saveProject(userId: string, project: VideoProject, previous?: VideoProject) {
+  if (project.history && project.history !== previous?.history) {
+    await saveHistory(userId, project.id, project.history, previous?.history)
+  }
+  await projectsTable().upsert(toProjectRecord(userId, project))
+}
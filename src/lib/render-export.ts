@@ -0,0 +1,407 @@
+import { FFmpeg } from '@ffmpeg/ffmpeg'
+import { fetchFile } from '@ffmpeg/util'
+// The single-threaded core runs without cross-origin isolation headers; it is bundled so exports work offline
+import ffmpegCoreUrl from '@ffmpeg/core?url'
+import ffmpegWasmUrl from '@ffmpeg/core/wasm?url'
+import {
+  getClipDuration,
+  getEdlDuration,
+  getPrimaryVideoTrack,
+  getSource,
+  getTrackClips,
+  isTrackActive,
+  type Clip,
+  type EditDecisionList,
+  type Transition
+} from './edl'
+import { getAudioFilters, getVideoFilters } from './effects'
+import { formatChapterMetadata, type Chapter } from './markers'
+import {
+  getCuts,
+  getTransitionDuration,
+  getTransitionSettings,
+  type Cut,
+  type TransitionEasing,
+  type TransitionSettings
+} from './transitions'
+import type { ExportSettings } from './project-document'
+import { formatSubtitles, type SubtitleCue } from './subtitles'
+
+// libass inside the core has no system fonts to fall back on, so the app serves its own
+const CAPTION_FONT_URL = `${import.meta.env.BASE_URL}fonts/DejaVuSans.ttf`
+const CAPTION_FONT_NAME = 'DejaVu Sans'
+const CAPTION_FONT_DIR = 'fonts'
+const CAPTION_FONT_FILE = `${CAPTION_FONT_DIR}/DejaVuSans.ttf`
+const CAPTION_FILE = 'captions.srt'
+const CHAPTER_FILE = 'chapters.txt'
+
+export interface RenderSource {
+  id: string
+  url: string
+  hasAudio: boolean
+}
+
+export interface RenderOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: number) => void
+  onLog?: (message: string) => void
+  subtitles?: SubtitleCue[] // burned into the picture when given
+  chapters?: Chapter[] // written as chapter atoms; only MP4 and MOV keep them
+}
+
+export interface RenderResult {
+  blob: Blob
+  fileName: string
+}
+
+interface OutputFormat {
+  extension: string
+  mimeType: string
+  videoCodec: string[]
+  audioCodec: string[]
+}
+
+let ffmpegPromise: Promise<FFmpeg> | null = null
+
+// FFmpeg runs in its own worker; loading the core is slow, so one instance is kept for the session
+const loadFFmpeg = () => {
+  if (!ffmpegPromise) {
+    ffmpegPromise = (async () => {
+      const ffmpeg = new FFmpeg()
+      await ffmpeg.load({
+        coreURL: ffmpegCoreUrl,
+        wasmURL: ffmpegWasmUrl
+      })
+      return ffmpeg
+    })()
+    ffmpegPromise.catch(() => {
+      ffmpegPromise = null
+    })
+  }
+  return ffmpegPromise
+}
+
+export function getOutputFormat(settings: ExportSettings): OutputFormat {
+  switch (settings.format) {
+    case 'webm':
+      return { extension: 'webm', mimeType: 'video/webm', videoCodec: ['libvpx-vp9', '-row-mt', '1'], audioCodec: ['libopus'] }
+    case 'avi':
+      return { extension: 'avi', mimeType: 'video/x-msvideo', videoCodec: ['mpeg4'], audioCodec: ['libmp3lame'] }
+    case 'mov':
+    case 'mp4':
+    default: {
+      const videoCodec = settings.codec === 'h265'
+        ? ['libx265', '-tag:v', 'hvc1']
+        : ['libx264', '-preset', 'veryfast', '-pix_fmt', 'yuv420p']
+      const extension = settings.format === 'mov' ? 'mov' : 'mp4'
+      return {
+        extension,
+        mimeType: extension === 'mov' ? 'video/quicktime' : 'video/mp4',
+        videoCodec,
+        audioCodec: ['aac']
+      }
+    }
+  }
+}
+
+const parseResolution = (resolution: string) => {
+  const [width, height] = resolution.split('x').map(Number)
+  // Most encoders need even dimensions
+  return { width: Math.round((width || 1920) / 2) * 2, height: Math.round((height || 1080) / 2) * 2 }
+}
+
+// Same scaling the export estimate uses: the preset bitrate is for 80% quality
+export function getVideoBitrate(settings: ExportSettings) {
+  return Math.max(100, Math.round(settings.bitrate * (settings.quality / 80)))
+}
+
+const seconds = (value: number) => value.toFixed(3)
+
+// Eased progress from 0 to 1, written in terms of xfade's P, which runs from 1 down to 0.
+// These are the same curves the preview uses.
+const XFADE_EASINGS: Record<TransitionEasing, string> = {
+  linear: '(1-P)',
+  'ease-in': 'pow(1-P,2)',
+  'ease-out': '(1-pow(P,2))',
+  'ease-in-out': '(pow(1-P,2)*(1+2*P))'
+}
+
+// Limited-range BT.601, the YUV the transition inputs are converted to
+const toYuv = (hex: string) => {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255)
+  return [
+    16 + 65.481 * r + 128.553 * g + 24.966 * b,
+    128 - 37.797 * r - 74.203 * g + 112 * b,
+    128 + 112 * r - 93.786 * g - 18.214 * b
+  ].map(value => value.toFixed(1))
+}
+
+// Every transition is a custom xfade expression so its easing matches the preview; the built-in ones are linear.
+// A and B are the outgoing and incoming pixels, a()/b() read either picture somewhere else.
+const getXfadeExpression = ({ type, easing, direction, color }: TransitionSettings) => {
+  const q = XFADE_EASINGS[easing]
+  const plane = (input: 'a' | 'b', x: string, y: string) =>
+    `if(eq(PLANE,0),${input}0(${x},${y}),if(eq(PLANE,1),${input}1(${x},${y}),${input}2(${x},${y})))`
+
+  switch (type) {
+    case 'dip': {
+      const [y, u, v] = toYuv(color)
+      const c = `if(eq(PLANE,0),${y},if(eq(PLANE,1),${u},${v}))`
+      return `if(lt(${q},0.5),A+(${c}-A)*2*${q},${c}+(B-${c})*(2*${q}-1))`
+    }
+    case 'wipe':
+      return {
+        left: `if(gt(X,W*(1-${q})),B,A)`,
+        right: `if(lt(X,W*${q}),B,A)`,
+        up: `if(gt(Y,H*(1-${q})),B,A)`,
+        down: `if(lt(Y,H*${q}),B,A)`
+      }[direction]
+    case 'slide':
+      return {
+        left: `if(lt(X+W*${q},W),${plane('a', `X+W*${q}`, 'Y')},${plane('b', `X+W*${q}-W`, 'Y')})`,
+        right: `if(gte(X,W*${q}),${plane('a', `X-W*${q}`, 'Y')},${plane('b', `X-W*${q}+W`, 'Y')})`,
+        up: `if(lt(Y+H*${q},H),${plane('a', 'X', `Y+H*${q}`)},${plane('b', 'X', `Y+H*${q}-H`)})`,
+        down: `if(gte(Y,H*${q}),${plane('a', 'X', `Y-H*${q}`)},${plane('b', 'X', `Y-H*${q}+H`)})`
+      }[direction]
+    case 'zoom':
+      return `${plane('a', `W/2+(X-W/2)/(1+${q})`, `H/2+(Y-H/2)/(1+${q})`)}*(1-${q})+B*${q}`
+    default:
+      return `A*(1-${q})+B*${q}`
+  }
+}
+
+// Lays the primary video track end to end, filling gaps with black and silence and blending across
+// transitions, then puts the other video and overlay tracks on top of it and mixes in every track that can be heard
+export function buildFilterGraph(
+  edl: EditDecisionList,
+  settings: ExportSettings,
+  inputs: Map<string, { index: number, hasAudio: boolean }>,
+  { captionFile }: { captionFile?: string } = {}
+) {
+  const track = getPrimaryVideoTrack(edl)
+  const clips = track ? getTrackClips(edl, track.id) : []
+  const baseAudible = track ? isTrackActive(edl, track.id) : false
+  const { width, height } = parseResolution(settings.resolution)
+  const fit = `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${settings.fps}`
+  // Layers are letterboxed with transparency so a smaller picture doesn't black out the ones below
+  const layerFit = `scale=${width}:${height}:force_original_aspect_ratio=decrease,format=yuva420p,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black@0,setsar=1,fps=${settings.fps}`
+  const audioFormat = 'aformat=sample_rates=48000:channel_layouts=stereo'
+  const filters: string[] = []
+  const segments: string[] = []
+  let cursor = 0
+
+  const getInput = (clip: Clip) => {
+    const input = inputs.get(clip.sourceId)
+    if (!input) throw new Error(`Missing media for ${clip.label ?? clip.id}`)
+    return input
+  }
+  const getSourceRange = (start: number, end: number) => `start=${seconds(start)}:end=${seconds(end)}`
+  const getRange = (clip: Clip) => getSourceRange(clip.sourceIn, clip.sourceOut)
+  const silence = (duration: number) => `anullsrc=r=48000:cl=stereo,atrim=duration=${seconds(duration)}`
+
+  const addGap = (duration: number) => {
+    const n = segments.length
+    filters.push(`color=c=black:s=${width}x${height}:r=${settings.fps}:d=${seconds(duration)},setsar=1[v${n}]`)
+    filters.push(`${silence(duration)}[a${n}]`)
+    segments.push(`[v${n}][a${n}]`)
+  }
+
+  const addAudio = (clip: Clip, start: number, end: number, label: string) => {
+    const input = getInput(clip)
+    const chain = [`atrim=${getSourceRange(start, end)}`, 'asetpts=PTS-STARTPTS', ...getAudioFilters(clip.effects), audioFormat]
+    filters.push(input.hasAudio && baseAudible
+      ? `[${input.index}:a]${chain.join(',')}[${label}]`
+      : `${silence(end - start)}[${label}]`)
+  }
+
+  const addClip = (clip: Clip, start: number, end: number) => {
+    const n = segments.length
+    const chain = [`trim=${getSourceRange(start, end)}`, 'setpts=PTS-STARTPTS', ...getVideoFilters(clip.effects), fit]
+    filters.push(`[${getInput(clip).index}:v]${chain.join(',')}[v${n}]`)
+    addAudio(clip, start, end, `a${n}`)
+    segments.push(`[v${n}][a${n}]`)
+  }
+
+  // The pictures either side of the cut are each exactly the transition's length, with end frames held
+  // where the source runs out; the sound still cuts at the middle
+  const addTransition = (cut: Cut & { transition: Transition }) => {
+    const { from, to } = cut
+    const duration = getTransitionDuration(cut)
+    const half = duration / 2
+    const n = segments.length
+    const sourceEnd = getSource(edl, from.sourceId)?.duration ?? from.sourceOut
+    const lead = Math.max(0, half - to.sourceIn)
+    const hold = `tpad=start_mode=clone:start_duration=${seconds(lead)}:stop_mode=clone:stop_duration=${seconds(duration)}`
+    const sides = [
+      { clip: from, start: from.sourceOut - half, end: Math.max(from.sourceOut, Math.min(from.sourceOut + half, sourceEnd)), hold: `tpad=stop_mode=clone:stop_duration=${seconds(duration)}` },
+      { clip: to, start: Math.max(0, to.sourceIn - half), end: to.sourceIn + half, hold }
+    ]
+
+    sides.forEach((side, i) => {
+      const chain = [
+        `trim=${getSourceRange(side.start, side.end)}`,
+        'setpts=PTS-STARTPTS',
+        ...getVideoFilters(side.clip.effects),
+        fit,
+        side.hold,
+        `trim=duration=${seconds(duration)}`,
+        'format=yuv444p'
+      ]
+      filters.push(`[${getInput(side.clip).index}:v]${chain.join(',')}[tv${n}${i}]`)
+    })
+    const expression = getXfadeExpression(getTransitionSettings(cut.transition))
+    filters.push(`[tv${n}0][tv${n}1]xfade=transition=custom:expr='${expression}':duration=${seconds(duration)}:offset=0[v${n}]`)
+
+    addAudio(from, from.sourceOut - half, from.sourceOut, `ta${n}0`)
+    addAudio(to, to.sourceIn, to.sourceIn + half, `ta${n}1`)
+    filters.push(`[ta${n}0][ta${n}1]concat=n=2:v=0:a=1[a${n}]`)
+    segments.push(`[v${n}][a${n}]`)
+  }
+
+  const cuts = getCuts(edl).filter((cut): cut is Cut & { transition: Transition } =>
+    Boolean(cut.transition) && getTransitionDuration(cut) > 0.001
+  )
+
+  for (const clip of clips) {
+    if (clip.start - cursor > 0.001) addGap(clip.start - cursor)
+
+    // Whatever a transition covers at either end is rendered with the transition instead
+    const incoming = cuts.find(cut => cut.to.id === clip.id)
+    const outgoing = cuts.find(cut => cut.from.id === clip.id)
+    const start = clip.sourceIn + (incoming ? getTransitionDuration(incoming) / 2 : 0)
+    const end = clip.sourceOut - (outgoing ? getTransitionDuration(outgoing) / 2 : 0)
+    if (end - start > 0.001) addClip(clip, start, end)
+    if (outgoing) addTransition(outgoing)
+    cursor = clip.start + getClipDuration(clip)
+  }
+
+  // The base runs as long as anything on any track
+  const totalDuration = getEdlDuration(edl)
+  if (totalDuration - cursor > 0.001) addGap(totalDuration - cursor)
+  if (segments.length === 0) throw new Error('There is nothing on the timeline to export')
+  filters.push(`${segments.join('')}concat=n=${segments.length}:v=1:a=1[base][basea]`)
+
+  // Upper video tracks stack in order, with overlay tracks above all of them
+  const layers = [
+    ...edl.tracks.filter(t => t.kind === 'video' && t.id !== track?.id),
+    ...edl.tracks.filter(t => t.kind === 'overlay')
+  ]
+  let video = 'base'
+  layers
+    .flatMap(layer => getTrackClips(edl, layer.id))
+    .forEach((clip, n) => {
+      const input = getInput(clip)
+      const end = clip.start + getClipDuration(clip)
+      const chain = [`trim=${getRange(clip)}`, `setpts=PTS-STARTPTS+${seconds(clip.start)}/TB`, ...getVideoFilters(clip.effects), layerFit]
+      filters.push(`[${input.index}:v]${chain.join(',')}[layer${n}]`)
+      filters.push(`[${video}][layer${n}]overlay=enable='between(t,${seconds(clip.start)},${seconds(end)})':eof_action=pass[stack${n}]`)
+      video = `stack${n}`
+    })
+
+  const mixes = ['[basea]']
+  edl.tracks
+    .filter(t => t.id !== track?.id && t.kind !== 'subtitle' && isTrackActive(edl, t.id))
+    .flatMap(audible => getTrackClips(edl, audible.id))
+    .filter(clip => getInput(clip).hasAudio)
+    .forEach((clip, n) => {
+      const delay = Math.round(clip.start * 1000)
+      const chain = [`atrim=${getRange(clip)}`, 'asetpts=PTS-STARTPTS', ...getAudioFilters(clip.effects), audioFormat, `adelay=${delay}:all=1`]
+      filters.push(`[${getInput(clip).index}:a]${chain.join(',')}[mix${n}]`)
+      mixes.push(`[mix${n}]`)
+    })
+
+  // Mixed at full level so a lone base track sounds the same as it did before there were other tracks
+  filters.push(mixes.length > 1
+    ? `${mixes.join('')}amix=inputs=${mixes.length}:duration=first:normalize=0[outa]`
+    : '[basea]anull[outa]')
+
+  if (captionFile) {
+    // Sized against the output height so captions look the same at every resolution
+    const style = `FontName=${CAPTION_FONT_NAME},FontSize=${Math.round(height / 27)},Outline=2,Shadow=0,MarginV=${Math.round(height / 18)}`
+    filters.push(`[${video}]subtitles=filename=${captionFile}:fontsdir=${CAPTION_FONT_DIR}:original_size=${width}x${height}:force_style='${style}'[outv]`)
+  } else {
+    filters.push(`[${video}]null[outv]`)
+  }
+  return filters.join(';')
+}
+
+export async function renderExport(
+  edl: EditDecisionList,
+  settings: ExportSettings,
+  sources: RenderSource[],
+  { signal, onProgress, onLog, subtitles, chapters }: RenderOptions = {}
+): Promise<RenderResult> {
+  const ffmpeg = await loadFFmpeg()
+  signal?.throwIfAborted()
+
+  const format = getOutputFormat(settings)
+  const totalDuration = getEdlDuration(edl)
+  const usedSources = sources.filter(source => edl.clips.some(clip => clip.sourceId === source.id))
+  const inputs = new Map(usedSources.map((source, index) => [source.id, { index, hasAudio: source.hasAudio }]))
+  const inputNames = usedSources.map((_, index) => `input-${index}`)
+  const outputName = `output.${format.extension}`
+  const burnIn = Boolean(subtitles?.length)
+  const captionFiles = burnIn ? [CAPTION_FILE, CAPTION_FONT_FILE] : []
+  const isQuickTime = format.extension === 'mp4' || format.extension === 'mov'
+  const withChapters = isQuickTime && Boolean(chapters?.length)
+
+  const handleProgress = ({ time }: { time: number }) => {
+    // `time` is in microseconds of rendered output
+    if (totalDuration > 0) onProgress?.(Math.max(0, Math.min(1, time / 1_000_000 / totalDuration)))
+  }
+  const handleLog = ({ message }: { message: string }) => onLog?.(message)
+  ffmpeg.on('progress', handleProgress)
+  ffmpeg.on('log', handleLog)
+
+  try {
+    for (let i = 0; i < usedSources.length; i++) {
+      await ffmpeg.writeFile(inputNames[i], await fetchFile(usedSources[i].url), { signal })
+    }
+    if (subtitles && burnIn) {
+      await ffmpeg.createDir(CAPTION_FONT_DIR).catch(() => undefined)
+      await ffmpeg.writeFile(CAPTION_FONT_FILE, await fetchFile(CAPTION_FONT_URL), { signal })
+      await ffmpeg.writeFile(CAPTION_FILE, formatSubtitles(subtitles, 'srt'), { signal })
+    }
+    if (chapters && withChapters) {
+      await ffmpeg.writeFile(CHAPTER_FILE, formatChapterMetadata(chapters), { signal })
+    }
+
+    const args = [
+      ...inputNames.flatMap(name => ['-i', name]),
+      // The chapter file goes after the sources so the filter graph's input numbers stay the same
+      ...(withChapters ? ['-f', 'ffmetadata', '-i', CHAPTER_FILE, '-map_chapters', String(inputNames.length)] : []),
+      '-filter_complex', buildFilterGraph(edl, settings, inputs, { captionFile: burnIn ? CAPTION_FILE : undefined }),
+      '-map', '[outv]',
+      '-map', '[outa]',
+      '-c:v', ...format.videoCodec,
+      '-b:v', `${getVideoBitrate(settings)}k`,
+      '-r', String(settings.fps),
+      '-c:a', ...format.audioCodec,
+      '-b:a', `${settings.audioQuality}k`,
+      ...(isQuickTime ? ['-movflags', '+faststart'] : []),
+      '-y',
+      outputName
+    ]
+
+    const exitCode = await ffmpeg.exec(args, undefined, { signal })
+    if (exitCode !== 0) throw new Error(`FFmpeg exited with code ${exitCode}`)
+
+    const data = await ffmpeg.readFile(outputName, 'binary', { signal })
+    if (typeof data === 'string') throw new Error('Unexpected text output from FFmpeg')
+
+    onProgress?.(1)
+    return { blob: new Blob([data], { type: format.mimeType }), fileName: outputName }
+  } finally {
+    ffmpeg.off('progress', handleProgress)
+    ffmpeg.off('log', handleLog)
+
+    if (signal?.aborted) {
+      // An aborted call leaves the worker busy; starting over is the only way to stop it
+      ffmpeg.terminate()
+      ffmpegPromise = null
+    } else {
+      // The wasm filesystem lives in memory, so don't leave whole videos behind
+      await Promise.all([...inputNames, ...captionFiles, ...(withChapters ? [CHAPTER_FILE] : []), outputName].map(name => ffmpeg.deleteFile(name).catch(() => undefined)))
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { sampleFrames } from './frame-sampler'
+import type { TimelineSegment } from './timeline'
+
+export type ProcessingQuality = 'fast' | 'balanced' | 'high'
+export type SceneDetectionMethod = 'histogram' | 'phash'
+
+export interface SceneDetectionOptions {
+  quality: ProcessingQuality
+  method?: SceneDetectionMethod
+  threshold?: number // 0-1 difference between consecutive samples that counts as a cut
+  minSceneLength?: number // seconds
+  signal?: AbortSignal
+  onProgress?: (progress: number) => void
+}
+
+export interface SceneCut {
+  time: number
+  score: number
+  confidence: number
+}
+
+// Frames sampled per second of source for each processing quality
+export const SCENE_SAMPLE_RATES: Record<ProcessingQuality, number> = {
+  fast: 1,
+  balanced: 2,
+  high: 5
+}
+
+const DEFAULT_THRESHOLDS: Record<SceneDetectionMethod, number> = {
+  histogram: 0.35,
+  phash: 0.3
+}
+
+const HISTOGRAM_BINS = 16
+const SCENE_COLORS = ['bg-blue-500', 'bg-green-500', 'bg-red-500', 'bg-purple-500', 'bg-cyan-500', 'bg-pink-500']
+
+export function computeColorHistogram(image: ImageData): Float32Array {
+  const histogram = new Float32Array(HISTOGRAM_BINS * 3)
+  const pixelCount = image.width * image.height
+  const binWidth = 256 / HISTOGRAM_BINS
+
+  for (let i = 0; i < image.data.length; i += 4) {
+    histogram[Math.floor(image.data[i] / binWidth)]++
+    histogram[HISTOGRAM_BINS + Math.floor(image.data[i + 1] / binWidth)]++
+    histogram[HISTOGRAM_BINS * 2 + Math.floor(image.data[i + 2] / binWidth)]++
+  }
+  for (let i = 0; i < histogram.length; i++) {
+    histogram[i] /= pixelCount
+  }
+
+  return histogram
+}
+
+// 1 minus the histogram intersection, averaged over the three channels
+export function histogramDistance(a: Float32Array, b: Float32Array) {
+  let intersection = 0
+  for (let i = 0; i < a.length; i++) {
+    intersection += Math.min(a[i], b[i])
+  }
+  return 1 - intersection / 3
+}
+
+// Difference hash: compares horizontally adjacent luma cells on a 9x8 grid
+export function computePerceptualHash(image: ImageData): Uint8Array {
+  const gridWidth = 9
+  const gridHeight = 8
+  const cells = new Float32Array(gridWidth * gridHeight)
+  const counts = new Uint16Array(gridWidth * gridHeight)
+
+  for (let y = 0; y < image.height; y++) {
+    const cellY = Math.min(gridHeight - 1, Math.floor((y / image.height) * gridHeight))
+    for (let x = 0; x < image.width; x++) {
+      const cellX = Math.min(gridWidth - 1, Math.floor((x / image.width) * gridWidth))
+      const offset = (y * image.width + x) * 4
+      const luma = 0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2]
+      cells[cellY * gridWidth + cellX] += luma
+      counts[cellY * gridWidth + cellX]++
+    }
+  }
+
+  const hash = new Uint8Array(64)
+  for (let y = 0; y < gridHeight; y++) {
+    for (let x = 0; x < gridWidth - 1; x++) {
+      const left = cells[y * gridWidth + x] / Math.max(1, counts[y * gridWidth + x])
+      const right = cells[y * gridWidth + x + 1] / Math.max(1, counts[y * gridWidth + x + 1])
+      hash[y * 8 + x] = left > right ? 1 : 0
+    }
+  }
+  return hash
+}
+
+export function hashDistance(a: Uint8Array, b: Uint8Array) {
+  let differing = 0
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) differing++
+  }
+  return differing / a.length
+}
+
+export function getSampleTimes(duration: number, quality: ProcessingQuality) {
+  const step = 1 / SCENE_SAMPLE_RATES[quality]
+  const times: number[] = []
+  // Stay a hair before the end; seeking to exactly `duration` yields no frame in some browsers
+  for (let time = 0; time < duration - 0.05; time += step) {
+    times.push(time)
+  }
+  return times
+}
+
+// Turns per-sample difference scores into cuts, keeping only the strongest cut within minSceneLength
+export function pickSceneCuts(
+  scores: Array<{ time: number; score: number }>,
+  threshold: number,
+  minSceneLength: number
+): SceneCut[] {
+  const cuts: SceneCut[] = []
+
+  for (const { time, score } of scores) {
+    if (score < threshold) continue
+
+    const confidence = Math.min(0.99, 0.5 + ((score - threshold) / (1 - threshold)) * 0.5)
+    const previous = cuts[cuts.length - 1]
+    const lastSceneStart = previous?.time ?? 0
+
+    if (time - lastSceneStart < minSceneLength) {
+      if (previous && score > previous.score) {
+        cuts[cuts.length - 1] = { time, score, confidence }
+      }
+      continue
+    }
+    cuts.push({ time, score, confidence })
+  }
+
+  return cuts
+}
+
+export function buildSceneSegments(cuts: SceneCut[], duration: number): TimelineSegment[] {
+  const boundaries = [{ time: 0, confidence: 1 }, ...cuts]
+
+  return boundaries.map((boundary, index) => ({
+    id: `scene-${index + 1}`,
+    start: boundary.time,
+    end: index + 1 < boundaries.length ? boundaries[index + 1].time : duration,
+    type: 'scene' as const,
+    confidence: boundary.confidence,
+    label: `Scene ${index + 1}`,
+    color: SCENE_COLORS[index % SCENE_COLORS.length]
+  }))
+}
+
+export async function detectScenes(
+  mediaUrl: string,
+  duration: number,
+  { quality, method = 'histogram', threshold, minSceneLength = 1, signal, onProgress }: SceneDetectionOptions
+): Promise<TimelineSegment[]> {
+  const cutThreshold = threshold ?? DEFAULT_THRESHOLDS[method]
+  const times = getSampleTimes(duration, quality)
+  const scores: Array<{ time: number; score: number }> = []
+  let previousHistogram: Float32Array | null = null
+  let previousHash: Uint8Array | null = null
+
+  for await (const frame of sampleFrames(mediaUrl, times, { signal, onProgress })) {
+    if (method === 'histogram') {
+      const histogram = computeColorHistogram(frame.image)
+      if (previousHistogram) {
+        scores.push({ time: frame.time, score: histogramDistance(previousHistogram, histogram) })
+      }
+      previousHistogram = histogram
+    } else {
+      const hash = computePerceptualHash(frame.image)
+      if (previousHash) {
+        scores.push({ time: frame.time, score: hashDistance(previousHash, hash) })
+      }
+      previousHash = hash
+    }
+  }
+
+  return buildSceneSegments(pickSceneCuts(scores, cutThreshold, minSceneLength), duration)
+}
@@ -0,0 +1,24 @@
+import { blink } from '../blink/client'
+import type { ShortcutBindings } from './shortcuts'
+
+// Bindings are stored as a JSON text column, one row per user
+interface ShortcutRecord {
+  id: string // the user id
+  bindings: string
+  updatedAt: string
+}
+
+const shortcutsTable = () => blink.db.table<ShortcutRecord>('shortcut_bindings')
+
+export async function loadShortcutBindings(userId: string): Promise<Partial<ShortcutBindings> | undefined> {
+  const record = await shortcutsTable().get(userId)
+  return record ? JSON.parse(record.bindings) as Partial<ShortcutBindings> : undefined
+}
+
+export async function saveShortcutBindings(userId: string, bindings: ShortcutBindings) {
+  await shortcutsTable().upsert({
+    id: userId,
+    bindings: JSON.stringify(bindings),
+    updatedAt: new Date().toISOString()
+  })
+}
@@ -0,0 +1,127 @@
+// Keyboard bindings for the editor. A binding is a key combo written the way it's shown,
+// e.g. "Shift+ArrowLeft", so stored bindings stay readable.
+
+export type ShortcutAction =
+  | 'playPause'
+  | 'shuttleReverse'
+  | 'shuttleStop'
+  | 'shuttleForward'
+  | 'markIn'
+  | 'markOut'
+  | 'clearMarks'
+  | 'previousFrame'
+  | 'nextFrame'
+  | 'backSecond'
+  | 'forwardSecond'
+  | 'previousEdit'
+  | 'nextEdit'
+  | 'previousMarker'
+  | 'nextMarker'
+  | 'split'
+  | 'addMarker'
+
+export type ShortcutBindings = Record<ShortcutAction, string | null> // null leaves an action unbound
+
+export interface ShortcutDefinition {
+  action: ShortcutAction
+  label: string
+  group: 'Playback' | 'Navigation' | 'Editing'
+}
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { action: 'playPause', label: 'Play / pause', group: 'Playback' },
+  { action: 'shuttleReverse', label: 'Shuttle backwards (press again to speed up)', group: 'Playback' },
+  { action: 'shuttleStop', label: 'Stop shuttling', group: 'Playback' },
+  { action: 'shuttleForward', label: 'Shuttle forwards (press again to speed up)', group: 'Playback' },
+  { action: 'previousFrame', label: 'Back one frame', group: 'Navigation' },
+  { action: 'nextFrame', label: 'Forward one frame', group: 'Navigation' },
+  { action: 'backSecond', label: 'Back one second', group: 'Navigation' },
+  { action: 'forwardSecond', label: 'Forward one second', group: 'Navigation' },
+  { action: 'previousEdit', label: 'Previous edit point', group: 'Navigation' },
+  { action: 'nextEdit', label: 'Next edit point', group: 'Navigation' },
+  { action: 'previousMarker', label: 'Previous marker', group: 'Navigation' },
+  { action: 'nextMarker', label: 'Next marker', group: 'Navigation' },
+  { action: 'markIn', label: 'Mark in', group: 'Editing' },
+  { action: 'markOut', label: 'Mark out', group: 'Editing' },
+  { action: 'clearMarks', label: 'Clear in and out marks', group: 'Editing' },
+  { action: 'split', label: 'Split at the playhead', group: 'Editing' },
+  { action: 'addMarker', label: 'Add a marker at the playhead', group: 'Editing' }
+]
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  playPause: 'Space',
+  shuttleReverse: 'J',
+  shuttleStop: 'K',
+  shuttleForward: 'L',
+  markIn: 'I',
+  markOut: 'O',
+  clearMarks: 'Alt+X',
+  previousFrame: 'ArrowLeft',
+  nextFrame: 'ArrowRight',
+  backSecond: 'Shift+ArrowLeft',
+  forwardSecond: 'Shift+ArrowRight',
+  previousEdit: 'ArrowUp',
+  nextEdit: 'ArrowDown',
+  previousMarker: 'Shift+ArrowUp',
+  nextMarker: 'Shift+ArrowDown',
+  split: 'S',
+  addMarker: 'M'
+}
+
+// Each press of J or L doubles the speed, up to this many times normal
+export const MAX_SHUTTLE_RATE = 8
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta']
+
+// Names the key pressed, or null for a modifier on its own. Letters are taken from the physical key
+// so Shift and Alt don't turn them into other characters.
+export function getKeyCombo(event: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>) {
+  if (MODIFIER_KEYS.includes(event.key)) return null
+
+  const key = event.code.startsWith('Key')
+    ? event.code.slice(3)
+    : event.code.startsWith('Digit')
+      ? event.code.slice(5)
+      : event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toUpperCase() : event.key
+
+  return [
+    event.ctrlKey || event.metaKey ? 'Ctrl' : null,
+    event.altKey ? 'Alt' : null,
+    event.shiftKey ? 'Shift' : null,
+    key
+  ].filter(Boolean).join('+')
+}
+
+export function formatKeyCombo(combo: string | null) {
+  if (!combo) return 'Unbound'
+  return combo
+    .replace('ArrowLeft', '←')
+    .replace('ArrowRight', '→')
+    .replace('ArrowUp', '↑')
+    .replace('ArrowDown', '↓')
+}
+
+export function getShortcutAction(bindings: ShortcutBindings, combo: string) {
+  return SHORTCUTS.find(shortcut => bindings[shortcut.action] === combo)?.action
+}
+
+// Ctrl+Z and Ctrl+Y belong to undo and redo
+export function isReservedCombo(combo: string) {
+  return ['Ctrl+Z', 'Ctrl+Shift+Z', 'Ctrl+Y'].includes(combo)
+}
+
+// Giving a combo to one action takes it off whichever action had it before
+export function bindShortcut(bindings: ShortcutBindings, action: ShortcutAction, combo: string | null): ShortcutBindings {
+  const next = { ...bindings }
+  if (combo) {
+    const previous = getShortcutAction(bindings, combo)
+    if (previous && previous !== action) next[previous] = null
+  }
+  next[action] = combo
+  return next
+}
+
+// Stored bindings miss actions added since they were saved; those get their defaults
+export function withDefaultShortcuts(stored: Partial<ShortcutBindings> | undefined): ShortcutBindings {
+  return { ...DEFAULT_SHORTCUTS, ...stored }
+}
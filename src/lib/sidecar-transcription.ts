@@ -0,0 +1,139 @@
+import {
+  createSegment,
+  createTranscript,
+  estimateWordTimes,
+  groupWords,
+  type TranscriptSegment,
+  type TranscriptWord
+} from './transcript'
+import type { TranscriptionProvider } from './transcription'
+import { parseSubtitles } from './subtitles'
+
+type SidecarFormat = 'json' | 'srt' | 'vtt'
+
+// The shape accepted in .json sidecars; `word` is read as well as `text` for Whisper output
+interface SidecarWord {
+  text?: string
+  word?: string
+  start: number
+  end: number
+  speaker?: string
+  confidence?: number
+}
+
+interface SidecarSegment {
+  start: number
+  end: number
+  text?: string
+  speaker?: string
+  words?: SidecarWord[]
+}
+
+interface SidecarDocument {
+  language?: string
+  segments?: SidecarSegment[]
+  words?: SidecarWord[]
+}
+
+export const SIDECAR_EXTENSIONS = ['.json', '.srt', '.vtt']
+
+// "Name: text", "[Name] text" and ">> Name: text" styles of speaker labelling
+const SPEAKER_PREFIX = /^(?:>>\s*)?(?:\[([^\]]{1,40})\]\s*|([A-Z][\w.'-]*(?: [A-Z0-9][\w.'-]*){0,2}):\s+)/
+
+const getExtension = (name: string) => name.slice(name.lastIndexOf('.')).toLowerCase()
+
+export function isSidecarFile(name: string) {
+  return SIDECAR_EXTENSIONS.includes(getExtension(name))
+}
+
+// Sidecars pair with the video that has the same name, e.g. talk.mp4 and talk.srt
+export function findSidecar<T extends { name: string }>(videoName: string, files: T[]): T | undefined {
+  const baseName = videoName.slice(0, videoName.lastIndexOf('.')).toLowerCase()
+  return files.find(file =>
+    isSidecarFile(file.name) && file.name.slice(0, file.name.lastIndexOf('.')).toLowerCase() === baseName
+  )
+}
+
+const detectFormat = (name: string, content: string): SidecarFormat => {
+  const extension = getExtension(name)
+  if (extension === '.json' || extension === '.srt' || extension === '.vtt') {
+    return extension.slice(1) as SidecarFormat
+  }
+
+  const start = content.trimStart()
+  if (start.startsWith('WEBVTT')) return 'vtt'
+  return start.startsWith('{') || start.startsWith('[') ? 'json' : 'srt'
+}
+
+// Caption files often name the speaker at the start of the text instead of in a voice span
+const splitSpeaker = (text: string): { speaker?: string, text: string } => {
+  const plain = text.replace(/\s+/g, ' ').trim()
+  const prefix = SPEAKER_PREFIX.exec(plain)
+  if (!prefix) return { text: plain }
+  return { speaker: (prefix[1] ?? prefix[2]).trim(), text: plain.slice(prefix[0].length) }
+}
+
+const parseCues = (content: string): TranscriptSegment[] => {
+  const segments: TranscriptSegment[] = []
+  let speaker: string | undefined
+
+  for (const cue of parseSubtitles(content)) {
+    const labelled = splitSpeaker(cue.text)
+    if (!labelled.text) continue
+    // Unlabelled cues carry on with whoever spoke last
+    speaker = cue.speaker ?? labelled.speaker ?? speaker
+
+    segments.push(createSegment(estimateWordTimes(labelled.text, cue.start, cue.end, speaker), speaker))
+  }
+
+  return segments
+}
+
+const toWord = (word: SidecarWord): TranscriptWord | null => {
+  const text = (word.text ?? word.word ?? '').trim()
+  if (!text || !Number.isFinite(word.start) || !Number.isFinite(word.end)) return null
+  return { text, start: word.start, end: word.end, speaker: word.speaker, confidence: word.confidence }
+}
+
+const parseJson = (content: string) => {
+  const parsed = JSON.parse(content) as SidecarDocument | SidecarWord[]
+  const document: SidecarDocument = Array.isArray(parsed) ? { words: parsed } : parsed
+
+  if (document.segments?.length) {
+    const segments = document.segments.flatMap(segment => {
+      const words = (segment.words ?? []).flatMap(word => toWord(word) ?? [])
+      const timed = words.length > 0
+        ? words
+        : estimateWordTimes(segment.text?.trim() ?? '', segment.start, segment.end, segment.speaker)
+      return timed.length > 0 ? [createSegment(timed, segment.speaker ?? timed[0].speaker)] : []
+    })
+    return { segments, language: document.language }
+  }
+
+  return { segments: groupWords((document.words ?? []).flatMap(word => toWord(word) ?? [])), language: document.language }
+}
+
+export function parseSidecar(name: string, content: string) {
+  const format = detectFormat(name, content)
+  return format === 'json' ? parseJson(content) : { segments: parseCues(content), language: undefined }
+}
+
+// Reads a transcript made elsewhere, so projects can be transcribed without a speech service
+export const sidecarTranscriptionProvider: TranscriptionProvider = {
+  id: 'sidecar',
+  name: 'Transcript file',
+
+  transcribe: async ({ sidecar, signal, onProgress }) => {
+    if (!sidecar) throw new Error('No transcript file was uploaded with this video')
+
+    const response = await fetch(sidecar.url, { signal })
+    if (!response.ok) throw new Error(`Could not download ${sidecar.name} (${response.status})`)
+    onProgress?.(0.5)
+
+    const { segments, language } = parseSidecar(sidecar.name, await response.text())
+    if (segments.length === 0) throw new Error(`${sidecar.name} has no timed text in it`)
+
+    onProgress?.(1)
+    return createTranscript('sidecar', segments, language)
+  }
+}
@@ -0,0 +1,59 @@
+import type { Waveform } from './waveform'
+import type { TimeRange } from './timeline'
+
+export interface SilenceDetectionOptions {
+  thresholdDb: number // RMS level below which audio counts as silent, in dBFS
+  minDuration: number // seconds of continuous silence before it is worth cutting
+  padding: number // seconds of silence kept on each side of a cut so speech isn't clipped
+}
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceDetectionOptions = {
+  thresholdDb: -40,
+  minDuration: 0.6,
+  padding: 0.15
+}
+
+// Clicks and breaths shorter than this don't break up a silent stretch
+const MAX_BLIP_SECONDS = 0.05
+
+export function detectSilence(
+  waveform: Waveform,
+  { thresholdDb, minDuration, padding }: SilenceDetectionOptions
+): TimeRange[] {
+  const level = waveform.levels[0]
+  const bucketSeconds = level.bucketSize / waveform.sampleRate
+  const threshold = 10 ** (thresholdDb / 20)
+  const maxBlipBuckets = Math.round(MAX_BLIP_SECONDS / bucketSeconds)
+
+  const runs: TimeRange[] = []
+  let runStart = -1
+  let loudSince = -1
+
+  for (let i = 0; i <= level.rms.length; i++) {
+    const silent = i < level.rms.length && level.rms[i] < threshold
+
+    if (silent) {
+      if (runStart < 0) runStart = i
+      loudSince = -1
+      continue
+    }
+
+    if (runStart < 0) continue
+    if (loudSince < 0) loudSince = i
+    // Keep the run open through a short blip, unless we've hit the end of the audio
+    if (i < level.rms.length && i - loudSince < maxBlipBuckets) continue
+
+    runs.push({ start: runStart * bucketSeconds, end: loudSince * bucketSeconds })
+    runStart = -1
+    loudSince = -1
+  }
+
+  return runs
+    .filter(run => run.end - run.start >= minDuration)
+    .map(run => ({
+      // No padding is needed against the very start or end of the media
+      start: run.start <= 0 ? 0 : run.start + padding,
+      end: run.end >= waveform.duration ? waveform.duration : run.end - padding
+    }))
+    .filter(range => range.end > range.start)
+}
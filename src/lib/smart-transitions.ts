@@ -0,0 +1,164 @@
+import { addTransition, type EditDecisionList } from './edl'
+import { sampleFrames } from './frame-sampler'
+import { computeColorHistogram, histogramDistance } from './scene-detection'
+import {
+  getCuts,
+  getMaxTransitionDuration,
+  getTransitionDefinition,
+  getTransitionParams,
+  getTransitionSettings,
+  MIN_TRANSITION_DURATION,
+  type TransitionSettings
+} from './transitions'
+
+// What a shot looks like right at the cut
+export interface ShotProfile {
+  brightness: number // 0..1 mean luma
+  motion: number // 0..1 mean luma change between the frames sampled
+  histogram: Float32Array
+}
+
+export interface TransitionChoice {
+  fromClipId: string
+  toClipId: string
+  settings: TransitionSettings
+  duration: number
+}
+
+interface SmartTransitionOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: number) => void
+}
+
+// Each side of a cut is sampled this far (in seconds) from it, nearest first
+const SAMPLE_OFFSETS = [0.05, 0.4]
+// Histograms closer than this look like the same place, so the cut is a jump cut
+const SAME_SETTING_DISTANCE = 0.25
+const DARK_BRIGHTNESS = 0.12
+const BRIGHT_BRIGHTNESS = 0.7
+const BRIGHTNESS_JUMP = 0.35
+const MOVING_MOTION = 0.06
+// Jump cuts only want enough blend to hide the jump
+const JUMP_CUT_DURATION = 0.4
+// No more than this share of the shorter clip goes to the transition
+const MAX_CLIP_SHARE = 0.5
+
+const getLuma = (image: ImageData) => {
+  const luma = new Float32Array(image.width * image.height)
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = (0.299 * image.data[i * 4] + 0.587 * image.data[i * 4 + 1] + 0.114 * image.data[i * 4 + 2]) / 255
+  }
+  return luma
+}
+
+// The first frame is the one nearest the cut
+export function profileShot(frames: ImageData[]): ShotProfile {
+  const lumas = frames.map(getLuma)
+  const brightness = lumas[0].reduce((sum, value) => sum + value, 0) / lumas[0].length
+
+  let motion = 0
+  for (let f = 1; f < lumas.length; f++) {
+    let difference = 0
+    for (let i = 0; i < lumas[f].length; i++) difference += Math.abs(lumas[f][i] - lumas[f - 1][i])
+    motion = Math.max(motion, difference / lumas[f].length)
+  }
+
+  return { brightness, motion, histogram: computeColorHistogram(frames[0]) }
+}
+
+// Picks the transition that suits the two shots, trying each rule in turn:
+// shots that are already dark dip through black, jump cuts get a quick crossfade, shots that are both
+// moving are pushed along with a slide, a big change in exposure dips so the eye can adjust, and a
+// single moving shot is wiped in. Anything else gets a plain crossfade.
+// The duration is left out unless the rule wants something other than the catalog's default.
+export function chooseTransition(outgoing: ShotProfile, incoming: ShotProfile): { settings: TransitionSettings, duration?: number } {
+  const pick = (type: TransitionSettings['type'], changes: Partial<TransitionSettings> = {}, duration?: number) => ({
+    settings: { ...getTransitionSettings({ type }), ...changes },
+    duration
+  })
+  const brightnessJump = Math.abs(outgoing.brightness - incoming.brightness)
+  const moving = [outgoing, incoming].filter(shot => shot.motion > MOVING_MOTION).length
+
+  if (Math.min(outgoing.brightness, incoming.brightness) < DARK_BRIGHTNESS) {
+    return pick('dip', { color: '#000000' })
+  }
+  if (histogramDistance(outgoing.histogram, incoming.histogram) < SAME_SETTING_DISTANCE) {
+    return pick('crossfade', {}, JUMP_CUT_DURATION)
+  }
+  if (moving === 2) {
+    return pick('slide')
+  }
+  if (brightnessJump > BRIGHTNESS_JUMP) {
+    const bright = Math.min(outgoing.brightness, incoming.brightness) > BRIGHT_BRIGHTNESS
+    return pick('dip', { color: bright ? '#FFFFFF' : '#000000' })
+  }
+  if (moving === 1) {
+    return pick('wipe', { direction: outgoing.motion > incoming.motion ? 'left' : 'right' })
+  }
+  return pick('crossfade')
+}
+
+// Looks at the frames either side of every cut that has no transition yet and chooses one for it.
+// Each file is opened once and read front to back.
+export async function chooseSmartTransitions(
+  edl: EditDecisionList,
+  sourceUrls: Record<string, string | undefined>,
+  { signal, onProgress }: SmartTransitionOptions = {}
+): Promise<TransitionChoice[]> {
+  const cuts = getCuts(edl).filter(cut =>
+    !cut.transition &&
+    getMaxTransitionDuration(cut.from, cut.to) * MAX_CLIP_SHARE >= MIN_TRANSITION_DURATION &&
+    sourceUrls[cut.from.sourceId] && sourceUrls[cut.to.sourceId]
+  )
+  if (cuts.length === 0) return []
+
+  const requests = cuts.flatMap((cut, index) => SAMPLE_OFFSETS.flatMap((offset, order) => [
+    { key: `${index}-out`, order, sourceId: cut.from.sourceId, time: Math.max(cut.from.sourceIn, cut.from.sourceOut - offset) },
+    { key: `${index}-in`, order, sourceId: cut.to.sourceId, time: Math.min(cut.to.sourceOut - 0.01, cut.to.sourceIn + offset) }
+  ]))
+  const frames = new Map<string, ImageData[]>()
+  let sampled = 0
+
+  for (const sourceId of new Set(requests.map(request => request.sourceId))) {
+    const url = sourceUrls[sourceId]
+    const wanted = requests.filter(request => request.sourceId === sourceId).sort((a, b) => a.time - b.time)
+    if (!url) continue
+
+    let i = 0
+    for await (const frame of sampleFrames(url, wanted.map(request => request.time), { signal })) {
+      const request = wanted[i++]
+      const side = frames.get(request.key) ?? []
+      side[request.order] = frame.image
+      frames.set(request.key, side)
+      onProgress?.(++sampled / requests.length)
+    }
+  }
+
+  return cuts.flatMap((cut, index) => {
+    const outgoing = frames.get(`${index}-out`)
+    const incoming = frames.get(`${index}-in`)
+    if (!outgoing?.[0] || !incoming?.[0]) return []
+
+    const choice = chooseTransition(profileShot(outgoing.filter(Boolean)), profileShot(incoming.filter(Boolean)))
+    const duration = Math.min(
+      choice.duration ?? getTransitionDefinition(choice.settings.type).duration,
+      getMaxTransitionDuration(cut.from, cut.to) * MAX_CLIP_SHARE
+    )
+    return [{ settings: choice.settings, duration, fromClipId: cut.from.id, toClipId: cut.to.id }]
+  })
+}
+
+// Cuts that were given a transition, or stopped being cuts, while the frames were being read are left alone
+export function applyTransitionChoices(edl: EditDecisionList, choices: TransitionChoice[]) {
+  const open = new Set(getCuts(edl).filter(cut => !cut.transition).map(cut => `${cut.from.id}>${cut.to.id}`))
+
+  return choices
+    .filter(choice => open.has(`${choice.fromClipId}>${choice.toClipId}`))
+    .reduce((next, choice) => addTransition(next, {
+      type: choice.settings.type,
+      fromClipId: choice.fromClipId,
+      toClipId: choice.toClipId,
+      duration: choice.duration,
+      params: getTransitionParams(choice.settings)
+    }), edl)
+}
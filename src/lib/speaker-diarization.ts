@@ -0,0 +1,184 @@
+import { createSegment, type TranscriptSegment } from './transcript'
+
+// Tells voices apart by their pitch and the rough shape of their spectrum, measured over each transcript
+// segment. Segments whose voice is close to a speaker heard before are given that speaker's label.
+
+interface Voiceprint {
+  pitch?: number // semitones above 55Hz, absent when too little of the segment was voiced
+  bands: number[] // dB per band, relative to the segment's average level
+  weight: number // seconds of speech behind it
+}
+
+interface Speaker {
+  label: string
+  print: Voiceprint
+}
+
+// 32ms at the 8kHz the waveform is decoded at
+const FRAME_SIZE = 256
+const MAX_FRAMES_PER_SEGMENT = 24
+const MIN_PITCH = 70
+const MAX_PITCH = 400
+// How strongly a frame has to repeat itself to count as voiced
+const VOICING_THRESHOLD = 0.4
+// Frames quieter than this share of the segment's loudest are pauses between words
+const SILENT_FRAME_RATIO = 0.1
+const MIN_VOICED_FRAMES = 4
+const BAND_FREQUENCIES = [150, 250, 350, 500, 700, 900, 1200, 1500, 1900, 2400, 3000, 3600]
+// A pitch change of PITCH_SCALE semitones, or a spectrum change of SPECTRUM_SCALE dB per band, counts as
+// one unit of distance; a segment further than one unit from every known speaker is someone new
+const PITCH_SCALE = 4
+const SPECTRUM_SCALE = 6
+const NEW_SPEAKER_DISTANCE = 1
+// Speakers heard for less than this are more likely one speaker's odd segment than a new voice
+const MIN_SPEAKER_SECONDS = 3
+
+const average = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length
+
+const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)]
+
+// Strongest autocorrelation peak in the speaking range, normalised so 1 is a perfectly periodic frame
+const measurePitch = (frame: Float32Array, sampleRate: number) => {
+  const minLag = Math.floor(sampleRate / MAX_PITCH)
+  const maxLag = Math.min(frame.length - 1, Math.ceil(sampleRate / MIN_PITCH))
+  let energy = 0
+  for (let i = 0; i < frame.length; i++) energy += frame[i] * frame[i]
+  if (energy === 0) return undefined
+
+  let bestLag = 0
+  let bestScore = 0
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0
+    for (let i = 0; i + lag < frame.length; i++) sum += frame[i] * frame[i + lag]
+    const score = sum / energy
+    if (score > bestScore) {
+      bestScore = score
+      bestLag = lag
+    }
+  }
+  return bestScore >= VOICING_THRESHOLD && bestLag > 0 ? sampleRate / bestLag : undefined
+}
+
+// Goertzel filter: the power of a single frequency across the (windowed) frame
+const measureBand = (frame: Float32Array, frequency: number, sampleRate: number) => {
+  const coefficient = 2 * Math.cos(2 * Math.PI * frequency / sampleRate)
+  let previous = 0
+  let beforePrevious = 0
+  for (let i = 0; i < frame.length; i++) {
+    const current = frame[i] + coefficient * previous - beforePrevious
+    beforePrevious = previous
+    previous = current
+  }
+  return previous * previous + beforePrevious * beforePrevious - coefficient * previous * beforePrevious
+}
+
+const measureSegment = (samples: Float32Array, sampleRate: number, segment: TranscriptSegment): Voiceprint | null => {
+  const first = Math.floor(segment.start * sampleRate)
+  const last = Math.min(samples.length, Math.floor(segment.end * sampleRate)) - FRAME_SIZE
+  if (last <= first) return null
+
+  const frameCount = Math.min(MAX_FRAMES_PER_SEGMENT, Math.floor((last - first) / FRAME_SIZE) + 1)
+  const step = frameCount > 1 ? (last - first) / (frameCount - 1) : 0
+  const frames = Array.from({ length: frameCount }, (_, index) => {
+    const start = Math.round(first + index * step)
+    const frame = new Float32Array(FRAME_SIZE)
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      frame[i] = samples[start + i] * (0.5 - 0.5 * Math.cos(2 * Math.PI * i / (FRAME_SIZE - 1)))
+    }
+    return { frame, energy: frame.reduce((total, value) => total + value * value, 0) }
+  })
+
+  const loudest = Math.max(...frames.map(frame => frame.energy))
+  const spoken = frames.filter(frame => loudest > 0 && frame.energy >= loudest * SILENT_FRAME_RATIO)
+  if (spoken.length < MIN_VOICED_FRAMES) return null
+
+  const pitches = spoken.flatMap(({ frame }) => measurePitch(frame, sampleRate) ?? [])
+  const bands = BAND_FREQUENCIES.map(frequency =>
+    10 * Math.log10(average(spoken.map(({ frame }) => measureBand(frame, frequency, sampleRate))) + 1e-12)
+  )
+  const level = average(bands)
+
+  return {
+    pitch: pitches.length >= MIN_VOICED_FRAMES ? 12 * Math.log2(median(pitches) / 55) : undefined,
+    bands: bands.map(band => band - level),
+    weight: segment.end - segment.start
+  }
+}
+
+const getDistance = (a: Voiceprint, b: Voiceprint) => {
+  const spectrum = Math.sqrt(average(a.bands.map((band, index) => (band - b.bands[index]) ** 2))) / SPECTRUM_SCALE
+  const pitch = a.pitch !== undefined && b.pitch !== undefined ? Math.abs(a.pitch - b.pitch) / PITCH_SCALE : 0
+  return Math.sqrt(spectrum * spectrum + pitch * pitch)
+}
+
+// Folds a segment's voiceprint into a speaker's running average, weighted by how long each was heard
+const mergePrints = (a: Voiceprint, b: Voiceprint): Voiceprint => {
+  const weight = a.weight + b.weight
+  const mix = (x: number, y: number) => (x * a.weight + y * b.weight) / weight
+  return {
+    pitch: a.pitch === undefined ? b.pitch : b.pitch === undefined ? a.pitch : mix(a.pitch, b.pitch),
+    bands: a.bands.map((band, index) => mix(band, b.bands[index])),
+    weight
+  }
+}
+
+const findNearest = (speakers: Speaker[], print: Voiceprint) => {
+  return speakers.reduce<{ speaker: Speaker, distance: number } | null>((nearest, speaker) => {
+    const distance = getDistance(speaker.print, print)
+    return !nearest || distance < nearest.distance ? { speaker, distance } : nearest
+  }, null)
+}
+
+// Labels each segment "Speaker 1", "Speaker 2"... in the order the voices are first heard. Segments too
+// short to measure carry on with the speaker before them.
+export function labelSpeakers(segments: TranscriptSegment[], samples: Float32Array, sampleRate: number): TranscriptSegment[] {
+  const prints = segments.map(segment => measureSegment(samples, sampleRate, segment))
+  let speakers: Speaker[] = []
+
+  const assigned = prints.map(print => {
+    if (!print) return null
+
+    const nearest = findNearest(speakers, print)
+    if (nearest && nearest.distance <= NEW_SPEAKER_DISTANCE) {
+      nearest.speaker.print = mergePrints(nearest.speaker.print, print)
+      return nearest.speaker
+    }
+    const speaker = { label: '', print }
+    speakers.push(speaker)
+    return speaker
+  })
+
+  // Barely heard voices join whoever they sound most like
+  const merged = new Map<Speaker, Speaker>()
+  for (const speaker of [...speakers].sort((a, b) => a.print.weight - b.print.weight)) {
+    const others = speakers.filter(other => other !== speaker)
+    if (speaker.print.weight >= MIN_SPEAKER_SECONDS || others.length === 0) continue
+
+    const nearest = findNearest(others, speaker.print)
+    if (!nearest) continue
+    nearest.speaker.print = mergePrints(nearest.speaker.print, speaker.print)
+    merged.set(speaker, nearest.speaker)
+    speakers = others
+  }
+  const resolve = (speaker: Speaker) => {
+    let current = speaker
+    for (let next = merged.get(current); next; next = merged.get(current)) current = next
+    return current
+  }
+
+  let previous: Speaker | undefined
+  const bySegment = assigned.map(speaker => {
+    previous = speaker ? resolve(speaker) : previous
+    return previous
+  })
+  // Leading segments too short to measure belong to the first voice heard
+  const firstHeard = bySegment.find(Boolean)
+
+  let count = 0
+  return segments.map((segment, index) => {
+    const speaker = bySegment[index] ?? firstHeard
+    if (!speaker) return segment
+    if (!speaker.label) speaker.label = `Speaker ${++count}`
+    return createSegment(segment.words.map(word => ({ ...word, speaker: speaker.label })), speaker.label)
+  })
+}
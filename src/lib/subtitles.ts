@@ -0,0 +1,255 @@
+import type { TimeRange } from './timeline'
+import type { TranscriptWord } from './transcript'
+
+export type SubtitleFormat = 'srt' | 'vtt'
+
+// Timed in timeline seconds, like the clips they caption
+export interface SubtitleCue {
+  id: string
+  start: number
+  end: number
+  text: string // lines separated by \n
+  speaker?: string
+}
+
+export interface SubtitleLimits {
+  maxLineLength: number
+  maxLines: number
+  maxCharsPerSecond: number
+  minDuration: number
+  maxDuration: number
+}
+
+export type SubtitleIssueKind = 'line_length' | 'line_count' | 'reading_speed' | 'too_short' | 'too_long' | 'overlap'
+
+export interface SubtitleIssue {
+  cueId: string
+  kind: SubtitleIssueKind
+  message: string
+}
+
+// Common broadcast guidance: two lines of 42 characters read at up to 17 characters a second
+export const DEFAULT_SUBTITLE_LIMITS: SubtitleLimits = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxCharsPerSecond: 17,
+  minDuration: 0.8,
+  maxDuration: 7
+}
+
+const MIN_CUE_LENGTH = 0.2
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/
+
+export function createCue(start: number, end: number, text: string, speaker?: string): SubtitleCue {
+  return {
+    id: `cue-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    start,
+    end,
+    text,
+    speaker
+  }
+}
+
+export function sortCues(cues: SubtitleCue[]) {
+  return [...cues].sort((a, b) => a.start - b.start)
+}
+
+export function getCueAt(cues: SubtitleCue[], time: number) {
+  return cues.find(cue => time >= cue.start && time < cue.end)
+}
+
+const parseTimestamp = (value: string) => {
+  const match = TIMESTAMP.exec(value)
+  if (!match) return null
+
+  const [, hours = '0', minutes, seconds, fraction] = match
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000
+}
+
+const formatTimestamp = (time: number, separator: ',' | '.') => {
+  const totalMs = Math.max(0, Math.round(time * 1000))
+  const hours = Math.floor(totalMs / 3_600_000)
+  const minutes = Math.floor(totalMs / 60_000) % 60
+  const secs = Math.floor(totalMs / 1000) % 60
+  const ms = totalMs % 1000
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`
+}
+
+export function detectSubtitleFormat(content: string, name = ''): SubtitleFormat {
+  if (/\.vtt$/i.test(name) || content.trimStart().startsWith('WEBVTT')) return 'vtt'
+  return 'srt'
+}
+
+// SRT and WebVTT share the cue layout closely enough to read them the same way;
+// WebVTT voice spans become the cue's speaker and other markup is dropped
+export function parseSubtitles(content: string): SubtitleCue[] {
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/)
+  const cues: SubtitleCue[] = []
+
+  for (const block of blocks) {
+    const lines = block.split('\n')
+    const timingIndex = lines.findIndex(line => line.includes('-->'))
+    if (timingIndex === -1) continue
+
+    const [from, to] = lines[timingIndex].split('-->')
+    const start = parseTimestamp(from)
+    const end = parseTimestamp(to)
+    if (start === null || end === null || end <= start) continue
+
+    const raw = lines.slice(timingIndex + 1).join('\n')
+    const voice = /<v(?:\.[\w.-]+)?\s+([^>]+)>/.exec(raw)
+    const text = raw
+      .replace(/<[^>]*>/g, '')
+      .replace(/\{[^}]*\}/g, '')
+      .split('\n')
+      .map(line => line.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n')
+    if (!text) continue
+
+    cues.push(createCue(start, end, text, voice?.[1].trim()))
+  }
+
+  return sortCues(cues)
+}
+
+export function formatSubtitles(cues: SubtitleCue[], format: SubtitleFormat) {
+  const sorted = sortCues(cues)
+
+  if (format === 'vtt') {
+    const body = sorted.map(cue => {
+      const text = cue.speaker ? `<v ${cue.speaker}>${cue.text}` : cue.text
+      return `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${text}`
+    })
+    return ['WEBVTT', ...body].join('\n\n') + '\n'
+  }
+
+  return sorted
+    .map((cue, index) => `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}`)
+    .join('\n\n') + '\n'
+}
+
+// Breaks text into lines no longer than the limit, evening out the line lengths
+export function wrapText(text: string, maxLineLength = DEFAULT_SUBTITLE_LIMITS.maxLineLength) {
+  const words = text.replace(/\s+/g, ' ').trim().split(' ').filter(Boolean)
+  const totalLength = words.join(' ').length
+  if (totalLength <= maxLineLength) return words.join(' ')
+
+  const lineCount = Math.ceil(totalLength / maxLineLength)
+  const target = Math.min(maxLineLength, Math.ceil(totalLength / lineCount))
+  const lines: string[] = []
+  let line = ''
+
+  for (const word of words) {
+    const next = line ? `${line} ${word}` : word
+    if (line && (next.length > maxLineLength || (line.length >= target && lines.length < lineCount - 1))) {
+      lines.push(line)
+      line = word
+    } else {
+      line = next
+    }
+  }
+  if (line) lines.push(line)
+
+  return lines.join('\n')
+}
+
+const getReadableLength = (text: string) => text.replace(/\n/g, ' ').length
+
+// Words that are still in the edit become cues sized to the limits, broken at sentences, pauses and speaker changes
+export function cuesFromTranscript(
+  words: TranscriptWord[],
+  placements: (TimeRange | null)[],
+  limits: SubtitleLimits = DEFAULT_SUBTITLE_LIMITS
+): SubtitleCue[] {
+  const maxLength = limits.maxLineLength * limits.maxLines
+  const cues: SubtitleCue[] = []
+  let current: { words: string[], start: number, end: number, speaker?: string } | null = null
+
+  const flush = () => {
+    if (!current) return
+    const text = wrapText(current.words.join(' '), limits.maxLineLength)
+    cues.push(createCue(current.start, Math.max(current.end, current.start + limits.minDuration), text, current.speaker))
+    current = null
+  }
+
+  words.forEach((word, index) => {
+    const placement = placements[index]
+    if (!placement) return
+
+    if (current) {
+      const length = getReadableLength(current.words.join(' ')) + word.text.length + 1
+      const breaks =
+        placement.start - current.end > 1 ||
+        word.speaker !== current.speaker ||
+        length > maxLength ||
+        placement.end - current.start > limits.maxDuration ||
+        /[.!?]$/.test(current.words[current.words.length - 1])
+      if (breaks) flush()
+    }
+
+    if (!current) {
+      current = { words: [word.text], start: placement.start, end: placement.end, speaker: word.speaker }
+    } else {
+      current.words.push(word.text)
+      current.end = placement.end
+    }
+  })
+  flush()
+
+  // Stretched cues must not run into the next one
+  return cues.map((cue, index) => {
+    const next = cues[index + 1]
+    return next && cue.end > next.start ? { ...cue, end: Math.max(cue.start + MIN_CUE_LENGTH, next.start) } : cue
+  })
+}
+
+export function checkCues(cues: SubtitleCue[], limits: SubtitleLimits = DEFAULT_SUBTITLE_LIMITS): SubtitleIssue[] {
+  const sorted = sortCues(cues)
+
+  return sorted.flatMap((cue, index) => {
+    const issues: SubtitleIssue[] = []
+    const add = (kind: SubtitleIssueKind, message: string) => issues.push({ cueId: cue.id, kind, message })
+    const lines = cue.text.split('\n')
+    const duration = cue.end - cue.start
+    const longest = Math.max(...lines.map(line => line.length))
+    const charsPerSecond = getReadableLength(cue.text) / Math.max(duration, 0.001)
+
+    if (longest > limits.maxLineLength) add('line_length', `A line has ${longest} characters (limit ${limits.maxLineLength})`)
+    if (lines.length > limits.maxLines) add('line_count', `${lines.length} lines (limit ${limits.maxLines})`)
+    if (charsPerSecond > limits.maxCharsPerSecond) {
+      add('reading_speed', `${charsPerSecond.toFixed(1)} characters per second (limit ${limits.maxCharsPerSecond})`)
+    }
+    if (duration < limits.minDuration) add('too_short', `On screen for ${duration.toFixed(2)}s (minimum ${limits.minDuration}s)`)
+    if (duration > limits.maxDuration) add('too_long', `On screen for ${duration.toFixed(1)}s (maximum ${limits.maxDuration}s)`)
+
+    const next = sorted[index + 1]
+    if (next && next.start < cue.end - 0.001) add('overlap', 'Overlaps the next cue')
+
+    return issues
+  })
+}
+
+export function updateCue(cues: SubtitleCue[], cueId: string, changes: Partial<Omit<SubtitleCue, 'id'>>) {
+  return sortCues(cues.map(cue => {
+    if (cue.id !== cueId) return cue
+
+    const next = { ...cue, ...changes }
+    const start = Math.max(0, next.start)
+    return { ...next, start, end: Math.max(start + MIN_CUE_LENGTH, next.end) }
+  }))
+}
+
+// Keeps the cue's length, so dragging only changes when it shows
+export function moveCue(cues: SubtitleCue[], cueId: string, start: number) {
+  const cue = cues.find(c => c.id === cueId)
+  if (!cue) return cues
+
+  const clamped = Math.max(0, start)
+  return updateCue(cues, cueId, { start: clamped, end: clamped + (cue.end - cue.start) })
+}
+
+export function deleteCue(cues: SubtitleCue[], cueId: string) {
+  return cues.filter(cue => cue.id !== cueId)
+}
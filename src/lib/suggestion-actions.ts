@@ -0,0 +1,198 @@
+import type { FindingKind, ProjectAnalysis } from './analysis-provider'
+import {
+  addEffect,
+  getPrimaryVideoTrack,
+  getTrackClips,
+  healThroughEdits,
+  splitAtSourceTimes,
+  type ClipEffect,
+  type EditDecisionList
+} from './edl'
+import { EFFECT_LABELS, type EffectType } from './effects'
+import type { ProjectDocument } from './project-document'
+import type { AISuggestion, SuggestionActionId, SuggestionStatus } from './suggestions'
+import type { TimelineSegment } from './timeline'
+
+// What an action needs to know about the project besides its document
+export interface SuggestionContext {
+  sourceId: string
+  scenes?: TimelineSegment[]
+  analysis?: ProjectAnalysis
+}
+
+export interface SuggestionPlan {
+  document: ProjectDocument
+  changes: string[] // one line per edit, for the preview
+}
+
+export interface SuggestionAction {
+  id: SuggestionActionId
+  label: string
+  // Whether there is a fix for a finding of this kind; findings without one are only shown as insights
+  canFix: (kind: FindingKind) => boolean
+  // The document with the fix applied, or null when there is nothing to change
+  plan: (document: ProjectDocument, suggestion: AISuggestion, context: SuggestionContext) => SuggestionPlan | null
+  // Takes the fix back out, leaving edits made since then in place
+  revert: (document: ProjectDocument, suggestion: AISuggestion, context: SuggestionContext) => ProjectDocument
+}
+
+type EffectFix = Omit<ClipEffect, 'id' | 'suggestionId'>
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+const formatTimestamp = (seconds: number) => {
+  const mins = Math.floor(seconds / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${mins}:${secs.toString().padStart(2, '0')}`
+}
+
+const AUDIO_FIXES: Partial<Record<FindingKind, (analysis?: ProjectAnalysis) => EffectFix>> = {
+  clipping: () => ({ type: 'declip', params: {} }),
+  background_noise: (analysis) => ({
+    type: 'denoise',
+    // Take out roughly the distance between the noise and a quiet room
+    params: { reductionDb: clamp(Math.round((analysis?.audio?.noiseFloorDb ?? -40) + 65), 6, 30) }
+  }),
+  quiet_audio: () => ({ type: 'normalize', params: { targetLufs: -16 } }),
+  loud_audio: () => ({ type: 'normalize', params: { targetLufs: -16 } }),
+  inconsistent_volume: () => ({ type: 'compressor', params: { thresholdDb: -24, ratio: 3 } })
+}
+
+const VIDEO_FIXES: Partial<Record<FindingKind, (analysis?: ProjectAnalysis) => EffectFix>> = {
+  underexposed: (analysis) => ({
+    type: 'exposure',
+    params: { brightness: Number(clamp(0.45 - (analysis?.color?.brightness ?? 0.3), 0.05, 0.25).toFixed(2)) }
+  }),
+  overexposed: () => ({ type: 'exposure', params: { brightness: -0.06 } }),
+  low_contrast: (analysis) => ({
+    type: 'contrast',
+    params: { amount: Number(clamp(0.2 / Math.max(analysis?.color?.contrast ?? 0.1, 0.05), 1.1, 1.6).toFixed(2)) }
+  }),
+  color_cast: (analysis) => ({
+    type: 'white_balance',
+    params: { warmth: Number(clamp(-(analysis?.color?.warmth ?? 0), -0.3, 0.3).toFixed(2)) }
+  }),
+  low_saturation: () => ({ type: 'saturation', params: { amount: 1.3 } }),
+  camera_shake: () => ({ type: 'stabilize', params: {} })
+}
+
+const withEdl = (document: ProjectDocument, edl: EditDecisionList): ProjectDocument => ({ ...document, edl })
+
+const getSceneCuts = (context: SuggestionContext) => (context.scenes ?? []).slice(1).map(scene => scene.start)
+
+const autoCut: SuggestionAction = {
+  id: 'auto_cut',
+  label: 'Auto-cut',
+  canFix: () => false,
+  plan: (document, _suggestion, context) => {
+    if (!document.edl) return null
+
+    const cuts = getSceneCuts(context)
+    const edl = splitAtSourceTimes(document.edl, context.sourceId, cuts)
+    const added = edl.clips.length - document.edl.clips.length
+    if (added === 0) return null
+
+    return {
+      document: withEdl(document, edl),
+      changes: [`Split the timeline at ${cuts.length} scene ${cuts.length === 1 ? 'boundary' : 'boundaries'} (${added} new ${added === 1 ? 'clip' : 'clips'})`]
+    }
+  },
+  revert: (document, _suggestion, context) => {
+    if (!document.edl) return document
+    return withEdl(document, healThroughEdits(document.edl, context.sourceId, getSceneCuts(context)))
+  }
+}
+
+// Adds the effect for the suggestion's finding to every clip showing the affected media,
+// splitting first when the finding only covers part of it
+const createEffectAction = (
+  id: SuggestionActionId,
+  label: string,
+  fixes: Partial<Record<FindingKind, (analysis?: ProjectAnalysis) => EffectFix>>
+): SuggestionAction => ({
+  id,
+  label,
+  canFix: (kind) => fixes[kind] !== undefined,
+  plan: (document, suggestion, context) => {
+    const fix = suggestion.kind ? fixes[suggestion.kind]?.(context.analysis) : undefined
+    const track = document.edl ? getPrimaryVideoTrack(document.edl) : undefined
+    if (!document.edl || !fix || !track) return null
+
+    const { range } = suggestion
+    let edl = range ? splitAtSourceTimes(document.edl, context.sourceId, [range.start, range.end]) : document.edl
+    const splits = edl.clips.length - document.edl.clips.length
+    const targets = getTrackClips(edl, track.id).filter(clip =>
+      clip.sourceId === context.sourceId &&
+      !clip.effects.some(effect => effect.suggestionId === suggestion.id) &&
+      (!range || (clip.sourceIn < range.end && clip.sourceOut > range.start))
+    )
+    if (targets.length === 0) return null
+
+    edl = targets.reduce((current, clip) => addEffect(current, clip.id, { ...fix, suggestionId: suggestion.id }), edl)
+
+    const changes = [`Add ${EFFECT_LABELS[fix.type as EffectType].toLowerCase()} to ${targets.length} ${targets.length === 1 ? 'clip' : 'clips'}`]
+    if (range && splits > 0) {
+      changes.unshift(`Split at ${formatTimestamp(range.start)} and ${formatTimestamp(range.end)} to isolate the affected part`)
+    }
+    return { document: withEdl(document, edl), changes }
+  },
+  revert: (document, suggestion, context) => {
+    if (!document.edl) return document
+
+    const edl: EditDecisionList = {
+      ...document.edl,
+      clips: document.edl.clips.map(clip => clip.effects.some(effect => effect.suggestionId === suggestion.id)
+        ? { ...clip, effects: clip.effects.filter(effect => effect.suggestionId !== suggestion.id) }
+        : clip)
+    }
+    const { range } = suggestion
+    return withEdl(document, range ? healThroughEdits(edl, context.sourceId, [range.start, range.end]) : edl)
+  }
+})
+
+export const SUGGESTION_ACTIONS: Record<SuggestionActionId, SuggestionAction> = {
+  auto_cut: autoCut,
+  fix_audio: createEffectAction('fix_audio', 'Fix audio', AUDIO_FIXES),
+  enhance_quality: createEffectAction('enhance_quality', 'Enhance', VIDEO_FIXES)
+}
+
+export function getSuggestionAction(id: string): SuggestionAction | undefined {
+  return SUGGESTION_ACTIONS[id as SuggestionActionId]
+}
+
+export function getSuggestionStatus(document: ProjectDocument, suggestionId: string): SuggestionStatus | undefined {
+  return document.suggestionStates[suggestionId]
+}
+
+const setStatus = (document: ProjectDocument, suggestionId: string, status?: SuggestionStatus): ProjectDocument => {
+  const { [suggestionId]: _, ...rest } = document.suggestionStates
+  return { ...document, suggestionStates: status ? { ...rest, [suggestionId]: status } : rest }
+}
+
+// The plan with the suggestion marked applied, ready to commit as one undoable step
+export function planSuggestion(
+  document: ProjectDocument,
+  suggestion: AISuggestion,
+  context: SuggestionContext
+): SuggestionPlan | null {
+  const plan = getSuggestionAction(suggestion.action)?.plan(document, suggestion, context)
+  return plan ? { ...plan, document: setStatus(plan.document, suggestion.id, 'applied') } : null
+}
+
+// Marks the suggestion applied even when the edit already had nothing left to change
+export function applySuggestion(document: ProjectDocument, suggestion: AISuggestion, context: SuggestionContext) {
+  return planSuggestion(document, suggestion, context)?.document ?? setStatus(document, suggestion.id, 'applied')
+}
+
+export function revertSuggestion(document: ProjectDocument, suggestion: AISuggestion, context: SuggestionContext) {
+  const action = getSuggestionAction(suggestion.action)
+  return setStatus(action ? action.revert(document, suggestion, context) : document, suggestion.id, 'reverted')
+}
+
+export function dismissSuggestion(document: ProjectDocument, suggestionId: string) {
+  return setStatus(document, suggestionId, 'dismissed')
+}
+
+export function restoreSuggestion(document: ProjectDocument, suggestionId: string) {
+  return setStatus(document, suggestionId)
+}
@@ -0,0 +1,39 @@
+import type { AISuggestion } from './suggestions'
+
+export interface FeedbackStats {
+  accepted: number
+  rejected: number
+}
+
+// Keyed by suggestion type
+export type SuggestionFeedback = Record<string, FeedbackStats>
+
+export const BASE_CONFIDENCE_THRESHOLD = 0.5
+// Decisions it takes before a type's history counts fully
+const FULL_WEIGHT_DECISIONS = 10
+
+export function recordFeedback(feedback: SuggestionFeedback, type: string, accepted: boolean): SuggestionFeedback {
+  const stats = feedback[type] ?? { accepted: 0, rejected: 0 }
+  return {
+    ...feedback,
+    [type]: accepted
+      ? { ...stats, accepted: stats.accepted + 1 }
+      : { ...stats, rejected: stats.rejected + 1 }
+  }
+}
+
+// Types that keep getting rejected need more confidence to show up; accepted ones show more readily
+export function getConfidenceThreshold(feedback: SuggestionFeedback, type: string) {
+  const stats = feedback[type]
+  if (!stats) return BASE_CONFIDENCE_THRESHOLD
+
+  const decisions = stats.accepted + stats.rejected
+  // Smoothed so a single decision can't swing the threshold to either end
+  const acceptance = (stats.accepted + 1) / (decisions + 2)
+  const weight = Math.min(1, decisions / FULL_WEIGHT_DECISIONS)
+  return Math.max(0.3, Math.min(0.95, BASE_CONFIDENCE_THRESHOLD + (0.5 - acceptance) * weight))
+}
+
+export function filterSuggestions(suggestions: AISuggestion[], feedback: SuggestionFeedback) {
+  return suggestions.filter(suggestion => suggestion.confidence >= getConfidenceThreshold(feedback, suggestion.type))
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import type { AnalysisFinding, ProjectAnalysis } from './analysis-provider'
+import { DEFAULT_AI_SETTINGS } from './project-document'
+import { buildSuggestions } from './suggestions'
+
+const finding = (kind: AnalysisFinding['kind'], severity: AnalysisFinding['severity'] = 'warning'): AnalysisFinding => ({
+  kind,
+  message: kind,
+  severity,
+  confidence: 0.8
+})
+
+const analysis: ProjectAnalysis = {
+  providerId: 'offline',
+  audio: {
+    hasAudio: true,
+    loudnessDb: -30,
+    peakDb: -10,
+    noiseFloorDb: -50,
+    loudnessRangeDb: 8,
+    clippingRatio: 0,
+    silenceRatio: 0.1,
+    confidence: 0.9,
+    findings: [finding('no_audio'), finding('quiet_audio'), finding('background_noise', 'info')]
+  },
+  motion: {
+    averageMotion: 0.4,
+    stability: 0.5,
+    sampleCount: 20,
+    confidence: 0.8,
+    findings: [finding('fast_motion'), finding('camera_shake', 'problem')]
+  },
+  analyzedAt: '2026-01-01T00:00:00.000Z'
+}
+
+describe('buildSuggestions', () => {
+  it('only suggests findings that have a fix', () => {
+    const suggestions = buildSuggestions(undefined, analysis, DEFAULT_AI_SETTINGS)
+
+    expect(suggestions.map(suggestion => suggestion.id).sort()).toEqual(['enhance_quality:camera_shake', 'fix_audio:quiet_audio'])
+  })
+})
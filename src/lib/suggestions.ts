@@ -0,0 +1,85 @@
+import type { AnalysisFinding, FindingKind, ProjectAnalysis } from './analysis-provider'
+import type { AISettings } from './project-document'
+import { SUGGESTION_ACTIONS } from './suggestion-actions'
+import type { TimelineSegment, TimeRange } from './timeline'
+
+export type SuggestionActionId = 'auto_cut' | 'fix_audio' | 'enhance_quality'
+export type SuggestionStatus = 'applied' | 'dismissed' | 'reverted'
+
+export interface AISuggestion {
+  id: string
+  type: string
+  title: string
+  description: string
+  confidence: number
+  action: SuggestionActionId
+  kind?: FindingKind // the finding behind it, which decides the fix
+  range?: TimeRange // source seconds the fix is limited to
+}
+
+const FINDING_TITLES: Record<FindingKind, string> = {
+  no_audio: 'Missing Audio',
+  clipping: 'Audio Clipping',
+  background_noise: 'Noise Reduction',
+  quiet_audio: 'Audio Normalization',
+  loud_audio: 'Audio Normalization',
+  inconsistent_volume: 'Volume Leveling',
+  underexposed: 'Exposure Correction',
+  overexposed: 'Highlight Recovery',
+  low_contrast: 'Contrast Boost',
+  color_cast: 'White Balance',
+  low_saturation: 'Saturation Boost',
+  camera_shake: 'Stabilization',
+  fast_motion: 'Motion Detail'
+}
+
+// Informational findings, and ones the action has no fix for, show up in the insights but not as suggestions
+const toSuggestions = (findings: AnalysisFinding[] | undefined, type: string, action: SuggestionActionId): AISuggestion[] => {
+  const seen = new Map<FindingKind, number>()
+  return (findings ?? [])
+    .filter(finding => finding.severity !== 'info' && SUGGESTION_ACTIONS[action].canFix(finding.kind))
+    .map(finding => {
+      const count = (seen.get(finding.kind) ?? 0) + 1
+      seen.set(finding.kind, count)
+      return { finding, count }
+    })
+    .map(({ finding, count }) => ({
+      // Stable across re-analysis, so a dismissed suggestion stays dismissed
+      id: count === 1 ? `${action}:${finding.kind}` : `${action}:${finding.kind}:${count}`,
+      type,
+      title: FINDING_TITLES[finding.kind],
+      description: `${finding.message}.`,
+      confidence: finding.confidence,
+      action,
+      kind: finding.kind,
+      ...(finding.range ? { range: finding.range } : {})
+    }))
+}
+
+export function buildSuggestions(
+  scenes: TimelineSegment[] | undefined,
+  analysis: ProjectAnalysis,
+  settings: AISettings
+): AISuggestion[] {
+  const suggestions: AISuggestion[] = []
+
+  if (settings.sceneDetection && scenes && scenes.length > 1) {
+    const averageConfidence = scenes.reduce((sum, scene) => sum + scene.confidence, 0) / scenes.length
+    suggestions.push({
+      id: 'auto_cut:scenes',
+      type: 'scene_detection',
+      title: 'Scene Detection',
+      description: `Found ${scenes.length} distinct scenes. Auto-cut recommended.`,
+      confidence: averageConfidence,
+      action: 'auto_cut'
+    })
+  }
+
+  const fixes = [
+    ...(settings.audioEnhancement ? toSuggestions(analysis.audio?.findings, 'audio_sync', 'fix_audio') : []),
+    ...(settings.colorCorrection ? toSuggestions(analysis.color?.findings, 'quality_enhancement', 'enhance_quality') : []),
+    ...toSuggestions(analysis.motion?.findings, 'quality_enhancement', 'enhance_quality')
+  ]
+
+  return [...suggestions, ...fixes.sort((a, b) => b.confidence - a.confidence)]
+}
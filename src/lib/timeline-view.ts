@@ -0,0 +1,102 @@
+// The stretch of the timeline on screen, and the ruler and snapping that depend on it.
+// Lanes draw against the view rather than a scrolled element, so nothing off screen is rendered.
+
+export interface TimelineView {
+  start: number // seconds at the left edge
+  duration: number // seconds across the lane
+}
+
+export interface RulerTick {
+  time: number
+  major: boolean // labelled
+}
+
+// At full zoom a single frame is this many pixels wide
+const MAX_FRAME_PIXELS = 24
+// Labels need room for "1:23:45" plus some air
+const MIN_LABEL_PIXELS = 80
+const MIN_TICK_PIXELS = 8
+
+// Label spacings the ruler steps through, in seconds
+const SECOND_STEPS = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600]
+// Below a second the ruler counts frames
+const FRAME_STEPS = [1, 2, 5, 10, 15]
+
+export function getMinViewDuration(width: number, frameRate: number) {
+  return width > 0 ? width / (frameRate * MAX_FRAME_PIXELS) : 0
+}
+
+// Keeps the view inside the timeline and no narrower than frame level
+export function clampView(view: TimelineView, total: number, minDuration: number): TimelineView {
+  const duration = Math.min(total, Math.max(minDuration, view.duration))
+  const start = Math.max(0, Math.min(total - duration, view.start))
+  return { start, duration }
+}
+
+// Zooms by `factor` (above 1 zooms in) while keeping `anchor` at the same spot on screen
+export function zoomView(view: TimelineView, factor: number, anchor: number): TimelineView {
+  const duration = view.duration / factor
+  const ratio = view.duration > 0 ? (anchor - view.start) / view.duration : 0
+  return { start: anchor - ratio * duration, duration }
+}
+
+export function scrollView(view: TimelineView, seconds: number): TimelineView {
+  return { ...view, start: view.start + seconds }
+}
+
+// Pages the view along when the playhead runs off its right edge, or jumps to it when it is elsewhere
+export function followTime(view: TimelineView, time: number): TimelineView {
+  if (time >= view.start && time <= view.start + view.duration) return view
+  return { ...view, start: time >= view.start + view.duration ? time - view.duration * 0.1 : time - view.duration / 2 }
+}
+
+const getRulerSteps = (frameRate: number) => [
+  ...FRAME_STEPS.filter(frames => frames < frameRate).map(frames => frames / frameRate),
+  ...SECOND_STEPS
+]
+
+// Picks tick spacing for the zoom and lists only the ticks inside the view
+export function getRulerTicks(view: TimelineView, width: number, frameRate: number): { ticks: RulerTick[], step: number } {
+  if (width <= 0 || view.duration <= 0) return { ticks: [], step: 1 }
+
+  const pixelsPerSecond = width / view.duration
+  const steps = getRulerSteps(frameRate)
+  const step = steps.find(s => s * pixelsPerSecond >= MIN_LABEL_PIXELS) ?? steps[steps.length - 1]
+  // Minor ticks subdivide the labelled step as finely as still reads, landing on whole frames
+  const stepFrames = Math.round(step * frameRate)
+  const divisions = [10, 5, 4, 2].find(d =>
+    (step / d) * pixelsPerSecond >= MIN_TICK_PIXELS && (step >= 1 || stepFrames % d === 0)
+  ) ?? 1
+  const minor = step / divisions
+
+  const ticks: RulerTick[] = []
+  const first = Math.floor(view.start / minor)
+  const last = Math.ceil((view.start + view.duration) / minor)
+  for (let i = first; i <= last; i++) {
+    ticks.push({ time: i * minor, major: i % divisions === 0 })
+  }
+  return { ticks, step }
+}
+
+// Whole seconds read as m:ss (or h:mm:ss); finer steps add the frame number
+export function formatRulerTime(time: number, step: number, frameRate: number) {
+  const whole = Math.floor(time + 1e-6)
+  const hours = Math.floor(whole / 3600)
+  const mins = Math.floor((whole % 3600) / 60)
+  const secs = (whole % 60).toString().padStart(2, '0')
+  const clock = hours > 0 ? `${hours}:${mins.toString().padStart(2, '0')}:${secs}` : `${mins}:${secs}`
+  if (step >= 1) return clock
+
+  const frame = Math.round((time - whole) * frameRate)
+  return `${clock}:${frame.toString().padStart(2, '0')}`
+}
+
+// The nearest point within `tolerance` seconds of `time`, if any
+export function findSnap(time: number, points: number[], tolerance: number) {
+  let best: number | null = null
+  for (const point of points) {
+    const distance = Math.abs(point - time)
+    if (distance <= tolerance && (best === null || distance < Math.abs(best - time))) best = point
+  }
+  return best
+}
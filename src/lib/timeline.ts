@@ -0,0 +1,38 @@
+export interface TimelineSegment {
+  id: string
+  start: number
+  end: number
+  type: 'scene' | 'transition' | 'audio' | 'effect'
+  confidence: number
+  label: string
+  color: string
+}
+
+export interface TimeRange {
+  start: number
+  end: number
+}
+
+export function mergeRanges(ranges: TimeRange[]): TimeRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start)
+  const merged: TimeRange[] = []
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end)
+    } else {
+      merged.push({ ...range })
+    }
+  }
+
+  return merged
+}
+
+export function getRangesDuration(ranges: TimeRange[]) {
+  return mergeRanges(ranges).reduce((total, range) => total + (range.end - range.start), 0)
+}
+
+export function findRangeAt(ranges: TimeRange[], time: number) {
+  return ranges.find(range => time >= range.start && time < range.end)
+}
@@ -0,0 +1,78 @@
+import { mapSourceRange, removeSourceRanges, type EditDecisionList } from './edl'
+import type { TimeRange } from './timeline'
+import type { TranscriptWord } from './transcript'
+
+// Inclusive indices into a transcript's flat word list
+export interface WordSelection {
+  start: number
+  end: number
+}
+
+const FILLER_WORDS = new Set(['um', 'umm', 'uh', 'uhm', 'uhh', 'er', 'erm', 'ah', 'hmm', 'mm'])
+// Words that are only filler when set off from the sentence, as in "it was, like, fine"
+const HEDGE_WORDS = new Set(['like'])
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z']/g, '')
+
+export function isFillerWord(words: TranscriptWord[], index: number) {
+  const word = normalize(words[index]?.text ?? '')
+  if (FILLER_WORDS.has(word)) return true
+  if (!HEDGE_WORDS.has(word)) return false
+
+  const previous = words[index - 1]?.text ?? ''
+  return /,$/.test(words[index].text) || /,$/.test(previous)
+}
+
+export function findFillerWords(words: TranscriptWord[]) {
+  return words.flatMap((_, index) => isFillerWord(words, index) ? [index] : [])
+}
+
+// Where each word currently sits on the timeline, or null once it has been cut
+export function getWordPlacements(edl: EditDecisionList, sourceId: string, words: TranscriptWord[]): (TimeRange | null)[] {
+  return words.map(word => mapSourceRange(edl, sourceId, word)[0] ?? null)
+}
+
+// Runs of neighbouring words become one range, so the pauses between them go too
+export function getWordRanges(words: TranscriptWord[], indices: number[]): TimeRange[] {
+  const ranges: TimeRange[] = []
+  let previousIndex = -2
+
+  for (const index of [...new Set(indices)].sort((a, b) => a - b)) {
+    const word = words[index]
+    if (!word) continue
+
+    const last = ranges[ranges.length - 1]
+    if (last && index === previousIndex + 1) {
+      last.end = Math.max(last.end, word.end)
+    } else {
+      ranges.push({ start: word.start, end: word.end })
+    }
+    previousIndex = index
+  }
+
+  return ranges
+}
+
+export function removeWords(edl: EditDecisionList, sourceId: string, words: TranscriptWord[], indices: number[]) {
+  return removeSourceRanges(edl, sourceId, getWordRanges(words, indices))
+}
+
+export function getSelectedIndices(selection: WordSelection) {
+  const start = Math.min(selection.start, selection.end)
+  const end = Math.max(selection.start, selection.end)
+  return Array.from({ length: end - start + 1 }, (_, i) => start + i)
+}
+
+// The words that play inside a stretch of the timeline
+export function selectWordsInRange(placements: (TimeRange | null)[], range: TimeRange): WordSelection | null {
+  let start = -1
+  let end = -1
+
+  placements.forEach((placement, index) => {
+    if (!placement || placement.end <= range.start || placement.start >= range.end) return
+    if (start === -1) start = index
+    end = index
+  })
+
+  return start === -1 ? null : { start, end }
+}
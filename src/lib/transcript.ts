@@ -0,0 +1,105 @@
+import type { TranscriptionProviderId } from './transcription'
+
+export interface TranscriptWord {
+  text: string
+  start: number // source seconds
+  end: number
+  speaker?: string
+  confidence?: number // 0..1, when the provider reports one
+}
+
+export interface TranscriptSegment {
+  start: number
+  end: number
+  text: string
+  speaker?: string
+  words: TranscriptWord[]
+}
+
+// What the transcribe stage stores on a project
+export interface Transcript {
+  providerId: TranscriptionProviderId
+  language?: string
+  text: string
+  segments: TranscriptSegment[]
+  speakers: string[] // empty when the provider can't tell voices apart
+  transcribedAt: string
+}
+
+// Longest pause a segment bridges before the next word starts a new one
+const SEGMENT_GAP = 1.2
+const MAX_SEGMENT_WORDS = 40
+
+export function getTranscriptWords(transcript: Transcript): TranscriptWord[] {
+  return transcript.segments.flatMap(segment => segment.words)
+}
+
+export function getSpeakers(segments: TranscriptSegment[]) {
+  return [...new Set(segments.flatMap(segment => segment.speaker ? [segment.speaker] : []))]
+}
+
+const joinWords = (words: TranscriptWord[]) => words.map(word => word.text).join(' ').replace(/\s+([,.!?;:])/g, '$1')
+
+export function createSegment(words: TranscriptWord[], speaker = words[0]?.speaker): TranscriptSegment {
+  return {
+    start: words[0]?.start ?? 0,
+    end: words[words.length - 1]?.end ?? 0,
+    text: joinWords(words),
+    speaker,
+    words: speaker ? words.map(word => ({ ...word, speaker: word.speaker ?? speaker })) : words
+  }
+}
+
+// Groups a flat word list into segments at pauses, speaker changes and sentence ends
+export function groupWords(words: TranscriptWord[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = []
+  let current: TranscriptWord[] = []
+
+  for (const word of [...words].sort((a, b) => a.start - b.start)) {
+    const previous = current[current.length - 1]
+    const breaks = previous && (
+      word.start - previous.end > SEGMENT_GAP ||
+      word.speaker !== previous.speaker ||
+      current.length >= MAX_SEGMENT_WORDS ||
+      /[.!?]$/.test(previous.text)
+    )
+    if (breaks) {
+      segments.push(createSegment(current))
+      current = []
+    }
+    current.push(word)
+  }
+  if (current.length > 0) segments.push(createSegment(current))
+
+  return segments
+}
+
+// Spreads a line over its time span by length, for sources that only time whole lines
+export function estimateWordTimes(text: string, start: number, end: number, speaker?: string): TranscriptWord[] {
+  const tokens = text.split(/\s+/).filter(Boolean)
+  const totalLength = tokens.reduce((total, token) => total + token.length + 1, 0)
+  const duration = Math.max(0, end - start)
+
+  let cursor = start
+  return tokens.map(token => {
+    const wordDuration = duration * (token.length + 1) / totalLength
+    const word = { text: token, start: cursor, end: Math.min(end, cursor + wordDuration), speaker }
+    cursor += wordDuration
+    return word
+  })
+}
+
+export function createTranscript(
+  providerId: TranscriptionProviderId,
+  segments: TranscriptSegment[],
+  language?: string
+): Transcript {
+  return {
+    providerId,
+    language,
+    text: segments.map(segment => segment.text).join(' '),
+    segments,
+    speakers: getSpeakers(segments),
+    transcribedAt: new Date().toISOString()
+  }
+}
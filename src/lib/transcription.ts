@@ -0,0 +1,36 @@
+import type { Transcript } from './transcript'
+import { blinkTranscriptionProvider } from './blink-transcription'
+import { sidecarTranscriptionProvider } from './sidecar-transcription'
+
+export type TranscriptionProviderId = 'blink' | 'sidecar'
+
+// A transcript file uploaded next to the video
+export interface TranscriptSidecar {
+  name: string
+  url: string
+}
+
+export interface TranscriptionRequest {
+  mediaUrl: string
+  duration: number
+  sidecar?: TranscriptSidecar
+  signal?: AbortSignal
+  onProgress?: (progress: number) => void
+}
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId
+  name: string
+  transcribe(request: TranscriptionRequest): Promise<Transcript>
+}
+
+export const TRANSCRIPTION_PROVIDERS: Record<TranscriptionProviderId, TranscriptionProvider> = {
+  blink: blinkTranscriptionProvider,
+  sidecar: sidecarTranscriptionProvider
+}
+
+export const DEFAULT_TRANSCRIPTION_PROVIDER: TranscriptionProviderId = 'blink'
+
+export function getTranscriptionProvider(id?: TranscriptionProviderId): TranscriptionProvider {
+  return (id && TRANSCRIPTION_PROVIDERS[id]) || TRANSCRIPTION_PROVIDERS[DEFAULT_TRANSCRIPTION_PROVIDER]
+}
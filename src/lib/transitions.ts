@@ -0,0 +1,149 @@
+import {
+  getClipDuration,
+  getClipEnd,
+  getPrimaryVideoTrack,
+  getTrackClips,
+  type Clip,
+  type EditDecisionList,
+  type Transition
+} from './edl'
+
+// Transitions sit centred on a cut between two clips that touch on the primary video track. The outgoing
+// clip runs on past its out point and the incoming one starts before its in point, so the edit keeps its
+// length; where the source has no more frames the end frame is held.
+
+export type TransitionType = 'crossfade' | 'dip' | 'wipe' | 'slide' | 'zoom'
+export type TransitionEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out'
+export type TransitionDirection = 'left' | 'right' | 'up' | 'down'
+
+export interface TransitionSettings {
+  type: TransitionType
+  easing: TransitionEasing
+  direction: TransitionDirection // which way a wipe or slide travels
+  color: string // what a dip passes through, as #rrggbb
+}
+
+export interface TransitionDefinition {
+  type: TransitionType
+  label: string
+  description: string
+  duration: number // default length, seconds
+  easing: TransitionEasing
+}
+
+// A cut between two touching clips, with the transition on it if there is one
+export interface Cut {
+  time: number
+  from: Clip
+  to: Clip
+  transition?: Transition
+}
+
+export const TRANSITIONS: TransitionDefinition[] = [
+  { type: 'crossfade', label: 'Crossfade', description: 'Blends one shot into the next', duration: 1, easing: 'linear' },
+  { type: 'dip', label: 'Dip to Color', description: 'Fades out to a color, then in from it', duration: 1, easing: 'ease-in-out' },
+  { type: 'wipe', label: 'Wipe', description: 'An edge sweeps the next shot in', duration: 0.8, easing: 'ease-in-out' },
+  { type: 'slide', label: 'Slide', description: 'The next shot pushes the last one off screen', duration: 0.6, easing: 'ease-in-out' },
+  { type: 'zoom', label: 'Zoom', description: 'Zooms into the last shot while the next fades in', duration: 0.5, easing: 'ease-in' }
+]
+
+export const TRANSITION_EASINGS: { easing: TransitionEasing, label: string }[] = [
+  { easing: 'linear', label: 'Linear' },
+  { easing: 'ease-in', label: 'Ease in' },
+  { easing: 'ease-out', label: 'Ease out' },
+  { easing: 'ease-in-out', label: 'Ease in-out' }
+]
+
+export const TRANSITION_DIRECTIONS: TransitionDirection[] = ['left', 'right', 'up', 'down']
+
+export const DIP_COLORS = ['#000000', '#FFFFFF']
+
+// Shorter than this and a transition reads as a glitch rather than an effect
+export const MIN_TRANSITION_DURATION = 0.1
+
+const EPSILON = 1e-6
+
+export function getTransitionDefinition(type: string) {
+  return TRANSITIONS.find(definition => definition.type === type) ?? TRANSITIONS[0]
+}
+
+// Reads the settings out of a stored transition, falling back to the defaults for anything missing or unknown
+export function getTransitionSettings(transition: Pick<Transition, 'type' | 'params'>): TransitionSettings {
+  const definition = getTransitionDefinition(transition.type)
+  const { easing, direction, color } = transition.params ?? {}
+
+  return {
+    type: definition.type,
+    easing: TRANSITION_EASINGS.some(e => e.easing === easing) ? easing as TransitionEasing : definition.easing,
+    direction: TRANSITION_DIRECTIONS.includes(direction as TransitionDirection) ? direction as TransitionDirection : 'left',
+    color: typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color) ? color : DIP_COLORS[0]
+  }
+}
+
+export function getTransitionParams({ easing, direction, color }: TransitionSettings): Transition['params'] {
+  return { easing, direction, color }
+}
+
+// Maps linear progress (0 to 1) through the easing curve
+export function ease(easing: TransitionEasing, progress: number) {
+  const t = Math.max(0, Math.min(1, progress))
+  switch (easing) {
+    case 'ease-in':
+      return t * t
+    case 'ease-out':
+      return 1 - (1 - t) * (1 - t)
+    case 'ease-in-out':
+      return t * t * (3 - 2 * t)
+    default:
+      return t
+  }
+}
+
+// Half the transition falls in each clip, so capping it at the shorter clip keeps the transitions at
+// either end of a clip from overlapping
+export function getMaxTransitionDuration(from: Clip, to: Clip) {
+  return Math.min(getClipDuration(from), getClipDuration(to))
+}
+
+export function getCuts(edl: EditDecisionList): Cut[] {
+  const track = getPrimaryVideoTrack(edl)
+  const clips = track ? getTrackClips(edl, track.id) : []
+  const cuts: Cut[] = []
+
+  for (let i = 1; i < clips.length; i++) {
+    const from = clips[i - 1]
+    const to = clips[i]
+    if (Math.abs(getClipEnd(from) - to.start) > EPSILON) continue
+
+    const transition = edl.transitions.find(t => t.fromClipId === from.id && t.toClipId === to.id)
+    cuts.push({ time: to.start, from, to, transition })
+  }
+  return cuts
+}
+
+// Trims made after a transition was placed can leave it longer than its clips now allow
+export function getTransitionDuration(cut: Cut) {
+  return Math.min(cut.transition?.duration ?? 0, getMaxTransitionDuration(cut.from, cut.to))
+}
+
+export function getTransitionRange(cut: Cut) {
+  const half = getTransitionDuration(cut) / 2
+  return { start: cut.time - half, end: cut.time + half }
+}
+
+// The transition playing at a timeline time, with how far through it is (0 to 1, before easing)
+export function getTransitionAt(edl: EditDecisionList, time: number) {
+  for (const cut of getCuts(edl)) {
+    if (!cut.transition) continue
+
+    const { start, end } = getTransitionRange(cut)
+    if (end > start && time >= start && time < end) {
+      return {
+        cut: cut as Cut & { transition: Transition },
+        settings: getTransitionSettings(cut.transition),
+        progress: (time - start) / (end - start)
+      }
+    }
+  }
+  return null
+}
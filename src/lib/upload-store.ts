@@ -0,0 +1,127 @@
+import { blink } from '../blink/client'
+import { getPartBlob, getPartPath, type UploadedPart, type UploadSession, type UploadStatus } from './uploads'
+
+// Parts are stored as a JSON text column
+interface UploadRecord {
+  id: string
+  userId: string
+  projectId: string
+  sourceId: string | null
+  fileName: string
+  fileType: string
+  fileSize: number
+  lastModified: number
+  chunkSize: number
+  basePath: string
+  parts: string
+  status: UploadStatus
+  attempts: number
+  error: string | null
+  createdAt: number
+  finishedAt: number | null
+  updatedAt: string
+}
+
+const uploadsTable = () => blink.db.table<UploadRecord>('uploads')
+
+const toUploadRecord = (userId: string, session: UploadSession): UploadRecord => ({
+  id: session.id,
+  userId,
+  projectId: session.projectId,
+  sourceId: session.sourceId ?? null,
+  fileName: session.fileName,
+  fileType: session.fileType,
+  fileSize: session.fileSize,
+  lastModified: session.lastModified,
+  chunkSize: session.chunkSize,
+  basePath: session.basePath,
+  parts: JSON.stringify(session.parts),
+  status: session.status,
+  attempts: session.attempts,
+  error: session.error ?? null,
+  createdAt: session.createdAt,
+  finishedAt: session.finishedAt ?? null,
+  updatedAt: new Date().toISOString()
+})
+
+const fromUploadRecord = (record: UploadRecord): UploadSession => ({
+  id: record.id,
+  projectId: record.projectId,
+  sourceId: record.sourceId ?? undefined,
+  fileName: record.fileName,
+  fileType: record.fileType,
+  fileSize: Number(record.fileSize),
+  lastModified: Number(record.lastModified),
+  chunkSize: Number(record.chunkSize),
+  basePath: record.basePath,
+  parts: JSON.parse(record.parts) as (UploadedPart | null)[],
+  status: record.status,
+  attempts: Number(record.attempts),
+  partProgress: 0,
+  error: record.error ?? undefined,
+  createdAt: Number(record.createdAt),
+  finishedAt: record.finishedAt ? Number(record.finishedAt) : undefined
+})
+
+export async function loadUploads(userId: string) {
+  const records = await uploadsTable().list({
+    where: { userId },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  return records.flatMap(record => {
+    try {
+      return [fromUploadRecord(record)]
+    } catch (error) {
+      console.error('Discarding unreadable upload:', error)
+      return []
+    }
+  })
+}
+
+export async function saveUpload(userId: string, session: UploadSession) {
+  await uploadsTable().upsert(toUploadRecord(userId, session))
+}
+
+// Storage may change the extension, so the path it kept is read back from the URL it returns
+const getStoredPath = (path: string, publicUrl: string) => {
+  const name = decodeURIComponent(new URL(publicUrl).pathname.split('/').pop() ?? '')
+  return name ? `${path.slice(0, path.lastIndexOf('/') + 1)}${name}` : path
+}
+
+export async function uploadPart(
+  session: UploadSession,
+  file: File,
+  index: number,
+  { signal, onProgress }: { signal?: AbortSignal, onProgress?: (progress: number) => void } = {}
+): Promise<UploadedPart> {
+  if (signal?.aborted) throw new DOMException('Upload stopped', 'AbortError')
+
+  const path = getPartPath(session, index, Math.random().toString(36).slice(2, 10))
+  const upload = blink.storage.upload(getPartBlob(session, file, index), path, {
+    upsert: true,
+    onProgress: (percent) => {
+      if (!signal?.aborted) onProgress?.(percent / 100)
+    }
+  }).then(({ publicUrl }) => ({ path: getStoredPath(path, publicUrl), url: publicUrl }))
+
+  // The SDK can't abort its request, so stopping stops waiting for it and deletes the part if it still lands
+  return new Promise((resolve, reject) => {
+    const stop = () => {
+      reject(new DOMException('Upload stopped', 'AbortError'))
+      upload.then(
+        part => blink.storage.remove(part.path).catch(error => console.error('Failed to remove a stopped upload part:', error)),
+        () => undefined
+      )
+    }
+    signal?.addEventListener('abort', stop, { once: true })
+    upload
+      .then(resolve, reject)
+      .finally(() => signal?.removeEventListener('abort', stop))
+  })
+}
+
+export async function removeUploadedParts(session: UploadSession) {
+  const paths = session.parts.flatMap(part => part ? [part.path] : [])
+  if (paths.length > 0) await blink.storage.remove(...paths)
+}
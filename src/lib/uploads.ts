@@ -0,0 +1,179 @@
+export type UploadStatus = 'queued' | 'uploading' | 'paused' | 'failed' | 'cancelled' | 'completed'
+
+export interface UploadedPart {
+  path: string
+  url: string
+}
+
+// The resume token: which parts of which file are already in storage
+export interface UploadSession {
+  id: string
+  projectId: string
+  sourceId?: string // set when the file joins the project's edit as a clip instead of being its own project
+  fileName: string
+  fileType: string
+  fileSize: number
+  lastModified: number
+  chunkSize: number
+  basePath: string
+  parts: (UploadedPart | null)[]
+  status: UploadStatus
+  attempts: number // failures since the last part that went through
+  partProgress: number // 0..1 of the part being sent
+  retryAt?: number
+  error?: string
+  createdAt: number
+  finishedAt?: number
+}
+
+export const CHUNK_SIZE = 8 * 1024 * 1024
+// The largest file storage takes in one upload
+export const MAX_STORED_FILE_SIZE = 50 * 1024 * 1024
+export const MAX_UPLOAD_ATTEMPTS = 5
+export const MAX_CONCURRENT_UPLOADS = 2
+const BASE_RETRY_DELAY = 1000
+const MAX_RETRY_DELAY = 30_000
+const JOINED_MEDIA_CACHE = 'joined-uploads'
+
+// Files storage can hold whole go up as a single part, so they end up as one playable file
+const getChunkSize = (fileSize: number) => fileSize <= MAX_STORED_FILE_SIZE ? Math.max(1, fileSize) : CHUNK_SIZE
+
+export function createUploadSession(
+  projectId: string,
+  file: File,
+  basePath: string,
+  { sourceId, chunkSize = getChunkSize(file.size) }: { sourceId?: string, chunkSize?: number } = {}
+): UploadSession {
+  return {
+    id: `upload-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    projectId,
+    sourceId,
+    fileName: file.name,
+    fileType: file.type,
+    fileSize: file.size,
+    lastModified: file.lastModified,
+    chunkSize,
+    basePath,
+    parts: Array.from({ length: Math.max(1, Math.ceil(file.size / chunkSize)) }, () => null),
+    status: 'queued',
+    attempts: 0,
+    partProgress: 0,
+    createdAt: Date.now()
+  }
+}
+
+// A picked file can only continue an upload if it is the same file that started it
+export function matchesUpload(session: UploadSession, file: File) {
+  return file.name === session.fileName && file.size === session.fileSize && file.lastModified === session.lastModified
+}
+
+export function getNextPart(session: UploadSession) {
+  return session.parts.findIndex(part => part === null)
+}
+
+// Every attempt at a part gets its own path, so a stopped attempt that still lands can be deleted without
+// touching the one that replaced it. Storage swaps the extension for the one it detects in the content,
+// so what tells parts apart has to come before it.
+export function getPartPath(session: UploadSession, index: number, attempt: string) {
+  return session.parts.length === 1
+    ? `${session.basePath}/${attempt}/${session.fileName}`
+    : `${session.basePath}/parts/${attempt}/${index.toString().padStart(4, '0')}-${session.fileName}`
+}
+
+export function getPartBlob(session: UploadSession, file: File, index: number) {
+  const start = index * session.chunkSize
+  return file.slice(start, Math.min(file.size, start + session.chunkSize), session.fileType)
+}
+
+export function completePart(session: UploadSession, index: number, part: UploadedPart): UploadSession {
+  return {
+    ...session,
+    parts: session.parts.map((existing, i) => i === index ? part : existing),
+    attempts: 0,
+    partProgress: 0,
+    retryAt: undefined,
+    error: undefined
+  }
+}
+
+const getPartSize = (session: UploadSession, index: number) => {
+  return Math.max(0, Math.min(session.chunkSize, session.fileSize - index * session.chunkSize))
+}
+
+export function getUploadProgress(session: UploadSession) {
+  if (session.status === 'completed') return 1
+  if (session.fileSize === 0) return 0
+
+  const uploaded = session.parts.reduce((total, part, index) => part ? total + getPartSize(session, index) : total, 0)
+  const next = getNextPart(session)
+  const inFlight = session.status === 'uploading' && next !== -1 ? session.partProgress * getPartSize(session, next) : 0
+  return Math.min(1, (uploaded + inFlight) / session.fileSize)
+}
+
+// Weighted by size, so one large file doesn't look done because the small ones are
+export function getBatchProgress(sessions: UploadSession[]) {
+  const total = sessions.reduce((sum, session) => sum + session.fileSize, 0)
+  if (total === 0) return 0
+  return sessions.reduce((sum, session) => sum + getUploadProgress(session) * session.fileSize, 0) / total
+}
+
+export function isUploadActive(session: UploadSession) {
+  return session.status === 'queued' || session.status === 'uploading' || session.status === 'paused' || session.status === 'failed'
+}
+
+// Doubles with each failure, with jitter so parallel uploads don't retry in lockstep
+export function getRetryDelay(attempt: number) {
+  const delay = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** Math.max(0, attempt - 1))
+  return Math.round(delay * (0.75 + Math.random() * 0.5))
+}
+
+// An upload that was running or waiting when the page closed waits to be given its file again
+export function pauseInterruptedUpload(session: UploadSession): UploadSession {
+  return session.status === 'uploading' || session.status === 'queued' ? { ...session, status: 'paused', partProgress: 0, retryAt: undefined } : session
+}
+
+// Cancelling throws the uploaded parts away, so a retry starts over
+export function restartUpload(session: UploadSession): UploadSession {
+  return {
+    ...session,
+    parts: session.parts.map(() => null),
+    status: 'queued',
+    attempts: 0,
+    partProgress: 0,
+    retryAt: undefined,
+    error: undefined,
+    finishedAt: undefined
+  }
+}
+
+// The cache isn't there outside secure contexts; without it the parts are joined on every visit
+const openJoinedMediaCache = () => typeof caches === 'undefined' ? Promise.resolve(null) : caches.open(JOINED_MEDIA_CACHE)
+
+// Files too large to store whole are kept joined in the browser, under their first part's URL
+export async function keepJoinedMedia(parts: string[], media: Blob) {
+  const cache = await openJoinedMediaCache()
+  if (cache && parts.length > 0) await cache.put(parts[0], new Response(media, { headers: { 'Content-Type': media.type } }))
+}
+
+// Multi-part uploads are joined back together in the browser once, then read from the joined copy
+export async function fetchUploadedMedia(
+  parts: string[],
+  { type = '', signal, onKeepFailed }: { type?: string, signal?: AbortSignal, onKeepFailed?: (error: unknown) => void } = {}
+) {
+  const cache = await openJoinedMediaCache().catch(() => null)
+  const cached = parts.length > 0 ? await cache?.match(parts[0]) : undefined
+  if (cached) return cached.blob()
+
+  const blobs: Blob[] = []
+  for (const url of parts) {
+    const response = await fetch(url, { signal })
+    if (!response.ok) throw new Error(`Could not download part ${blobs.length + 1} of the video (${response.status})`)
+    blobs.push(await response.blob())
+  }
+  const media = new Blob(blobs, { type })
+  await keepJoinedMedia(parts, media).catch(error => {
+    console.error('Failed to keep the joined video:', error)
+    onKeepFailed?.(error)
+  })
+  return media
+}
@@ -0,0 +1,56 @@
+import { WAVEFORM_SAMPLE_RATE, type Waveform, type WaveformLevel } from './waveform'
+
+export async function decodeMonoAudio(data: ArrayBuffer) {
+  // Decoding through an 8kHz context resamples as part of the decode
+  const context = new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE)
+  const buffer = await context.decodeAudioData(data)
+
+  if (buffer.numberOfChannels === 1) {
+    return buffer.getChannelData(0)
+  }
+
+  const mixed = new Float32Array(buffer.length)
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const channelData = buffer.getChannelData(channel)
+    for (let i = 0; i < buffer.length; i++) {
+      mixed[i] += channelData[i] / buffer.numberOfChannels
+    }
+  }
+  return mixed
+}
+
+const buildLevelsInWorker = (samples: Float32Array): Promise<WaveformLevel[]> => {
+  const worker = new Worker(new URL('../workers/waveform.worker.ts', import.meta.url), { type: 'module' })
+
+  return new Promise<WaveformLevel[]>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<{ levels: WaveformLevel[] }>) => resolve(event.data.levels)
+    worker.onerror = (event) => reject(new Error(event.message || 'Waveform worker failed'))
+    worker.postMessage({ samples }, [samples.buffer])
+  }).finally(() => worker.terminate())
+}
+
+const waveformCache = new Map<string, Promise<Waveform>>()
+
+export function loadWaveform(projectId: string, mediaUrl: string): Promise<Waveform> {
+  const cached = waveformCache.get(projectId)
+  if (cached) return cached
+
+  const pending = (async () => {
+    const response = await fetch(mediaUrl)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch media (${response.status})`)
+    }
+
+    const samples = await decodeMonoAudio(await response.arrayBuffer())
+    const duration = samples.length / WAVEFORM_SAMPLE_RATE
+    const levels = await buildLevelsInWorker(samples)
+
+    return { sampleRate: WAVEFORM_SAMPLE_RATE, duration, levels }
+  })()
+
+  // Don't cache failures, so a later attempt (e.g. once the upload URL exists) can retry
+  pending.catch(() => waveformCache.delete(projectId))
+  waveformCache.set(projectId, pending)
+
+  return pending
+}
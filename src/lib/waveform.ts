@@ -0,0 +1,68 @@
+export interface WaveformLevel {
+  bucketSize: number // samples per bucket
+  peaks: Float32Array
+  rms: Float32Array
+}
+
+export interface Waveform {
+  sampleRate: number
+  duration: number
+  levels: WaveformLevel[] // finest first, each level halves the resolution of the previous one
+}
+
+// Plenty for drawing and for energy analysis, and keeps a one hour decode around 115MB
+export const WAVEFORM_SAMPLE_RATE = 8000
+const BASE_BUCKET_SIZE = 32
+const MIN_LEVEL_BUCKETS = 256
+
+export function buildWaveformLevels(samples: Float32Array): WaveformLevel[] {
+  const bucketCount = Math.ceil(samples.length / BASE_BUCKET_SIZE)
+  const peaks = new Float32Array(bucketCount)
+  const rms = new Float32Array(bucketCount)
+
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    const start = bucket * BASE_BUCKET_SIZE
+    const end = Math.min(start + BASE_BUCKET_SIZE, samples.length)
+    let peak = 0
+    let sumSquares = 0
+    for (let i = start; i < end; i++) {
+      const value = samples[i]
+      const magnitude = value < 0 ? -value : value
+      if (magnitude > peak) peak = magnitude
+      sumSquares += value * value
+    }
+    peaks[bucket] = peak
+    rms[bucket] = Math.sqrt(sumSquares / (end - start))
+  }
+
+  const levels: WaveformLevel[] = [{ bucketSize: BASE_BUCKET_SIZE, peaks, rms }]
+
+  // Each coarser level merges pairs of buckets: peaks take the max, RMS averages the energy
+  while (levels[levels.length - 1].peaks.length > MIN_LEVEL_BUCKETS) {
+    const previous = levels[levels.length - 1]
+    const count = Math.ceil(previous.peaks.length / 2)
+    const nextPeaks = new Float32Array(count)
+    const nextRms = new Float32Array(count)
+
+    for (let i = 0; i < count; i++) {
+      const a = i * 2
+      const b = Math.min(a + 1, previous.peaks.length - 1)
+      nextPeaks[i] = Math.max(previous.peaks[a], previous.peaks[b])
+      nextRms[i] = Math.sqrt((previous.rms[a] ** 2 + previous.rms[b] ** 2) / 2)
+    }
+
+    levels.push({ bucketSize: previous.bucketSize * 2, peaks: nextPeaks, rms: nextRms })
+  }
+
+  return levels
+}
+
+// Picks the coarsest level that still gives at least one bucket per pixel for the visible range
+export function selectWaveformLevel(waveform: Waveform, visibleSeconds: number, pixelWidth: number) {
+  for (let i = waveform.levels.length - 1; i >= 0; i--) {
+    const level = waveform.levels[i]
+    const visibleBuckets = (visibleSeconds * waveform.sampleRate) / level.bucketSize
+    if (visibleBuckets >= pixelWidth) return level
+  }
+  return waveform.levels[0]
+}
@@ -0,0 +1,8 @@
+import { buildWaveformLevels } from '../lib/waveform'
+
+self.addEventListener('message', (event: MessageEvent<{ samples: Float32Array }>) => {
+  const levels = buildWaveformLevels(event.data.samples)
+  const transfer = levels.flatMap(level => [level.peaks.buffer, level.rms.buffer])
+
+  self.postMessage({ levels }, { transfer })
+})